@@ -0,0 +1,51 @@
+import { FormEvent, useState } from 'react';
+import { adminRequest, AdminRequestError } from '@/lib/adminClient';
+
+interface AdminLoginProps {
+  onSignIn: (password: string) => void;
+}
+
+export default function AdminLogin({ onSignIn }: AdminLoginProps) {
+  const [password, setPassword] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setChecking(true);
+    setError('');
+    try {
+      // Any admin request confirms the password before it is remembered
+      await adminRequest('/trivia?search=', password);
+      onSignIn(password);
+    } catch (err) {
+      setError(err instanceof AdminRequestError ? err.message : 'Could not reach the server');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-md mx-auto mt-24 flex flex-col gap-6">
+      <h1 className="text-4xl font-bold text-center">🔐 Trivia Admin</h1>
+      <label className="flex flex-col gap-3 text-2xl">
+        <span>Admin password</span>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          className="px-6 py-4 rounded-xl text-black focus:outline-none focus:ring-4 focus:ring-yellow-400"
+        />
+      </label>
+      {error && <p className="p-4 rounded-xl bg-red-600 text-xl text-center" role="alert">{error}</p>}
+      <button
+        type="submit"
+        disabled={!password || checking}
+        className="px-8 py-5 rounded-xl font-bold text-2xl bg-blue-500 hover:bg-blue-400 text-white focus:outline-none focus:ring-4 focus:ring-yellow-400 disabled:opacity-40"
+      >
+        {checking ? 'Checking...' : 'Sign In'}
+      </button>
+    </form>
+  );
+}
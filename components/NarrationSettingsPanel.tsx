@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { useNarration } from '@/hooks/useNarration';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  availableVoices,
+  DEFAULT_NARRATION_SETTINGS,
+  PITCH_RANGE,
+  RATE_RANGE,
+  setNarrationLanguage,
+  speak,
+  updateNarrationSettings,
+  voicesForLanguage,
+} from '@/lib/narration';
+
+interface NarrationSettingsPanelProps {
+  highContrast?: boolean;
+}
+
+export default function NarrationSettingsPanel({ highContrast = false }: NarrationSettingsPanelProps) {
+  const { settings } = useNarration();
+  const { t } = useTranslation();
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  // Browsers load voices asynchronously and announce them with voiceschanged
+  useEffect(() => {
+    if (typeof window === 'undefined' || !window.speechSynthesis) return;
+    const load = () => setVoices(availableVoices());
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+
+  const languages = Array.from(new Set([settings.lang, ...voices.map(v => v.lang)])).sort();
+  // voices is only read here so the list refreshes when the browser finishes loading them
+  const languageVoices = voices.length ? voicesForLanguage(settings.lang) : [];
+
+  const handleMuteToggle = () => {
+    const muted = !settings.muted;
+    updateNarrationSettings({ muted });
+    if (!muted) speak(t('narration.onSpoken'), { priority: 'high' });
+  };
+
+  const panelClass = `max-w-4xl mx-auto p-8 rounded-2xl text-left ${highContrast ? 'bg-gray-900 border-2 border-white' : 'bg-blue-800'}`;
+  const fieldClass = 'w-full px-4 py-3 rounded-lg text-black text-xl focus:outline-none focus:ring-4 focus:ring-yellow-400';
+  const buttonClass = `px-6 py-4 rounded-xl font-bold text-xl transition-colors focus:outline-none focus:ring-4 focus:ring-yellow-400 ${
+    highContrast ? 'bg-white text-black hover:bg-gray-200' : 'bg-blue-500 hover:bg-blue-400 text-white'
+  }`;
+
+  const slider = (
+    label: string,
+    value: number,
+    range: { min: number; max: number; step: number },
+    onChange: (value: number) => void,
+    format: (value: number) => string
+  ) => (
+    <label className="flex flex-col gap-2 text-xl">
+      <span>{label}: <span className="font-bold">{format(value)}</span></span>
+      <input
+        type="range"
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full accent-yellow-400"
+        aria-valuetext={format(value)}
+      />
+    </label>
+  );
+
+  return (
+    <section className={panelClass} aria-label={t('narration.label')}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <label className="flex flex-col gap-2 text-xl">
+          <span>{t('narration.language')}</span>
+          <select value={settings.lang} onChange={(e) => setNarrationLanguage(e.target.value)} className={fieldClass}>
+            {languages.map(lang => (
+              <option key={lang} value={lang}>{lang}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-2 text-xl">
+          <span>{t('narration.voice')}</span>
+          <select
+            value={settings.voiceURI || ''}
+            onChange={(e) => updateNarrationSettings({ voiceURI: e.target.value || null })}
+            className={fieldClass}
+          >
+            <option value="">{t('narration.defaultVoice')}</option>
+            {languageVoices.map(voice => (
+              <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>
+            ))}
+          </select>
+        </label>
+        {slider(t('narration.speed'), settings.rate, RATE_RANGE, rate => updateNarrationSettings({ rate }), v => `${v.toFixed(2)}×`)}
+        {slider(t('narration.pitch'), settings.pitch, PITCH_RANGE, pitch => updateNarrationSettings({ pitch }), v => v.toFixed(2))}
+        {slider(t('narration.volume'), settings.volume, { min: 0, max: 1, step: 0.05 }, volume => updateNarrationSettings({ volume }), v => `${Math.round(v * 100)}%`)}
+      </div>
+      <div className="flex flex-wrap gap-4">
+        <button onClick={() => speak(t('narration.sample'), { priority: 'high' })} className={buttonClass} disabled={settings.muted}>
+          {t('narration.test')}
+        </button>
+        <button onClick={handleMuteToggle} className={buttonClass} aria-pressed={settings.muted}>
+          {settings.muted ? t('narration.muted') : t('narration.unmuted')}
+        </button>
+        <button
+          onClick={() => updateNarrationSettings({ ...DEFAULT_NARRATION_SETTINGS, muted: settings.muted })}
+          className={buttonClass}
+        >
+          {t('narration.reset')}
+        </button>
+      </div>
+    </section>
+  );
+}
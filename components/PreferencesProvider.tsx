@@ -0,0 +1,63 @@
+import { createContext, ReactNode, useCallback, useEffect, useState } from 'react';
+import { MotionConfig } from 'framer-motion';
+import { LOCALES } from '@/lib/i18n';
+import { followLocaleLanguage } from '@/lib/narration';
+import { DEFAULT_PREFERENCES, DisplayPreferences, loadPreferences, savePreferences } from '@/lib/preferences';
+
+export interface PreferencesContextValue {
+  preferences: DisplayPreferences;
+  // False until saved preferences have been read on the client
+  loaded: boolean;
+  updatePreferences: (changes: Partial<DisplayPreferences>) => void;
+}
+
+export const PreferencesContext = createContext<PreferencesContextValue>({
+  preferences: DEFAULT_PREFERENCES,
+  loaded: false,
+  updatePreferences: () => {},
+});
+
+// Classes on <html> that globals.css keys the font, palette and motion overrides off
+const ROOT_CLASSES: [keyof DisplayPreferences, string][] = [
+  ['dyslexiaFont', 'dyslexia-font'],
+  ['colorBlindPalette', 'colorblind-palette'],
+  ['reducedMotion', 'reduce-motion'],
+];
+
+export default function PreferencesProvider({ children }: { children: ReactNode }) {
+  const [preferences, setPreferences] = useState<DisplayPreferences>(DEFAULT_PREFERENCES);
+  const [loaded, setLoaded] = useState(false);
+
+  // Loaded after mount so the server render and hydration agree
+  useEffect(() => {
+    setPreferences(loadPreferences());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    ROOT_CLASSES.forEach(([key, className]) => root.classList.toggle(className, !!preferences[key]));
+    root.lang = preferences.locale;
+  }, [preferences]);
+
+  // Narration and speech recognition speak the UI language
+  useEffect(() => {
+    if (loaded) followLocaleLanguage(LOCALES[preferences.locale].speechLang);
+  }, [loaded, preferences.locale]);
+
+  const updatePreferences = useCallback((changes: Partial<DisplayPreferences>) => {
+    setPreferences(previous => {
+      const next = { ...previous, ...changes };
+      savePreferences(next);
+      return next;
+    });
+  }, []);
+
+  return (
+    <PreferencesContext.Provider value={{ preferences, loaded, updatePreferences }}>
+      <MotionConfig reducedMotion={preferences.reducedMotion ? 'always' : 'never'}>
+        {children}
+      </MotionConfig>
+    </PreferencesContext.Provider>
+  );
+}
@@ -0,0 +1,66 @@
+import Image from 'next/image';
+import { useEffect, useRef, useState } from 'react';
+import { MediaKind, TriviaMedia } from '@/lib/trivia';
+
+interface QuestionMediaProps {
+  kind: MediaKind;
+  media: TriviaMedia;
+  // Clips play while this is on and pause when it goes off; they don't restart once finished
+  playing?: boolean;
+  className?: string;
+}
+
+// A question's picture or sound clip, falling back to its description when the file can't be loaded.
+// Give it a key per src so a new file starts with a fresh error state.
+export default function QuestionMedia({ kind, media, playing = false, className = '' }: QuestionMediaProps) {
+  const [failed, setFailed] = useState(false);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (playing && !audio.ended) {
+      // Browsers may block playback until the page has been interacted with; the controls stay usable
+      audio.play().catch(() => {});
+    } else {
+      audio.pause();
+    }
+  }, [playing, failed]);
+
+  if (failed) {
+    return (
+      <p className={`text-2xl text-blue-100 italic ${className}`}>
+        {kind === 'image' ? '🖼️' : '🔇'} {media.alt}
+      </p>
+    );
+  }
+
+  if (kind === 'audio') {
+    return (
+      <div className={`flex items-center justify-center gap-4 ${className}`}>
+        <span className="text-4xl" aria-hidden="true">🔊</span>
+        <audio
+          ref={audioRef}
+          src={media.src}
+          controls
+          preload="auto"
+          aria-label={media.alt}
+          onError={() => setFailed(true)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={`relative w-full h-64 md:h-80 ${className}`}>
+      <Image
+        src={media.src}
+        alt={media.alt}
+        fill
+        sizes="(min-width: 768px) 50vw, 100vw"
+        className="object-contain"
+        onError={() => setFailed(true)}
+      />
+    </div>
+  );
+}
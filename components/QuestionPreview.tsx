@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import QuestionMedia from '@/components/QuestionMedia';
+import { buildChoices, CHOICE_LABELS } from '@/lib/choices';
+import { Locale, LOCALES } from '@/lib/i18n';
+import { createRng, seedToNumber } from '@/lib/random';
+import { hasTranslatedAnswer, isMediaSrc, localizeItem, MediaPhase, phaseMedia, TriviaItem } from '@/lib/trivia';
+
+interface QuestionPreviewProps {
+  item: TriviaItem;
+  // Other questions, which multiple-choice rounds draw extra wrong options from
+  bank?: TriviaItem[];
+}
+
+type PreviewMode = 'open' | 'choice';
+
+// A scaled-down copy of the play screen's question and answer panels
+export default function QuestionPreview({ item, bank = [] }: QuestionPreviewProps) {
+  const [mode, setMode] = useState<PreviewMode>('open');
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [locale, setLocale] = useState<Locale>('en');
+
+  const locales = ['en', ...Object.keys(item.translations || {})] as Locale[];
+  const previewLocale = locales.includes(locale) ? locale : 'en';
+  const shown = localizeItem(item, previewLocale);
+  // Drawn the way /api/trivia does, seeded by the question so options don't reshuffle on every keystroke
+  const pool = bank
+    .filter(other => hasTranslatedAnswer(other, previewLocale) === hasTranslatedAnswer(item, previewLocale))
+    .map(other => localizeItem(other, previewLocale));
+  const choices = mode === 'choice' ? buildChoices(shown, pool, createRng(seedToNumber(item.question))) : null;
+
+  // Paths still being typed aren't loaded
+  const media = (phase: MediaPhase) => phaseMedia(shown, phase)
+    .filter(({ kind, media }) => isMediaSrc(kind, media.src) && media.alt)
+    .map(({ kind, media }) => <QuestionMedia key={media.src} kind={kind} media={media} className="mt-4" />);
+
+  const toggleClass = (active: boolean) => `px-4 py-2 rounded-lg font-bold text-lg focus:outline-none focus:ring-4 focus:ring-yellow-400 ${
+    active ? 'bg-yellow-500 text-black' : 'bg-blue-700 hover:bg-blue-600 text-white'
+  }`;
+
+  return (
+    <section aria-label="Preview">
+      <div className="flex flex-wrap gap-3 mb-4">
+        <button type="button" onClick={() => setMode('open')} className={toggleClass(mode === 'open')} aria-pressed={mode === 'open'}>
+          💬 Open
+        </button>
+        <button type="button" onClick={() => setMode('choice')} className={toggleClass(mode === 'choice')} aria-pressed={mode === 'choice'}>
+          🔤 Choice
+        </button>
+        <button type="button" onClick={() => setShowAnswer(!showAnswer)} className={toggleClass(showAnswer)} aria-pressed={showAnswer}>
+          👁️ Answer
+        </button>
+        {locales.length > 1 && locales.map(code => (
+          <button
+            key={code}
+            type="button"
+            onClick={() => setLocale(code)}
+            className={toggleClass(previewLocale === code)}
+            aria-pressed={previewLocale === code}
+          >
+            {LOCALES[code].name}
+          </button>
+        ))}
+      </div>
+
+      <div className="aspect-video overflow-y-auto rounded-2xl bg-blue-900 text-white p-8 text-center ring-4 ring-blue-700">
+        <p className="text-lg text-yellow-300 mb-4">{shown.country} · {shown.period}</p>
+        <h2 className="text-3xl font-bold leading-tight">{shown.question || 'Question text'}</h2>
+        {media('question')}
+        {mode === 'choice' && (choices ? (
+          <ol className="grid grid-cols-2 gap-3 mt-6 text-left">
+            {choices.options.map((option, i) => {
+              const isCorrect = i === choices.correctIndex;
+              return (
+                <li
+                  key={option}
+                  className={`flex items-center gap-3 p-3 rounded-xl bg-blue-700 ${
+                    showAnswer ? (isCorrect ? 'bg-green-600 ring-4 ring-yellow-300' : 'opacity-40') : ''
+                  }`}
+                >
+                  <span className="text-2xl font-bold text-yellow-300">{CHOICE_LABELS[i]}</span>
+                  <span className="text-lg font-bold">{option}</span>
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <p className="mt-6 text-lg text-amber-300">⚠️ Not enough wrong options, so this plays as open answer in multiple-choice rounds.</p>
+        ))}
+        {showAnswer && (
+          <div className="mt-6 p-6 bg-green-600 rounded-2xl">
+            <p className="text-2xl font-bold">
+              ✅ {choices ? `${CHOICE_LABELS[choices.correctIndex]}: ` : ''}{shown.answer}
+            </p>
+            {media('answer')}
+            {shown.funFact && <p className="text-lg mt-3 text-green-100">💡 {shown.funFact}</p>}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,351 @@
+import { FormEvent, useState } from 'react';
+import QuestionPreview from '@/components/QuestionPreview';
+import { DEFAULT_LOCALE, Locale, LOCALES } from '@/lib/i18n';
+import { CATEGORIES, DIFFICULTIES, MediaKind, MediaPhase, PERIODS, SchemaIssue, TriviaItem, TriviaMedia, TriviaTranslation } from '@/lib/trivia';
+import { categoryLabel, difficultyLabel } from '@/lib/triviaAdmin';
+
+interface TriviaItemFormProps {
+  initial?: TriviaItem;
+  countries: string[];
+  // Every other question, for the multiple-choice preview
+  bank: TriviaItem[];
+  saving: boolean;
+  issues: SchemaIssue[];
+  submitLabel: string;
+  onSubmit: (item: TriviaItem) => void;
+}
+
+const TRANSLATION_LOCALES = (Object.keys(LOCALES) as Locale[]).filter(locale => locale !== DEFAULT_LOCALE);
+
+// Lists are edited one entry per line
+interface TranslationDraft {
+  question: string;
+  answer: string;
+  funFact: string;
+  distractors: string;
+  acceptedAnswers: string;
+}
+
+interface MediaDraft {
+  src: string;
+  alt: string;
+  // Empty for the question
+  phase: string;
+}
+
+const MEDIA_LABELS: Record<MediaKind, { title: string; example: string }> = {
+  image: { title: '🖼️ Picture', example: '/media/rubiks-cube.svg' },
+  audio: { title: '🔊 Sound clip', example: '/media/theme-tune.mp3' },
+};
+
+interface ItemDraft extends TranslationDraft {
+  country: string;
+  period: string;
+  // Empty for none
+  category: string;
+  // Empty counts as medium
+  difficulty: string;
+  // "1969", "1965-1972" or empty
+  years: string;
+  media: Record<MediaKind, MediaDraft>;
+  translations: Partial<Record<Locale, TranslationDraft>>;
+}
+
+function toLines(list?: string[]): string {
+  return (list || []).join('\n');
+}
+
+function fromLines(text: string): string[] | undefined {
+  const list = text.split('\n').map(line => line.trim()).filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+function yearsDraft(item?: TriviaItem): string {
+  if (item?.year !== undefined) return String(item.year);
+  return item?.yearRange ? item.yearRange.join('-') : '';
+}
+
+// Text that isn't a year or range is sent as an invalid year so the server reports it on the field
+function fromYears(text: string): Pick<TriviaItem, 'year' | 'yearRange'> {
+  const trimmed = text.trim();
+  if (!trimmed) return {};
+  const range = /^(\d{4})\s*-\s*(\d{4})$/.exec(trimmed);
+  if (range) return { yearRange: [parseInt(range[1], 10), parseInt(range[2], 10)] };
+  return { year: /^\d{4}$/.test(trimmed) ? parseInt(trimmed, 10) : NaN };
+}
+
+function mediaDraft(media?: TriviaMedia): MediaDraft {
+  return { src: media?.src || '', alt: media?.alt || '', phase: media?.phase || '' };
+}
+
+// A picture or clip with every field empty is removed
+function fromMediaDraft(media: MediaDraft): TriviaMedia | undefined {
+  const src = media.src.trim();
+  const alt = media.alt.trim();
+  if (!src && !alt && !media.phase) return undefined;
+  return { src, alt, ...(media.phase ? { phase: media.phase as MediaPhase } : {}) };
+}
+
+function translationDraft(translation: TriviaTranslation = {}): TranslationDraft {
+  return {
+    question: translation.question || '',
+    answer: translation.answer || '',
+    funFact: translation.funFact || '',
+    distractors: toLines(translation.distractors),
+    acceptedAnswers: toLines(translation.acceptedAnswers),
+  };
+}
+
+function toDraft(item?: TriviaItem): ItemDraft {
+  const translations: ItemDraft['translations'] = {};
+  TRANSLATION_LOCALES.forEach(locale => {
+    const translation = item?.translations?.[locale];
+    if (translation) translations[locale] = translationDraft(translation);
+  });
+  return {
+    country: item?.country || '',
+    period: item?.period || PERIODS[0],
+    category: item?.category || '',
+    difficulty: item?.difficulty || '',
+    years: yearsDraft(item),
+    media: { image: mediaDraft(item?.image), audio: mediaDraft(item?.audio) },
+    question: item?.question || '',
+    answer: item?.answer || '',
+    funFact: item?.funFact || '',
+    distractors: toLines(item?.distractors),
+    acceptedAnswers: toLines(item?.acceptedAnswers),
+    translations,
+  };
+}
+
+// Empty optional fields are left out rather than saved as empty strings or lists
+function withoutEmpty<T extends object>(value: T): T {
+  const result = { ...value };
+  (Object.keys(result) as (keyof T)[]).forEach(key => {
+    if (result[key] === undefined || result[key] === '') delete result[key];
+  });
+  return result;
+}
+
+function fromDraft(draft: ItemDraft): TriviaItem {
+  const translations: TriviaItem['translations'] = {};
+  TRANSLATION_LOCALES.forEach(locale => {
+    const translation = draft.translations[locale];
+    if (!translation) return;
+    const cleaned = withoutEmpty<TriviaTranslation>({
+      question: translation.question.trim(),
+      answer: translation.answer.trim(),
+      funFact: translation.funFact.trim(),
+      distractors: fromLines(translation.distractors),
+      acceptedAnswers: fromLines(translation.acceptedAnswers),
+    });
+    if (Object.keys(cleaned).length > 0) translations[locale] = cleaned;
+  });
+  return {
+    country: draft.country.trim(),
+    period: draft.period,
+    ...fromYears(draft.years),
+    question: draft.question.trim(),
+    answer: draft.answer.trim(),
+    ...withoutEmpty<Partial<TriviaItem>>({
+      category: draft.category,
+      difficulty: draft.difficulty as TriviaItem['difficulty'],
+      funFact: draft.funFact.trim(),
+      distractors: fromLines(draft.distractors),
+      acceptedAnswers: fromLines(draft.acceptedAnswers),
+      image: fromMediaDraft(draft.media.image),
+      audio: fromMediaDraft(draft.media.audio),
+      translations: Object.keys(translations).length > 0 ? translations : undefined,
+    }),
+  };
+}
+
+export default function TriviaItemForm({ initial, countries, bank, saving, issues, submitLabel, onSubmit }: TriviaItemFormProps) {
+  const [draft, setDraft] = useState<ItemDraft>(() => toDraft(initial));
+
+  const item = fromDraft(draft);
+
+  const setField = (field: keyof Omit<ItemDraft, 'translations' | 'media'>, value: string) => {
+    setDraft({ ...draft, [field]: value });
+  };
+
+  const setTranslationField = (locale: Locale, field: keyof TranslationDraft, value: string) => {
+    const translation = draft.translations[locale] || translationDraft();
+    setDraft({ ...draft, translations: { ...draft.translations, [locale]: { ...translation, [field]: value } } });
+  };
+
+  const setMediaField = (kind: MediaKind, field: keyof MediaDraft, value: string) => {
+    setDraft({ ...draft, media: { ...draft.media, [kind]: { ...draft.media[kind], [field]: value } } });
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSubmit(item);
+  };
+
+  const fieldClass = 'w-full px-4 py-3 rounded-lg text-black text-xl focus:outline-none focus:ring-4 focus:ring-yellow-400';
+  const labelClass = 'flex flex-col gap-2 text-xl';
+
+  const errorText = (field?: string) => issues.filter(issue => issue.field === field).map(issue => (
+    <span key={issue.message} className="text-lg text-red-300" role="alert">{issue.message}</span>
+  ));
+
+  const textField = (field: 'question' | 'answer' | 'funFact', label: string, multiline = false) => (
+    <label className={labelClass}>
+      <span>{label}</span>
+      {multiline ? (
+        <textarea value={draft[field]} onChange={(e) => setField(field, e.target.value)} rows={3} className={fieldClass} />
+      ) : (
+        <input value={draft[field]} onChange={(e) => setField(field, e.target.value)} className={fieldClass} />
+      )}
+      {errorText(field)}
+    </label>
+  );
+
+  const listField = (field: 'distractors' | 'acceptedAnswers', label: string) => (
+    <label className={labelClass}>
+      <span>{label} <span className="text-base text-white/60">(one per line)</span></span>
+      <textarea value={draft[field]} onChange={(e) => setField(field, e.target.value)} rows={3} className={fieldClass} />
+      {errorText(field)}
+    </label>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+      <form onSubmit={handleSubmit} className="flex flex-col gap-6">
+        {errorText(undefined)}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <label className={labelClass}>
+            <span>Country</span>
+            <input
+              value={draft.country}
+              onChange={(e) => setField('country', e.target.value)}
+              list="admin-countries"
+              className={fieldClass}
+            />
+            <datalist id="admin-countries">
+              {countries.map(country => <option key={country} value={country} />)}
+            </datalist>
+            {errorText('country')}
+          </label>
+          <label className={labelClass}>
+            <span>Period</span>
+            <select value={draft.period} onChange={(e) => setField('period', e.target.value)} className={fieldClass}>
+              {PERIODS.map(period => <option key={period} value={period}>{period}</option>)}
+            </select>
+          </label>
+          <label className={labelClass}>
+            <span>Category</span>
+            <select value={draft.category} onChange={(e) => setField('category', e.target.value)} className={fieldClass}>
+              <option value="">None</option>
+              {CATEGORIES.map(category => (
+                <option key={category} value={category}>{categoryLabel(category)}</option>
+              ))}
+            </select>
+            {errorText('category')}
+          </label>
+        </div>
+        <label className={labelClass}>
+          <span>Difficulty</span>
+          <select value={draft.difficulty} onChange={(e) => setField('difficulty', e.target.value)} className={fieldClass}>
+            <option value="">Not set (counts as medium)</option>
+            {DIFFICULTIES.map(level => <option key={level} value={level}>{difficultyLabel(level)}</option>)}
+          </select>
+          {errorText('difficulty')}
+        </label>
+        <label className={labelClass}>
+          <span>Year or years <span className="text-base text-white/60">(optional, such as 1969 or 1965-1972, for decade rounds)</span></span>
+          <input value={draft.years} onChange={(e) => setField('years', e.target.value)} className={fieldClass} />
+          {errorText('year')}
+          {errorText('yearRange')}
+        </label>
+        {textField('question', 'Question', true)}
+        {textField('answer', 'Answer')}
+        {textField('funFact', 'Fun fact (optional)', true)}
+        {listField('distractors', 'Wrong options for multiple choice')}
+        {listField('acceptedAnswers', 'Other accepted answers when answering aloud')}
+
+        {(['image', 'audio'] as const).map(kind => {
+          const media = draft.media[kind];
+          return (
+            <details key={kind} open={!!(initial && initial[kind])} className="p-6 rounded-xl bg-blue-800">
+              <summary className="text-2xl font-bold cursor-pointer">{MEDIA_LABELS[kind].title}</summary>
+              <p className="text-lg text-white/70 mt-2 mb-4">
+                Put the file in public/ and enter its path, such as {MEDIA_LABELS[kind].example}. Clear every field to remove it.
+              </p>
+              <div className="flex flex-col gap-4">
+                {errorText(kind)}
+                <label className={labelClass}>
+                  <span>File path</span>
+                  <input value={media.src} onChange={(e) => setMediaField(kind, 'src', e.target.value)} className={fieldClass} />
+                  {errorText(`${kind}.src`)}
+                </label>
+                <label className={labelClass}>
+                  <span>Description <span className="text-base text-white/60">(read aloud, and shown if the file is missing)</span></span>
+                  <input value={media.alt} onChange={(e) => setMediaField(kind, 'alt', e.target.value)} className={fieldClass} />
+                  {errorText(`${kind}.alt`)}
+                </label>
+                <label className={labelClass}>
+                  <span>{kind === 'image' ? 'Shown' : 'Played'} with</span>
+                  <select value={media.phase} onChange={(e) => setMediaField(kind, 'phase', e.target.value)} className={fieldClass}>
+                    <option value="">The question</option>
+                    <option value="answer">The answer</option>
+                  </select>
+                  {errorText(`${kind}.phase`)}
+                </label>
+              </div>
+            </details>
+          );
+        })}
+
+        {TRANSLATION_LOCALES.map(locale => {
+          const translation = draft.translations[locale] || translationDraft();
+          const prefix = `translations.${locale}`;
+          return (
+            <details key={locale} open={!!draft.translations[locale]} className="p-6 rounded-xl bg-blue-800">
+              <summary className="text-2xl font-bold cursor-pointer">🌐 {LOCALES[locale].name}</summary>
+              <p className="text-lg text-white/70 mt-2 mb-4">Leave a field empty to show the English text.</p>
+              <div className="flex flex-col gap-4" lang={locale}>
+                {(['question', 'answer', 'funFact'] as const).map(field => (
+                  <label key={field} className={labelClass}>
+                    <span>{field === 'funFact' ? 'Fun fact' : field === 'question' ? 'Question' : 'Answer'}</span>
+                    <input
+                      value={translation[field]}
+                      onChange={(e) => setTranslationField(locale, field, e.target.value)}
+                      className={fieldClass}
+                    />
+                    {errorText(`${prefix}.${field}`)}
+                  </label>
+                ))}
+                {(['distractors', 'acceptedAnswers'] as const).map(field => (
+                  <label key={field} className={labelClass}>
+                    <span>{field === 'distractors' ? 'Wrong options' : 'Other accepted answers'} <span className="text-base text-white/60">(one per line)</span></span>
+                    <textarea
+                      value={translation[field]}
+                      onChange={(e) => setTranslationField(locale, field, e.target.value)}
+                      rows={2}
+                      className={fieldClass}
+                    />
+                    {errorText(`${prefix}.${field}`)}
+                  </label>
+                ))}
+              </div>
+            </details>
+          );
+        })}
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-8 py-5 rounded-xl font-bold text-2xl bg-green-600 hover:bg-green-500 text-white focus:outline-none focus:ring-4 focus:ring-yellow-400 disabled:opacity-40"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+      </form>
+
+      <div className="lg:sticky lg:top-8 self-start">
+        <QuestionPreview item={item} bank={bank} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const PASSWORD_KEY = 'wttv-admin';
+
+function sessionStore(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.sessionStorage : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * The admin password for this browser tab. Kept in sessionStorage so it is
+ * forgotten when the tab closes; null until the stored value has been read.
+ */
+export function useAdminPassword() {
+  const [password, setPasswordState] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setPasswordState(sessionStore()?.getItem(PASSWORD_KEY) || null);
+    setLoaded(true);
+  }, []);
+
+  const setPassword = useCallback((value: string | null) => {
+    setPasswordState(value);
+    if (value) {
+      sessionStore()?.setItem(PASSWORD_KEY, value);
+    } else {
+      sessionStore()?.removeItem(PASSWORD_KEY);
+    }
+  }, []);
+
+  return { password, loaded, setPassword };
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+
+// Return false from a handler to let the key through (e.g. to spatial navigation)
+export type ShortcutMap = Record<string, (e: KeyboardEvent) => boolean | void>;
+
+function isTyping(el: Element | null): boolean {
+  return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || (el as HTMLElement).isContentEditable);
+}
+
+// Keys a focused control handles itself: Space presses a button, so it isn't taken as a shortcut there
+const ACTIVATION_KEYS = new Set([' ', 'Enter']);
+const INTERACTIVE_SELECTOR = 'button, a[href], input, select, textarea, summary, [role="button"], [role="link"], [role="checkbox"], [role="radio"], [role="switch"], [role="option"], [role="menuitem"], [role="tab"]';
+
+function isInteractive(el: Element | null): boolean {
+  return !!el && el !== document.body && el.matches(INTERACTIVE_SELECTOR);
+}
+
+/**
+ * Page-level shortcuts keyed by KeyboardEvent.key (letters are matched case-insensitively).
+ * Runs in the capture phase so it wins over focus navigation, except that Space and Enter
+ * are left to a focused button or other control so keyboards and TV remotes can press it.
+ */
+export function useKeyboardShortcuts(shortcuts: ShortcutMap, enabled: boolean = true) {
+  const shortcutsRef = useRef(shortcuts);
+
+  useEffect(() => {
+    shortcutsRef.current = shortcuts;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || isTyping(document.activeElement)) return;
+      if (ACTIVATION_KEYS.has(e.key) && isInteractive(document.activeElement)) return;
+      const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+      const handler = shortcutsRef.current[key];
+      if (handler && handler(e) !== false) {
+        e.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled]);
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+
+export interface MediaSessionHandlers {
+  play?: () => void;
+  pause?: () => void;
+  nexttrack?: () => void;
+  previoustrack?: () => void;
+}
+
+export interface MediaSessionInfo {
+  title: string;
+  album?: string;
+  paused: boolean;
+}
+
+/**
+ * Hooks the round up to the Media Session API so hardware media keys and TV remotes
+ * with play/pause/skip buttons control it.
+ */
+export function useMediaSession(info: MediaSessionInfo | null, handlers: MediaSessionHandlers) {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) return;
+    const actions: (keyof MediaSessionHandlers)[] = ['play', 'pause', 'nexttrack', 'previoustrack'];
+    actions.forEach(action => {
+      try {
+        navigator.mediaSession.setActionHandler(action, () => handlersRef.current[action]?.());
+      } catch (err) {
+        // Action not supported by this browser
+      }
+    });
+    return () => {
+      actions.forEach(action => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch (err) {
+          // Action not supported by this browser
+        }
+      });
+    };
+  }, []);
+
+  const title = info?.title;
+  const album = info?.album;
+  const paused = info?.paused;
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !('mediaSession' in navigator) || title === undefined) return;
+    if (typeof MediaMetadata !== 'undefined') {
+      navigator.mediaSession.metadata = new MediaMetadata({ title, artist: 'World Trivia TV', album });
+    }
+    navigator.mediaSession.playbackState = paused ? 'paused' : 'playing';
+  }, [title, album, paused]);
+}
@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+import {
+  DEFAULT_NARRATION_SETTINGS,
+  getNarrationSettings,
+  isNarrating,
+  subscribeNarration,
+} from '@/lib/narration';
+
+/**
+ * Current narration settings and whether anything is being read aloud or queued.
+ * Server rendering and hydration see the defaults.
+ */
+export function useNarration() {
+  const speaking = useSyncExternalStore(subscribeNarration, isNarrating, () => false);
+  const settings = useSyncExternalStore(subscribeNarration, getNarrationSettings, () => DEFAULT_NARRATION_SETTINGS);
+  return { speaking, settings };
+}
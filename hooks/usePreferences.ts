@@ -0,0 +1,7 @@
+import { useContext } from 'react';
+import { PreferencesContext } from '@/components/PreferencesProvider';
+
+/** Display preferences shared by every page, saved in this browser. */
+export function usePreferences() {
+  return useContext(PreferencesContext);
+}
@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RemoteCommand, RemoteStatus } from '@/lib/remote';
+
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Opens a remote-control room for this screen, polls it for commands from paired
+ * phones and publishes the round status so the remote can mirror it. The room's
+ * TV key stays here; it is what lets this screen free the host role.
+ */
+export function useRemoteControl(status: RemoteStatus | null, onCommand: (command: RemoteCommand) => void) {
+  const [room, setRoom] = useState<{ code: string; tvKey: string } | null>(null);
+  const [remoteConnected, setRemoteConnected] = useState(false);
+  const [hostPaired, setHostPaired] = useState(false);
+  const code = room ? room.code : null;
+  const onCommandRef = useRef(onCommand);
+
+  useEffect(() => {
+    onCommandRef.current = onCommand;
+  });
+
+  useEffect(() => {
+    if (code) return;
+    let cancelled = false;
+    fetch('/api/remote', { method: 'POST' })
+      .then(response => response.json())
+      .then(data => {
+        if (!cancelled && data.code) setRoom({ code: data.code, tvKey: data.tvKey });
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [code]);
+
+  useEffect(() => {
+    if (!code) return;
+    let since = 0;
+    let active = true;
+    let timer: NodeJS.Timeout;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/remote/${code}/commands?since=${since}`);
+        if (response.status === 404) {
+          // The server forgot the room (e.g. a restart); open a new one
+          if (active) setRoom(null);
+          return;
+        }
+        const data = await response.json();
+        if (!active) return;
+        setRemoteConnected(data.remoteConnected);
+        setHostPaired(data.hostPaired);
+        for (const { seq, command } of data.commands as { seq: number; command: RemoteCommand }[]) {
+          since = Math.max(since, seq);
+          onCommandRef.current(command);
+        }
+      } catch (err) {
+        // Network hiccup; try again on the next tick
+      }
+      if (active) timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+    poll();
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [code]);
+
+  const statusBody = status ? JSON.stringify(status) : null;
+  useEffect(() => {
+    if (!code || !statusBody) return;
+    fetch(`/api/remote/${code}/status`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: statusBody,
+    }).catch(() => {});
+  }, [code, statusBody]);
+
+  const releaseHost = () => {
+    if (!room) return;
+    setHostPaired(false);
+    fetch(`/api/remote/${room.code}/host?key=${room.tvKey}`, { method: 'DELETE' }).catch(() => {});
+  };
+
+  return { code, remoteConnected, hostPaired, releaseHost };
+}
@@ -0,0 +1,64 @@
+import { useEffect } from 'react';
+import { ARROW_DIRECTIONS, pickNeighbor } from '@/lib/spatialNavigation';
+
+const FOCUSABLE = 'button:not([disabled]), a[href], input:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+function focusableElements(): HTMLElement[] {
+  return Array.from(document.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => {
+    const rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0 && !el.closest('[aria-hidden="true"]');
+  });
+}
+
+function isTextField(el: Element | null): boolean {
+  return !!el && (el.tagName === 'TEXTAREA' || (el.tagName === 'INPUT' && (el as HTMLInputElement).type !== 'checkbox'));
+}
+
+/**
+ * Moves focus between on-screen controls with the arrow keys, as a TV remote's D-pad
+ * would. Handlers that call preventDefault() first (e.g. page shortcuts) take priority.
+ */
+export function useSpatialNavigation(enabled: boolean = true) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey) return;
+      const active = document.activeElement as HTMLElement | null;
+
+      // Some TV remotes send "Select" instead of Enter for the OK button
+      if (e.key === 'Select' && active && active !== document.body) {
+        e.preventDefault();
+        active.click();
+        return;
+      }
+
+      const direction = ARROW_DIRECTIONS[e.key];
+      if (!direction) return;
+      // Left and right keep moving the caret inside text fields
+      if (isTextField(active) && (direction === 'left' || direction === 'right')) return;
+
+      const elements = focusableElements();
+      if (elements.length === 0) return;
+      e.preventDefault();
+
+      if (!active || active === document.body || !elements.includes(active)) {
+        elements[0].focus();
+        return;
+      }
+
+      const next = pickNeighbor(
+        active.getBoundingClientRect(),
+        direction,
+        elements.filter(el => el !== active).map(el => ({ box: el.getBoundingClientRect(), value: el }))
+      );
+      if (next) {
+        next.focus();
+        next.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+
+export interface SpeechRecognitionOptions {
+  enabled: boolean;
+  lang?: string;
+  onResult: (transcript: string, isFinal: boolean) => void;
+  // Microphone blocked or recognition unavailable; listening has stopped
+  onFailure?: (reason: 'unsupported' | 'not-allowed' | 'failed') => void;
+}
+
+function recognitionConstructor(): any {
+  if (typeof window === 'undefined') return null;
+  return (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+}
+
+export function isSpeechRecognitionSupported(): boolean {
+  return !!recognitionConstructor();
+}
+
+/**
+ * Continuous speech recognition that restarts itself when the browser ends a session,
+ * until `enabled` goes false. Callbacks always see the latest render's state.
+ */
+export function useSpeechRecognition({ enabled, lang = 'en-US', onResult, onFailure }: SpeechRecognitionOptions) {
+  const [listening, setListening] = useState(false);
+  const callbacksRef = useRef({ onResult, onFailure });
+
+  useEffect(() => {
+    callbacksRef.current = { onResult, onFailure };
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const SpeechRecognition = recognitionConstructor();
+    if (!SpeechRecognition) {
+      callbacksRef.current.onFailure?.('unsupported');
+      return;
+    }
+
+    let active = true;
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = lang;
+
+    recognition.onstart = () => setListening(true);
+
+    recognition.onresult = (event: any) => {
+      const current = event.resultIndex;
+      const transcript = event.results[current][0].transcript.trim();
+      callbacksRef.current.onResult(transcript, event.results[current].isFinal);
+    };
+
+    recognition.onerror = (event: any) => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        active = false;
+        callbacksRef.current.onFailure?.('not-allowed');
+      }
+    };
+
+    recognition.onend = () => {
+      setListening(false);
+      if (active) {
+        try { recognition.start(); } catch (e) {}
+      }
+    };
+
+    try {
+      recognition.start();
+    } catch (error) {
+      active = false;
+      callbacksRef.current.onFailure?.('failed');
+    }
+
+    return () => {
+      active = false;
+      recognition.stop();
+    };
+  }, [enabled, lang]);
+
+  return { listening };
+}
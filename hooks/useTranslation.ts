@@ -0,0 +1,11 @@
+import { useCallback } from 'react';
+import { usePreferences } from '@/hooks/usePreferences';
+import { LOCALES, Translate, translate } from '@/lib/i18n';
+
+/** UI strings in the language chosen on the home page, with English fallback. */
+export function useTranslation() {
+  const { preferences } = usePreferences();
+  const { locale } = preferences;
+  const t: Translate = useCallback((key, params) => translate(locale, key, params), [locale]);
+  return { t, locale, speechLang: LOCALES[locale].speechLang };
+}
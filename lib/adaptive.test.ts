@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { adaptUpcoming, nextDifficulty } from '@/lib/adaptive';
+import type { Difficulty, RoundItem } from '@/lib/trivia';
+
+function item(id: string, country: string, difficulty?: Difficulty): RoundItem {
+  return { id, country, period: '1960-1979', question: `Question ${id}?`, answer: 'Answer', difficulty };
+}
+
+const ids = (items: RoundItem[]) => items.map(entry => entry.id);
+
+describe('nextDifficulty', () => {
+  it('moves up after two right answers in a row and down after two misses', () => {
+    assert.equal(nextDifficulty('medium', [false, true, true]), 'hard');
+    assert.equal(nextDifficulty('medium', [true, false, false]), 'easy');
+    assert.equal(nextDifficulty('medium', [true, false]), 'medium');
+  });
+
+  it('waits for a full streak and stays within the levels', () => {
+    assert.equal(nextDifficulty('medium', [true]), 'medium');
+    assert.equal(nextDifficulty('hard', [true, true]), 'hard');
+    assert.equal(nextDifficulty('easy', [false, false]), 'easy');
+  });
+});
+
+describe('adaptUpcoming', () => {
+  const items = [item('a', 'USA', 'easy'), item('b', 'Nigeria'), item('c', 'USA', 'hard'), item('d', 'Nigeria', 'hard')];
+
+  it('leaves the round alone when the question already fits or nothing matches', () => {
+    const round = { items, reserve: [] };
+    assert.equal(adaptUpcoming(round, 1, 'medium'), round);
+    assert.equal(adaptUpcoming(round, 3, 'easy'), round);
+    assert.equal(adaptUpcoming(round, 9, 'hard'), round);
+  });
+
+  it('swaps in a reserve question, preferring the same country, and keeps the one it replaces', () => {
+    const reserve = [item('r1', 'USA', 'hard'), item('r2', 'Nigeria', 'hard')];
+    const round = adaptUpcoming({ items, reserve }, 1, 'hard');
+    assert.deepEqual(ids(round.items), ['a', 'r2', 'c', 'd']);
+    assert.deepEqual(ids(round.reserve), ['r1', 'b']);
+  });
+
+  it('brings a later question forward when the reserve has none', () => {
+    const round = adaptUpcoming({ items, reserve: [item('r1', 'USA', 'easy')] }, 1, 'hard');
+    assert.deepEqual(ids(round.items), ['a', 'd', 'c', 'b']);
+    assert.deepEqual(ids(round.reserve), ['r1']);
+  });
+
+  it('takes another country when its own has no question of that level', () => {
+    const round = adaptUpcoming({ items, reserve: [item('r1', 'USA', 'easy')] }, 1, 'easy');
+    assert.deepEqual(ids(round.items), ['a', 'r1', 'c', 'd']);
+  });
+
+  it('never changes questions already played', () => {
+    const round = adaptUpcoming({ items, reserve: [] }, 2, 'easy');
+    assert.deepEqual(ids(round.items), ids(items));
+  });
+});
@@ -0,0 +1,61 @@
+import { Difficulty, DIFFICULTIES, itemDifficulty, RoundItem } from '@/lib/trivia';
+
+// Adaptive rounds open in the middle and move one level at a time
+export const ADAPTIVE_START: Difficulty = 'medium';
+
+// Spare questions sent with an adaptive round, as a multiple of its length
+export const RESERVE_ROUNDS = 2;
+
+// Answers in a row that move the round up or down a level
+const STREAK = 2;
+
+// Harder after a streak of right answers, easier after a streak of misses, otherwise the same level
+export function nextDifficulty(current: Difficulty, results: boolean[]): Difficulty {
+  const recent = results.slice(-STREAK);
+  const level = DIFFICULTIES.indexOf(current);
+  if (recent.length < STREAK) return current;
+  if (recent.every(Boolean)) return DIFFICULTIES[Math.min(level + 1, DIFFICULTIES.length - 1)];
+  if (!recent.some(Boolean)) return DIFFICULTIES[Math.max(level - 1, 0)];
+  return current;
+}
+
+export interface AdaptiveRound {
+  items: RoundItem[];
+  // Spare questions the round can swap in
+  reserve: RoundItem[];
+}
+
+/**
+ * Puts a question of the wanted difficulty at position index, taken from the reserve or from later
+ * in the round. One from the same country is preferred so countries keep taking turns; a question
+ * swapped out of the round goes to the reserve. The round is returned unchanged when it already
+ * fits or nothing matches.
+ */
+export function adaptUpcoming(round: AdaptiveRound, index: number, wanted: Difficulty): AdaptiveRound {
+  const { items, reserve } = round;
+  const current = items[index];
+  if (!current || itemDifficulty(current) === wanted) return round;
+
+  const fits = (item: RoundItem) => itemDifficulty(item) === wanted;
+  const sameCountry = (item: RoundItem) => fits(item) && item.country === current.country;
+  const later = items.slice(index + 1);
+
+  for (const match of [sameCountry, fits]) {
+    const spare = reserve.findIndex(match);
+    if (spare !== -1) {
+      return {
+        items: items.map((item, i) => (i === index ? reserve[spare] : item)),
+        reserve: reserve.map((item, i) => (i === spare ? current : item)),
+      };
+    }
+    const position = later.findIndex(match);
+    if (position !== -1) {
+      const swap = index + 1 + position;
+      return {
+        items: items.map((item, i) => (i === index ? items[swap] : i === swap ? current : item)),
+        reserve,
+      };
+    }
+  }
+  return round;
+}
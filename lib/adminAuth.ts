@@ -0,0 +1,29 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+// Hashing first gives equal-length buffers, so the comparison takes the same time for any guess
+function samePassword(supplied: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(supplied), digest(expected));
+}
+
+function bearerToken(req: NextApiRequest): string {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+}
+
+// Sends the error response and returns false unless the request carries the admin password.
+// Admin routes are switched off entirely while ADMIN_PASSWORD is unset.
+export function requireAdmin(req: NextApiRequest, res: NextApiResponse): boolean {
+  const expected = process.env.ADMIN_PASSWORD;
+  if (!expected) {
+    res.status(503).json({ error: 'Admin editing is disabled. Set ADMIN_PASSWORD to enable it.' });
+    return false;
+  }
+  if (!samePassword(bearerToken(req), expected)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({ error: 'Wrong admin password' });
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,41 @@
+import type { SchemaIssue } from '@/lib/trivia';
+
+export class AdminRequestError extends Error {
+  status: number;
+  issues: SchemaIssue[];
+
+  constructor(status: number, message: string, issues: SchemaIssue[] = []) {
+    super(message);
+    this.name = 'AdminRequestError';
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+async function adminFetch(path: string, password: string, init: RequestInit): Promise<Response> {
+  const response = await fetch(`/api/admin${path}`, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(init.headers as Record<string, string> | undefined),
+      Authorization: `Bearer ${password}`,
+    },
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new AdminRequestError(response.status, data.error || 'Request failed', data.issues);
+  }
+  return response;
+}
+
+// Calls an /api/admin route with the admin password, throwing the route's error message on failure
+export async function adminRequest<T>(path: string, password: string, init: RequestInit = {}): Promise<T> {
+  const response = await adminFetch(path, password, init);
+  return (await response.json()) as T;
+}
+
+// For routes that answer with a file, such as the CSV export
+export async function adminDownload(path: string, password: string): Promise<Blob> {
+  const response = await adminFetch(path, password, {});
+  return response.blob();
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { answerCandidates, isSpokenAnswerCorrect, normalizeSpokenAnswer } from '@/lib/answerMatching';
+
+const abuja = { answer: 'Abuja', distractors: ['Lagos'] };
+const choices = { options: ['Lagos', 'Abuja', 'Kano', 'Ibadan'], correctIndex: 1 };
+
+describe('normalizeSpokenAnswer', () => {
+  it('reads spoken numbers as digits', () => {
+    assert.equal(normalizeSpokenAnswer('Nineteen sixty nine'), '1969');
+    assert.equal(normalizeSpokenAnswer('two thousand and five'), '2005');
+    assert.equal(normalizeSpokenAnswer('twenty oh five'), '2005');
+  });
+
+  it('ignores case, accents, apostrophes and a leading article', () => {
+    assert.equal(normalizeSpokenAnswer("The Wendy's"), 'wendys');
+    assert.equal(normalizeSpokenAnswer('Pelé'), 'pele');
+  });
+});
+
+describe('answerCandidates', () => {
+  it('takes each side of an "X or Y" answer and the accepted answers', () => {
+    assert.deepEqual(answerCandidates({ answer: 'Coca-Cola or Pepsi', acceptedAnswers: ['Coke'] }),
+      ['coca cola or pepsi', 'coca cola', 'pepsi', 'coke']);
+  });
+});
+
+describe('isSpokenAnswerCorrect', () => {
+  it('accepts the answer on its own or with filler around it', () => {
+    assert.equal(isSpokenAnswerCorrect('Abuja', abuja), true);
+    assert.equal(isSpokenAnswerCorrect("I think it's Abuja", abuja), true);
+    assert.equal(isSpokenAnswerCorrect('creo que es Abuja', abuja, 'es'), true);
+  });
+
+  it('allows small mishearings but not for short or numeric answers', () => {
+    assert.equal(isSpokenAnswerCorrect('Fela Kuty', { answer: 'Fela Kuti' }), true);
+    assert.equal(isSpokenAnswerCorrect('nineteen sixty nine', { answer: '1969' }), true);
+    assert.equal(isSpokenAnswerCorrect('nineteen sixty eight', { answer: '1969' }), false);
+    assert.equal(isSpokenAnswerCorrect('Ado', { answer: 'Oyo' }), false);
+  });
+
+  it('does not count a list of guesses', () => {
+    assert.equal(isSpokenAnswerCorrect('lagos abuja kano ibadan', { answer: 'Abuja' }), false);
+    assert.equal(isSpokenAnswerCorrect('lagos or abuja', abuja), false);
+  });
+
+  it('does not count reading out every option in multiple choice', () => {
+    assert.equal(isSpokenAnswerCorrect('lagos abuja kano ibadan', { answer: 'Abuja', choices }), false);
+    assert.equal(isSpokenAnswerCorrect('kano or abuja', { answer: 'Abuja', choices }), false);
+    assert.equal(isSpokenAnswerCorrect('it is abuja', { answer: 'Abuja', choices }), true);
+  });
+
+  it('takes a spoken option letter in multiple choice', () => {
+    assert.equal(isSpokenAnswerCorrect('option bee', { answer: 'Abuja', choices }), true);
+    assert.equal(isSpokenAnswerCorrect('C', { answer: 'Abuja', choices }), false);
+  });
+
+  it('does not mistake a wrong answer inside the right one for a guess', () => {
+    assert.equal(isSpokenAnswerCorrect('Lagos Island', { answer: 'Lagos Island', distractors: ['Lagos'] }), true);
+  });
+});
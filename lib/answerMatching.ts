@@ -0,0 +1,177 @@
+import { CHOICE_LABELS } from '@/lib/choices';
+import { DEFAULT_LOCALE, Locale, translate } from '@/lib/i18n';
+import { foldAccents, normalizeAnswer, NUMBER_WORDS } from '@/lib/text';
+import type { QuestionChoices } from '@/lib/trivia';
+
+export interface AnswerKey {
+  answer: string;
+  acceptedAnswers?: string[];
+  // Wrong answers: naming one of these as well counts as guessing
+  distractors?: string[];
+  choices?: QuestionChoices;
+}
+
+// Share of characters that may differ and still count, e.g. "Fela Cootie" for "Fela Kuti"
+export const FUZZY_THRESHOLD = 0.8;
+// Candidates shorter than this must match exactly
+const MIN_FUZZY_LENGTH = 4;
+// Words besides the answer and filler such as "I think it's", so listing guesses doesn't count
+export const MAX_EXTRA_WORDS = 2;
+
+// How recognisers tend to spell a spoken option letter
+const LETTER_SOUNDS: Record<string, string[]> = {
+  A: ['a', 'ay', 'eh'],
+  B: ['b', 'be', 'bee'],
+  C: ['c', 'see', 'sea'],
+  D: ['d', 'dee'],
+};
+
+// Reads a run of number words: "nineteen sixty nine" -> 1969, "two thousand and five" -> 2005
+function readNumberRun(words: string[]): number {
+  const hasScale = words.some(word => word === 'hundred' || word === 'thousand');
+  if (!hasScale) {
+    // Spoken years come in pairs: "nineteen" + "sixty nine", "twenty" + "oh five"
+    const pairs: number[] = [];
+    for (let i = 0; i < words.length; i++) {
+      if (words[i] === 'and') continue;
+      const value = words[i] === 'oh' ? 0 : NUMBER_WORDS[words[i]];
+      const next = NUMBER_WORDS[words[i + 1]];
+      if (value >= 20 && value % 10 === 0 && next !== undefined && next > 0 && next < 10) {
+        pairs.push(value + next);
+        i++;
+      } else if (value === 0 && next !== undefined && next < 10 && pairs.length > 0) {
+        pairs.push(next);
+        i++;
+      } else {
+        pairs.push(value);
+      }
+    }
+    if (pairs.length === 2 && pairs[0] >= 10) return pairs[0] * 100 + pairs[1];
+    return pairs.reduce((sum, value) => sum + value, 0);
+  }
+
+  let total = 0;
+  let current = 0;
+  for (const word of words) {
+    if (word === 'and') continue;
+    if (word === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (word === 'thousand') {
+      total += (current || 1) * 1000;
+      current = 0;
+    } else {
+      current += NUMBER_WORDS[word] || 0;
+    }
+  }
+  return total + current;
+}
+
+// Replaces spoken numbers with digits so "nineteen sixty nine" compares equal to "1969"
+export function spokenNumbersToDigits(text: string): string {
+  const words = text.split(' ');
+  const result: string[] = [];
+  let run: string[] = [];
+  const isNumberWord = (word: string) =>
+    NUMBER_WORDS[word] !== undefined || word === 'hundred' || word === 'thousand';
+
+  const flush = () => {
+    if (run.length > 0) result.push(String(readNumberRun(run)));
+    run = [];
+  };
+
+  words.forEach((word, i) => {
+    const inRun = run.length > 0;
+    if (isNumberWord(word)) {
+      run.push(word);
+    } else if (inRun && (word === 'and' || word === 'oh') && isNumberWord(words[i + 1] || '')) {
+      run.push(word);
+    } else {
+      flush();
+      result.push(word);
+    }
+  });
+  flush();
+  return result.join(' ');
+}
+
+export function normalizeSpokenAnswer(text: string): string {
+  // Apostrophes are dropped rather than spaced so "Wendy's" reads as "wendys"
+  return spokenNumbersToDigits(normalizeAnswer(foldAccents(text).replace(/['\u2019]/g, '')));
+}
+
+// The answer itself, each side of an "X or Y" answer, and any authored alternates
+export function answerCandidates(key: AnswerKey): string[] {
+  const candidates = [key.answer, ...key.answer.split(/\s+or\s+/i), ...(key.acceptedAnswers || [])];
+  return Array.from(new Set(candidates.map(normalizeSpokenAnswer).filter(Boolean)));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function closeEnough(heard: string, candidate: string): boolean {
+  if (heard === candidate) return true;
+  if (candidate.length < MIN_FUZZY_LENGTH || /^\d+$/.test(candidate)) return false;
+  const longest = Math.max(heard.length, candidate.length);
+  return 1 - editDistance(heard, candidate) / longest >= FUZZY_THRESHOLD;
+}
+
+// Where the phrase names the candidate, e.g. "I think it's Lagos"; each entry is what was said around it
+function mentions(words: string[], candidate: string): string[][] {
+  const size = candidate.split(' ').length;
+  const around: string[][] = [];
+  for (let start = 0; start + size <= words.length; start++) {
+    if (closeEnough(words.slice(start, start + size).join(' '), candidate)) {
+      around.push([...words.slice(0, start), ...words.slice(start + size)]);
+    }
+  }
+  return around;
+}
+
+function wrongAnswers(key: AnswerKey): string[] {
+  const options = key.choices ? key.choices.options.filter((_, i) => i !== key.choices!.correctIndex) : [];
+  const right = answerCandidates(key);
+  return Array.from(new Set([...options, ...(key.distractors || [])].map(normalizeSpokenAnswer)))
+    .filter(wrong => wrong && !right.includes(wrong));
+}
+
+// English filler is always allowed, since English answers are accepted in every language
+function fillerWords(locale: Locale): Set<string> {
+  const lists = [translate(DEFAULT_LOCALE, 'voice.say.filler'), translate(locale, 'voice.say.filler')];
+  return new Set(lists.join(',').split(',').map(normalizeSpokenAnswer).filter(Boolean));
+}
+
+// The rest of the phrase may hold filler and a couple of other words, but no other answer
+function onlyThatAnswer(around: string[], wrong: string[], filler: Set<string>): boolean {
+  if (wrong.some(answer => mentions(around, answer).length > 0)) return false;
+  return around.filter(word => !filler.has(word)).length <= MAX_EXTRA_WORDS;
+}
+
+function spokenLetter(heard: string): number {
+  const spoken = heard.replace(/^(option|answer|letter) /, '');
+  return CHOICE_LABELS.findIndex(label => (LETTER_SOUNDS[label] || []).includes(spoken));
+}
+
+export function isSpokenAnswerCorrect(transcript: string, key: AnswerKey, locale: Locale = DEFAULT_LOCALE): boolean {
+  // Letters are checked on the raw text, since normalising drops a lone "a"
+  const letter = spokenLetter(foldAccents(transcript).toLowerCase().replace(/[^a-z ]/g, '').trim());
+  if (key.choices && letter !== -1) return letter === key.choices.correctIndex;
+
+  const heard = normalizeSpokenAnswer(transcript);
+  if (!heard) return false;
+  const words = heard.split(' ');
+  const wrong = wrongAnswers(key);
+  const filler = fillerWords(locale);
+  return answerCandidates(key).some(candidate =>
+    mentions(words, candidate).some(around => onlyThatAnswer(around, wrong, filler))
+  );
+}
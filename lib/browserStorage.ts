@@ -0,0 +1,29 @@
+// localStorage access that tolerates server rendering and browsers that block storage
+
+export function browserStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// A stored JSON object merged over defaults, so settings added later get their default
+export function readStoredObject<T extends object>(key: string, defaults: T): T {
+  const raw = browserStorage()?.getItem(key);
+  if (!raw) return defaults;
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === 'object' && parsed !== null ? { ...defaults, ...parsed } : defaults;
+  } catch (error) {
+    return defaults;
+  }
+}
+
+export function writeStoredObject(key: string, value: object): void {
+  try {
+    browserStorage()?.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Storage full or blocked; the setting lasts for this visit only
+  }
+}
@@ -0,0 +1,138 @@
+import { CATEGORIES, periodYears, YearRange, yearsOverlap } from '@/lib/trivia';
+
+export const ANY_PERIOD = 'Any Time';
+
+// The smallest round the home page offers; combinations below this are flagged.
+export const MIN_ROUND_QUESTIONS = 5;
+
+// Ages whose events people remember best, used for the "my youth" preset
+export const YOUTH_AGES = { from: 10, to: 25 };
+
+// Questions sharing a period, span of years, category and difficulty; null when they have none
+export interface CatalogGroup {
+  period: string;
+  fromYear: number | null;
+  toYear: number | null;
+  category: string | null;
+  difficulty: string | null;
+  count: number;
+}
+
+export interface CatalogCountry {
+  name: string;
+  total: number;
+  periods: Record<string, number>;
+  // For counting any range of years, such as a decade, or a choice of topics or difficulty
+  groups: CatalogGroup[];
+}
+
+export interface Catalog {
+  countries: CatalogCountry[];
+  periods: string[];
+  // Categories with at least one question, in the order of CATEGORIES
+  categories: string[];
+  total: number;
+  minQuestions: number;
+}
+
+// Narrows counts the way the matching /api/trivia parameters narrow a round
+export interface SelectionFilter {
+  // Only questions in these categories
+  topics?: string[];
+  // Questions without a difficulty count as medium
+  difficulty?: string;
+}
+
+// A count of questions for a country, period, span of years, category and difficulty
+interface CatalogSource extends CatalogGroup {
+  country: string;
+}
+
+export function buildCatalog(sources: CatalogSource[]): Catalog {
+  const countries = new Map<string, CatalogCountry>();
+  const periods = new Set<string>();
+  const categories = new Set<string>();
+  let total = 0;
+
+  for (const { country, ...group } of sources) {
+    let entry = countries.get(country);
+    if (!entry) {
+      entry = { name: country, total: 0, periods: {}, groups: [] };
+      countries.set(country, entry);
+    }
+    entry.total += group.count;
+    entry.periods[group.period] = (entry.periods[group.period] || 0) + group.count;
+    entry.groups.push(group);
+    periods.add(group.period);
+    if (group.category) categories.add(group.category);
+    total += group.count;
+  }
+
+  return {
+    countries: Array.from(countries.values()),
+    periods: Array.from(periods).sort(),
+    categories: CATEGORIES.filter(category => categories.has(category)),
+    total,
+    minQuestions: MIN_ROUND_QUESTIONS,
+  };
+}
+
+// Home-page period choices are a catalog period, ANY_PERIOD, or a span of years written
+// the same way ("1960-1969"). Returns the span for the last kind, otherwise null.
+export function choiceYears(catalog: Catalog, choice: string): YearRange | null {
+  return catalog.periods.includes(choice) ? null : periodYears(choice);
+}
+
+export function yearsChoice({ fromYear, toYear }: YearRange): string {
+  return `${fromYear}-${toYear}`;
+}
+
+// Every decade with at least one question
+export function catalogDecades(catalog: Catalog): YearRange[] {
+  const decades = new Set<number>();
+  for (const country of catalog.countries) {
+    for (const { fromYear, toYear } of country.groups) {
+      if (fromYear === null || toYear === null) continue;
+      for (let decade = Math.floor(fromYear / 10) * 10; decade <= toYear; decade += 10) {
+        decades.add(decade);
+      }
+    }
+  }
+  return Array.from(decades).sort().map(decade => ({ fromYear: decade, toYear: decade + 9 }));
+}
+
+export function youthYears(birthYear: number): YearRange {
+  return { fromYear: birthYear + YOUTH_AGES.from, toYear: birthYear + YOUTH_AGES.to };
+}
+
+// Question count per selected country for a period choice ("Any Time" counts every period).
+export function countsForSelection(
+  catalog: Catalog,
+  countries: string[],
+  period: string,
+  { topics, difficulty }: SelectionFilter = {}
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const years = choiceYears(catalog, period);
+  const inPeriod = (group: CatalogGroup) => {
+    if (period === ANY_PERIOD) return true;
+    if (!years) return group.period === period;
+    const { fromYear, toYear } = group;
+    return fromYear !== null && toYear !== null && yearsOverlap({ fromYear, toYear }, years);
+  };
+  for (const name of countries) {
+    const entry = catalog.countries.find(c => c.name === name);
+    counts[name] = entry
+      ? entry.groups
+        .filter(group => inPeriod(group) &&
+          (!topics || (!!group.category && topics.includes(group.category))) &&
+          (!difficulty || (group.difficulty || 'medium') === difficulty))
+        .reduce((sum, group) => sum + group.count, 0)
+      : 0;
+  }
+  return counts;
+}
+
+export function totalForSelection(catalog: Catalog, countries: string[], period: string, filter?: SelectionFilter): number {
+  return Object.values(countsForSelection(catalog, countries, period, filter)).reduce((sum, n) => sum + n, 0);
+}
@@ -0,0 +1,57 @@
+import { Rng, shuffle } from '@/lib/random';
+import { normalizeAnswer } from '@/lib/text';
+import type { QuestionChoices, TriviaItem } from '@/lib/trivia';
+
+export const CHOICE_LABELS = ['A', 'B', 'C', 'D'];
+
+// Fewer options than this and the question is played as open-answer instead
+const MIN_OPTIONS = 3;
+
+const YEAR_PATTERN = /^\d{4}$/;
+
+// Nearby years make believable wrong options for "What year..." questions
+function nearbyYears(answer: string, rng: Rng): string[] {
+  const year = parseInt(answer, 10);
+  const offsets = shuffle([-5, -3, -2, -1, 1, 2, 3, 5], rng);
+  return offsets.map(offset => String(year + offset));
+}
+
+export function buildChoices(
+  item: TriviaItem,
+  bank: TriviaItem[],
+  rng: Rng = Math.random,
+  size: number = CHOICE_LABELS.length
+): QuestionChoices | null {
+  const taken = new Set([normalizeAnswer(item.answer)]);
+  const distractors: string[] = [];
+
+  const add = (candidate: string) => {
+    const key = normalizeAnswer(candidate);
+    if (distractors.length < size - 1 && key && !taken.has(key)) {
+      taken.add(key);
+      distractors.push(candidate);
+    }
+  };
+
+  shuffle(item.distractors || [], rng).forEach(add);
+
+  const isYear = YEAR_PATTERN.test(item.answer.trim());
+  if (isYear) {
+    nearbyYears(item.answer.trim(), rng).forEach(add);
+  } else {
+    const related = bank.filter(other =>
+      other !== item &&
+      other.country === item.country &&
+      other.period === item.period &&
+      !YEAR_PATTERN.test(other.answer.trim())
+    );
+    shuffle(related, rng).forEach(other => add(other.answer));
+  }
+
+  if (distractors.length + 1 < MIN_OPTIONS) {
+    return null;
+  }
+
+  const options = shuffle([item.answer, ...distractors], rng);
+  return { options, correctIndex: options.indexOf(item.answer) };
+}
@@ -0,0 +1,44 @@
+import { readStore, updateStore } from '@/lib/store';
+
+const STORE_NAME = 'history';
+
+// Oldest entries are dropped beyond this so a long-running profile stays small
+export const MAX_HISTORY_ENTRIES = 5000;
+
+// Question id -> time it was last shown, per profile
+export type ProfileHistory = Record<string, number>;
+type HistoryDocument = Record<string, ProfileHistory>;
+
+export function normalizeProfile(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const profile = raw.trim().toLowerCase().slice(0, 80);
+  return profile || null;
+}
+
+export async function getHistory(profile: string): Promise<ProfileHistory> {
+  const document = await readStore<HistoryDocument>(STORE_NAME, {});
+  return document[profile] || {};
+}
+
+export async function recordShown(profile: string, ids: string[], shownAt: number = Date.now()): Promise<ProfileHistory> {
+  const document = await updateStore<HistoryDocument>(STORE_NAME, {}, data => {
+    const history = { ...data[profile] };
+    ids.forEach(id => {
+      history[id] = shownAt;
+    });
+    const keysByAge = Object.keys(history).sort((a, b) => history[a] - history[b]);
+    keysByAge.slice(0, Math.max(0, keysByAge.length - MAX_HISTORY_ENTRIES)).forEach(key => {
+      delete history[key];
+    });
+    return { ...data, [profile]: history };
+  });
+  return document[profile];
+}
+
+export async function resetHistory(profile: string): Promise<void> {
+  await updateStore<HistoryDocument>(STORE_NAME, {}, data => {
+    const rest = { ...data };
+    delete rest[profile];
+    return rest;
+  });
+}
@@ -0,0 +1,38 @@
+import en, { MessageKey, Messages } from '@/lib/messages/en';
+import es from '@/lib/messages/es';
+import hi from '@/lib/messages/hi';
+import yo from '@/lib/messages/yo';
+
+export type Locale = 'en' | 'es' | 'yo' | 'hi';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALES: Record<Locale, { name: string; speechLang: string }> = {
+  en: { name: 'English', speechLang: 'en-US' },
+  es: { name: 'Español', speechLang: 'es-ES' },
+  yo: { name: 'Yorùbá', speechLang: 'yo-NG' },
+  hi: { name: 'हिन्दी', speechLang: 'hi-IN' },
+};
+
+const MESSAGES: Record<Locale, Partial<Messages>> = { en, es, yo, hi };
+
+export type TranslateParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+}
+
+// The first supported language in a browser's preference list, e.g. ["es-MX", "en"] -> "es"
+export function matchLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const primary = language.split('-')[0].toLowerCase();
+    if (isLocale(primary)) return primary;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function translate(locale: Locale, key: MessageKey, params: TranslateParams = {}): string {
+  const template = MESSAGES[locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
@@ -0,0 +1,366 @@
+// English UI strings. Other locales may leave keys out; missing ones fall back to these.
+// `{name}` placeholders are filled in by translate().
+
+const en = {
+  'app.title': 'World Trivia TV',
+  'common.on': 'ON',
+  'common.off': 'OFF',
+  'common.seconds': '{count} seconds',
+  'common.questions': '{count} questions',
+  'common.and': 'and',
+
+  'language.heading': 'Language',
+  'language.selected': 'Language set to English',
+
+  'display.label': 'Display settings',
+  'display.normal': '☀️ Normal',
+  'display.highContrast': '🌙 High Contrast',
+  'display.highContrastAria': 'Toggle high contrast mode. Currently {state}',
+  'display.textAria': 'Change text size. Currently {size}',
+  'display.motionOn': '🎞️ Motion On',
+  'display.motionOff': '🎞️ Motion Off',
+  'display.motionAria': 'Toggle animations. Currently {state}',
+  'display.dyslexiaFont': '🔤 Dyslexia Font',
+  'display.standardFont': '🔤 Standard Font',
+  'display.dyslexiaAria': 'Toggle dyslexia-friendly font. Currently {state}',
+  'display.colorBlind': '🎨 Colour-blind Colours',
+  'display.standardColors': '🎨 Standard Colours',
+  'display.colorBlindAria': 'Toggle colour-blind-safe colours. Currently {state}',
+  'display.stateOn': 'on',
+  'display.stateOff': 'off',
+  'textScale.normal': 'Normal Text',
+  'textScale.large': 'Large Text',
+  'textScale.extra-large': 'Extra Large Text',
+
+  'home.pageTitle': 'World Trivia TV - Home',
+  'home.subtitle': 'Choose your preferences to begin',
+  'home.welcome': 'Welcome to World Trivia TV. Choose 2 countries, a time period, and how many questions you want to answer, then press Start.',
+  'home.instructions': 'Welcome to World Trivia TV. Choose 2 countries from the list. Then choose a time period. Select how many questions you want, from 5 to 15. Finally, press the Start Trivia button.',
+  'home.repeatInstructions': '🔊 Repeat Instructions',
+  'home.narration': '⚙️ Narration',
+  'home.narrationAria': 'Show or hide narration settings',
+  'home.loadCatalogError': 'Could not load the list of countries. Please check your connection and reload the page.',
+
+  'countries.heading': 'Choose 2 Countries ({count}/2)',
+  'countries.loading': 'Loading countries...',
+  'countries.selectAria': 'Select {country}, {count} questions',
+  'countries.selected': 'Selected: {countries}',
+  'countries.limit': 'You can only select 2 countries. Please deselect one first.',
+
+  'period.heading': 'Choose Time Period',
+  'period.any': 'Any Time',
+  'period.none': 'No questions',
+  'period.missing': '⚠️ {count} — none for {countries}',
+  'period.short': '⚠️ Only {count} questions',
+  'period.selectAria': 'Select {period}',
+  'period.onlyAvailable': '{period}. Only {count} questions are available.',
+  'period.decades': 'Or choose a decade',
+  'period.decade': '{decade}s',
+  'period.range': '{from} to {to}',
+  'period.youthHeading': 'Or the years of your youth',
+  'period.birthYear': 'Birth year',
+  'period.birthYearAria': 'Birth year for the my youth preset',
+  'period.youth': '🎂 My Youth',
+  'period.youthAria': 'Choose the years when someone born in the entered year was {from} to {to}',
+  'period.needBirthYear': 'Please enter a birth year, such as 1950',
+  'topic.heading': 'Choose Topics',
+  'topic.hint': 'Tap a topic to leave it out, or choose No Topics and pick the ones you want',
+  'topic.all': '✅ All Topics',
+  'topic.none': '⬜ No Topics',
+  'topic.allSpoken': 'All topics included',
+  'topic.noneSpoken': 'All topics left out. Choose the ones you want.',
+  'topic.included': '{topic} included',
+  'topic.excluded': '{topic} left out',
+  'topic.selectAria': 'Include {topic}',
+  'topic.music': 'Music',
+  'topic.film-tv': 'Film and TV',
+  'topic.sports': 'Sports',
+  'topic.toys-games': 'Toys and Games',
+  'topic.science-tech': 'Science and Technology',
+  'topic.food': 'Food and Drink',
+  'topic.culture': 'Culture',
+  'topic.daily-life': 'Daily Life',
+  'topic.places': 'Places',
+  'topic.history': 'History',
+  'topic.politics': 'Politics',
+  'difficulty.heading': 'Choose Difficulty',
+  'difficulty.any': 'Any Difficulty',
+  'difficulty.easy': 'Easy',
+  'difficulty.medium': 'Medium',
+  'difficulty.hard': 'Hard',
+  'difficulty.anyDescription': 'A mix of easy, medium and hard questions',
+  'difficulty.adaptive': '🎯 Adaptive',
+  'difficulty.adaptiveDescription': 'Gets harder while you answer well and easier after misses',
+  'difficulty.needsTracking': '⚠️ Add teams or turn on 🗣️ Answer aloud so it can follow how you are doing',
+  'difficulty.selectAria': 'Select {difficulty}',
+
+  'count.heading': 'How Many Questions? (5–15)',
+  'count.decrease': 'Decrease question count',
+  'count.increase': 'Increase question count',
+  'count.selectAria': 'Select {count} questions',
+  'count.shortRound': '⚠️ Only {count} questions are available for this choice, so the round will be shorter.',
+  'count.tryAnother': ' Try another time period for a full round.',
+
+  'mode.heading': 'Question Style',
+  'mode.open': '💬 Open Answer',
+  'mode.openDescription': 'Think of the answer before it is revealed',
+  'mode.openSpoken': 'Open answer',
+  'mode.choice': '🔤 Multiple Choice',
+  'mode.choiceDescription': 'Pick from options A, B, C or D',
+  'mode.choiceSpoken': 'Multiple choice',
+  'mode.answerAloud': '🗣️ Answer aloud: {state}',
+  'mode.answerAloudAria': 'Answer aloud. Say your answer into the microphone and hear whether it was right',
+  'mode.answerAloudOn': 'Answer aloud on. Say your answer before the time runs out and I will tell you if you are right.',
+  'mode.answerAloudOff': 'Answer aloud off',
+
+  'pace.heading': 'Pace',
+  'pace.relaxed': 'Relaxed',
+  'pace.standard': 'Standard',
+  'pace.quick': 'Quick',
+  'pace.custom': 'Custom',
+  'pace.presetAria': '{label} pace, {question} seconds per question and {answer} seconds per answer',
+  'pace.presetSpoken': '{label} pace. {question} seconds to think, {answer} seconds for the answer.',
+  'pace.customSpoken': 'Custom pace. Use the plus and minus buttons to set the times.',
+  'pace.thinkingTime': 'Thinking time',
+  'pace.answerTime': 'Answer time',
+  'pace.decrease': 'Decrease {label}',
+  'pace.increase': 'Increase {label}',
+  'pace.host': '🎙️ Host Mode: {state}',
+  'pace.hostDescription': 'No timer — you reveal each answer',
+  'pace.hostAria': 'Host mode: no timer, the host reveals each answer',
+  'pace.hostOn': 'Host mode on. There is no timer. You reveal each answer and move to the next question.',
+  'pace.hostOff': 'Host mode off. Questions move on automatically.',
+  'pace.waitForSpeech': '🔊 Wait for narration: {state}',
+  'pace.waitForSpeechAria': 'Wait for the question to be read aloud before starting the timer',
+  'pace.waitOn': 'The timer will wait until the question has been read',
+  'pace.waitOff': 'The timer starts straight away',
+
+  'teams.heading': 'Teams (optional)',
+  'teams.placeholder': 'Team name',
+  'teams.inputAria': 'New team name',
+  'teams.add': '➕ Add Team',
+  'teams.addAria': 'Add team',
+  'teams.list': 'Teams',
+  'teams.removeAria': 'Remove team {team}',
+  'teams.hint': "Add teams to keep score. You'll mark who got each answer right.",
+  'teams.limit': 'You can have up to {count} teams',
+  'teams.needName': 'Please type a new team name',
+  'teams.added': 'Team {team} added',
+  'teams.removed': 'Team {team} removed',
+
+  'history.heading': "Who's Playing?",
+  'history.groupName': 'Group name (optional)',
+  'history.groupPlaceholder': 'This device',
+  'history.reset': '🗑️ Reset History',
+  'history.resetAria': 'Reset play history',
+  'history.played': '{count} questions played',
+  'history.hint': 'Questions you have already seen are saved for last, so rounds stay fresh.',
+  'history.confirmGroup': 'Forget every question played by the group {group}? Questions may repeat sooner.',
+  'history.confirmDevice': 'Forget every question played on this device? Questions may repeat sooner.',
+  'history.resetDone': 'Play history has been reset',
+  'history.resetFailed': 'Could not reset play history',
+
+  'saved.heading': '⭐ Saved Rounds',
+  'saved.hint': 'Start a saved round in one tap. Playlists play with the question style, pacing and teams chosen below.',
+  'saved.presetSummary': '{countries} · {period} · {count} questions',
+  'saved.playlistSummary': '🎵 {count} questions in a set order',
+  'saved.startAria': 'Start {name}, {summary}',
+  'saved.startSpoken': 'Starting {name}',
+  'saved.copyLink': '🔗 Link',
+  'saved.copyLinkAria': 'Copy a link to {name}',
+  'saved.copyPrompt': 'Copy this link to share the round',
+  'saved.linkCopied': 'Link copied',
+  'saved.delete': '🗑️',
+  'saved.deleteAria': 'Delete the preset {name}',
+  'saved.confirmDelete': 'Delete the preset "{name}"? It is removed for everyone using this server.',
+  'saved.deleteFailed': 'Could not delete the preset',
+  'saved.nameLabel': 'Preset name',
+  'saved.save': '💾 Save as Preset',
+  'saved.saveAria': 'Save these choices as a preset',
+  'saved.saved': 'Saved {name}',
+  'saved.saveFailed': 'Could not save the preset',
+  'saved.resume': '⏯️ Resume where you left off',
+  'saved.resumeAria': 'Resume the unfinished round at question {current} of {total}',
+
+  'start.button': '▶️ Start Trivia',
+  'start.aria': 'Start trivia',
+  'start.noQuestions': 'There are no questions for this combination yet. Please choose another.',
+  'start.needSelection': 'Please select 2 countries and a time period',
+  'start.needSelectionSpoken': 'Please select 2 countries and a time period first',
+  'start.spoken': 'Starting trivia with {count} questions from {first} and {second}',
+
+  'voice.on': '🎤 Voice ON',
+  'voice.off': '🎤 Voice OFF',
+  'voice.toggleAria': 'Toggle voice commands. Currently {state}',
+  'voice.listening': 'Listening...',
+  'voice.startingMic': 'Starting microphone',
+  'voice.heard': 'Heard: "{text}"',
+  'voice.sayHelp': 'Say "Help" to hear the commands',
+  'voice.try': 'Try: {commands}',
+  'voice.lastCommand': 'Last command: "{text}"',
+  'voice.active': 'Voice commands active. Say help to hear what you can say.',
+  'voice.offSpoken': 'Voice commands off',
+  'voice.help': 'You can say: {commands}',
+  'voice.notUnderstood': "Sorry, I didn't catch that. Say help to hear the commands.",
+  'voice.unsupported': 'Voice commands are not supported on this device',
+  'voice.unsupportedAlert': 'Voice commands are not supported on this browser. Try Chrome or Edge.',
+  'voice.micDenied': 'Microphone access denied. Please allow microphone access in your browser settings.',
+  'voice.startFailed': 'Could not start voice commands',
+  'voice.selectedTwo': 'Selected {first} and {second}',
+  'voice.selectedOne': 'Selected {country}. Choose one more country.',
+
+  // Phrases each voice command answers to, comma-separated. Matched as whole words after
+  // lowercasing and dropping punctuation, so "what's" is heard as "what s".
+  'voice.say.stopListening': 'stop listening, voice off, stop voice',
+  'voice.say.cancel': 'stop, cancel',
+  'voice.say.start': "start, begin, go, let's play, play",
+  'voice.say.help': 'help, what can i say',
+  'voice.say.anyTime': 'any time, anytime, any period, all time, any year',
+  'voice.say.questions': 'questions, question',
+  'voice.say.exit': 'exit, quit, main menu, menu',
+  'voice.say.resume': 'resume, continue, keep going, unpause, play',
+  'voice.say.pause': 'pause, wait, hold on, stop',
+  'voice.say.repeat': 'repeat, again, say that again, what was that',
+  'voice.say.reveal': "show answer, show the answer, reveal, what is the answer, what's the answer, tell us",
+  'voice.say.previous': 'previous, go back, last question, back',
+  'voice.say.next': 'next, skip, move on',
+
+  // Words that may come with a spoken answer without counting as another guess, comma-separated
+  'voice.say.filler': 'i, think, it, its, is, was, im, pretty, sure, maybe, probably, perhaps, guess, say, would, we, our, my, answer, final, um, uh, er, erm, hmm, oh, well, ok, okay, that, thats, the, a, an, of, course, definitely, must, be, yes, so, called',
+
+  // Examples listed by voice help, on screen and read aloud
+  'voice.example.choose': '"Choose Nigeria and USA"',
+  'voice.example.period': '"Nineteen sixties" or "Any time"',
+  'voice.example.count': '"Twelve questions"',
+  'voice.example.start': '"Start"',
+  'voice.example.help': '"Help"',
+  'voice.example.stopListening': '"Stop listening"',
+  'voice.example.pause': '"Pause" / "Resume"',
+  'voice.example.repeat': '"Repeat"',
+  'voice.example.reveal': '"Show answer"',
+  'voice.example.next': '"Next" / "Previous"',
+  'voice.example.exit': '"Exit"',
+
+  'play.pageTitle': 'World Trivia TV - Playing',
+  'play.loading': 'Loading your trivia...',
+  'play.errorTitle': 'World Trivia TV - Error',
+  'play.noTrivia': 'No trivia found for this selection. Please go back and try another combination.',
+  'play.playlistMissing': 'This playlist no longer exists. Please go back and choose another round.',
+  'play.resumeTitle': 'Resume where you left off?',
+  'play.resumeOffer': 'You have an unfinished round, stopped at question {current} of {total}. Resume where you left off, or start over?',
+  'play.resumeRound': '▶️ Resume',
+  'play.startOver': '🔄 Start Over',
+  'play.resumed': 'Resuming at question {current} of {total}.',
+  'play.loadFailed': 'Failed to load trivia. Please check your connection and try again.',
+  'play.loadFailedSpoken': 'Failed to load trivia. Please go back to the menu and try again.',
+  'play.starting': 'Starting trivia with {count} questions. Get ready for your first question.',
+  'play.finished': 'Trivia has finished. You can replay from the beginning or go back to the menu.',
+  'play.lastQuestion': 'That was the last question. Trivia has finished.',
+  'play.resuming': 'Resuming trivia',
+  'play.paused': 'Paused',
+  'play.goingBack': 'Going back to the previous question',
+  'play.movingOn': 'Moving to next question',
+  'play.restarting': 'Restarting trivia from the beginning',
+  'play.answerIs': 'The answer is: {answer}',
+  'play.picture': 'Picture: {description}',
+  'play.soundClip': 'Sound clip: {description}',
+  'play.exit': '⬅️ Exit Round',
+  'play.exitAria': 'Exit round',
+  'play.exitConfirm': 'Exit this round? Your progress will be lost.',
+  'play.exitAnyway': '⬅️ Exit Round',
+  'play.keepPlaying': '▶️ Keep Playing',
+  'play.keepPlayingSpoken': 'Carrying on with the round',
+  'play.mute': 'Mute narration',
+  'play.unmute': 'Unmute narration',
+  'play.narrationSettings': 'Narration settings',
+  'play.previous': '⏮️ Previous',
+  'play.resume': '▶️ Resume',
+  'play.pause': '⏸️ Pause',
+  'play.repeat': '🔊 Repeat',
+  'play.reveal': '👁️ Reveal Answer',
+  'play.next': '⏭️ Next',
+  'play.progress': 'Question {current} of {total}',
+  'play.difficulty': 'Difficulty: {difficulty}',
+  'play.scoreboard': 'Scoreboard',
+  'play.timerHeld': '🔊 Timer starts after the question is read',
+  'play.secondsLabel': 'seconds',
+  'play.options': 'Options',
+  'play.correctOption': 'Correct answer',
+  'play.whoGotIt': 'Who got it right?',
+  'play.gotItAria': '{team} got it right',
+  'play.pointFor': 'Point for {team}',
+  'play.pointRemoved': 'Point removed from {team}',
+  'play.nextIn': '⏭️ Next question in {count} seconds...',
+  'play.pausedTitle': '⏸️ Paused',
+  'play.pausedHint': 'Press Resume to continue',
+  'play.shortcuts': '⌨️ Space pause · R repeat · → {advance} · Esc exit · ↑↓←→ move between buttons',
+  'play.shortcutNext': 'next',
+  'play.shortcutReveal': 'reveal / next',
+  'play.sayAnswer': '🗣️ Say your answer now',
+  'play.waitToAnswer': '🗣️ Answer when the question has been read',
+  'play.correct': 'Correct!',
+  'play.notQuite': 'Not quite.',
+  'play.spokenCorrect': '🎉 Correct!',
+  'play.spokenWrong': '❌ Not quite',
+  'play.youSaid': '— you said "{text}"',
+  'play.remoteConnected': '📱 Remote connected · code {code}',
+  'play.remoteConnectedSpoken': 'Remote control connected',
+  'play.remotePair': '📱 Use a phone as a remote: open {url} and enter code',
+  'play.hostPaired': "🤫 The host's phone has the answer hint",
+  'play.hostWaiting': '🤫 Host: take the host role on your phone remote to see answers early',
+  'play.releaseHost': 'Let another phone host',
+
+  'end.finishedTitle': 'World Trivia TV - Finished',
+  'end.complete': 'Trivia Complete!',
+  'end.summary': "You've finished all {count} questions for {countries}.",
+  'end.spokenScore': '🗣️ {correct} of {total} correct',
+  'end.spokenScoreSpoken': 'You answered {correct} of {total} correctly.',
+  'end.standingsTitle': 'World Trivia TV - Final Standings',
+  'end.standings': 'Final Standings',
+  'end.outOf': 'Out of {count} questions for {countries}.',
+  'end.spokenTally': ' Answered aloud correctly: {count}.',
+  'end.tie': "Final standings. It's a tie at the top with {points}!",
+  'end.winner': 'Final standings. {team} wins with {points}!',
+  'end.points': '{count} points',
+  'end.onePoint': '1 point',
+  'end.replay': '🔄 Replay',
+  'end.backToMenu': '⬅️ Back to Menu',
+
+  'narration.label': 'Narration settings',
+  'narration.language': 'Language',
+  'narration.voice': 'Voice',
+  'narration.defaultVoice': 'Browser default',
+  'narration.speed': 'Speed',
+  'narration.pitch': 'Pitch',
+  'narration.volume': 'Volume',
+  'narration.test': '▶️ Test Voice',
+  'narration.sample': 'Welcome to World Trivia TV. This is how questions will sound.',
+  'narration.muted': '🔇 Narration Muted',
+  'narration.unmuted': '🔊 Narration On',
+  'narration.onSpoken': 'Narration on',
+  'narration.reset': '↩️ Reset',
+
+  'remote.pageTitle': 'World Trivia TV - Remote',
+  'remote.title': '📱 Trivia Remote',
+  'remote.enterCode': 'Enter the code shown on the TV',
+  'remote.codeAria': 'Room code',
+  'remote.connect': 'Connect',
+  'remote.connected': '● Connected to TV {code}',
+  'remote.waiting': '○ Waiting for TV {code}...',
+  'remote.claimHost': "🤫 I'm the host",
+  'remote.hostTaken': 'Another phone is already the host. The TV can free the role.',
+  'remote.showHint': '🤫 Show answer hint',
+  'remote.hideHintAria': 'Hide answer hint',
+  'remote.showHintAria': 'Show answer hint',
+  'remote.roundFinished': '🎉 The round has finished',
+  'remote.reveal': '👁️ Reveal',
+  'remote.disconnect': 'Disconnect',
+  'remote.connectFailed': 'Could not connect to the TV',
+  'remote.commandRejected': 'The TV did not accept that command',
+  'remote.unreachable': 'Could not reach the TV. Check your connection.',
+};
+
+export type Messages = typeof en;
+export type MessageKey = keyof Messages;
+
+export default en;
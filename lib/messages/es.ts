@@ -0,0 +1,356 @@
+import type { Messages } from '@/lib/messages/en';
+
+const es: Partial<Messages> = {
+  'common.on': 'SÍ',
+  'common.off': 'NO',
+  'common.seconds': '{count} segundos',
+  'common.questions': '{count} preguntas',
+  'common.and': 'y',
+
+  'language.heading': 'Idioma',
+  'language.selected': 'Idioma cambiado a español',
+
+  'display.label': 'Opciones de pantalla',
+  'display.normal': '☀️ Normal',
+  'display.highContrast': '🌙 Alto contraste',
+  'display.highContrastAria': 'Activar o desactivar alto contraste. Ahora: {state}',
+  'display.textAria': 'Cambiar tamaño del texto. Ahora: {size}',
+  'display.motionOn': '🎞️ Animación activada',
+  'display.motionOff': '🎞️ Animación reducida',
+  'display.motionAria': 'Activar o desactivar animaciones. Ahora: {state}',
+  'display.dyslexiaFont': '🔤 Letra para dislexia',
+  'display.standardFont': '🔤 Letra estándar',
+  'display.dyslexiaAria': 'Activar o desactivar letra para dislexia. Ahora: {state}',
+  'display.colorBlind': '🎨 Colores para daltonismo',
+  'display.standardColors': '🎨 Colores estándar',
+  'display.colorBlindAria': 'Activar o desactivar colores para daltonismo. Ahora: {state}',
+  'display.stateOn': 'activado',
+  'display.stateOff': 'desactivado',
+  'textScale.normal': 'Texto normal',
+  'textScale.large': 'Texto grande',
+  'textScale.extra-large': 'Texto muy grande',
+
+  'home.pageTitle': 'World Trivia TV - Inicio',
+  'home.subtitle': 'Elige tus opciones para empezar',
+  'home.welcome': 'Bienvenidos a World Trivia TV. Elige 2 países, una época y cuántas preguntas quieres responder, y luego pulsa Empezar.',
+  'home.instructions': 'Bienvenidos a World Trivia TV. Elige 2 países de la lista. Después elige una época. Selecciona cuántas preguntas quieres, de 5 a 15. Por último, pulsa el botón Empezar trivia.',
+  'home.repeatInstructions': '🔊 Repetir instrucciones',
+  'home.narration': '⚙️ Narración',
+  'home.narrationAria': 'Mostrar u ocultar las opciones de narración',
+  'home.loadCatalogError': 'No se pudo cargar la lista de países. Revisa tu conexión y recarga la página.',
+
+  'countries.heading': 'Elige 2 países ({count}/2)',
+  'countries.loading': 'Cargando países...',
+  'countries.selectAria': 'Seleccionar {country}, {count} preguntas',
+  'countries.selected': 'Seleccionados: {countries}',
+  'countries.limit': 'Solo puedes elegir 2 países. Quita uno primero.',
+
+  'period.heading': 'Elige la época',
+  'period.any': 'Cualquier época',
+  'period.none': 'Sin preguntas',
+  'period.missing': '⚠️ {count} — ninguna de {countries}',
+  'period.short': '⚠️ Solo {count} preguntas',
+  'period.selectAria': 'Seleccionar {period}',
+  'period.onlyAvailable': '{period}. Solo hay {count} preguntas disponibles.',
+  'period.decades': 'O elige una década',
+  'period.decade': 'Años {decade}',
+  'period.range': 'De {from} a {to}',
+  'period.youthHeading': 'O los años de tu juventud',
+  'period.birthYear': 'Año de nacimiento',
+  'period.birthYearAria': 'Año de nacimiento para la opción mi juventud',
+  'period.youth': '🎂 Mi juventud',
+  'period.youthAria': 'Elegir los años en que alguien nacido en el año indicado tenía de {from} a {to} años',
+  'period.needBirthYear': 'Escribe un año de nacimiento, por ejemplo 1950',
+  'topic.heading': 'Elige los temas',
+  'topic.hint': 'Toca un tema para dejarlo fuera, o elige Ningún tema y marca los que quieras',
+  'topic.all': '✅ Todos los temas',
+  'topic.none': '⬜ Ningún tema',
+  'topic.allSpoken': 'Todos los temas incluidos',
+  'topic.noneSpoken': 'Todos los temas quedan fuera. Elige los que quieras.',
+  'topic.included': '{topic} incluido',
+  'topic.excluded': '{topic} queda fuera',
+  'topic.selectAria': 'Incluir {topic}',
+  'topic.music': 'Música',
+  'topic.film-tv': 'Cine y televisión',
+  'topic.sports': 'Deportes',
+  'topic.toys-games': 'Juguetes y juegos',
+  'topic.science-tech': 'Ciencia y tecnología',
+  'topic.food': 'Comida y bebida',
+  'topic.culture': 'Cultura',
+  'topic.daily-life': 'Vida cotidiana',
+  'topic.places': 'Lugares',
+  'topic.history': 'Historia',
+  'topic.politics': 'Política',
+  'difficulty.heading': 'Elige la dificultad',
+  'difficulty.any': 'Cualquier dificultad',
+  'difficulty.easy': 'Fácil',
+  'difficulty.medium': 'Media',
+  'difficulty.hard': 'Difícil',
+  'difficulty.anyDescription': 'Una mezcla de preguntas fáciles, medias y difíciles',
+  'difficulty.adaptive': '🎯 Adaptable',
+  'difficulty.adaptiveDescription': 'Se vuelve más difícil cuando aciertan y más fácil cuando fallan',
+  'difficulty.needsTracking': '⚠️ Añade equipos o activa 🗣️ Responder en voz alta para que siga cómo van',
+  'difficulty.selectAria': 'Elegir {difficulty}',
+
+  'count.heading': '¿Cuántas preguntas? (5–15)',
+  'count.decrease': 'Menos preguntas',
+  'count.increase': 'Más preguntas',
+  'count.selectAria': 'Elegir {count} preguntas',
+  'count.shortRound': '⚠️ Solo hay {count} preguntas para esta elección, así que la ronda será más corta.',
+  'count.tryAnother': ' Prueba otra época para una ronda completa.',
+
+  'mode.heading': 'Tipo de pregunta',
+  'mode.open': '💬 Respuesta libre',
+  'mode.openDescription': 'Piensa la respuesta antes de que se muestre',
+  'mode.openSpoken': 'Respuesta libre',
+  'mode.choice': '🔤 Opción múltiple',
+  'mode.choiceDescription': 'Elige entre las opciones A, B, C o D',
+  'mode.choiceSpoken': 'Opción múltiple',
+  'mode.answerAloud': '🗣️ Responder en voz alta: {state}',
+  'mode.answerAloudAria': 'Responder en voz alta. Di tu respuesta al micrófono y escucha si acertaste',
+  'mode.answerAloudOn': 'Responder en voz alta activado. Di tu respuesta antes de que se acabe el tiempo y te diré si es correcta.',
+  'mode.answerAloudOff': 'Responder en voz alta desactivado',
+
+  'pace.heading': 'Ritmo',
+  'pace.relaxed': 'Tranquilo',
+  'pace.standard': 'Normal',
+  'pace.quick': 'Rápido',
+  'pace.custom': 'Personalizado',
+  'pace.presetAria': 'Ritmo {label}, {question} segundos por pregunta y {answer} segundos por respuesta',
+  'pace.presetSpoken': 'Ritmo {label}. {question} segundos para pensar, {answer} segundos para la respuesta.',
+  'pace.customSpoken': 'Ritmo personalizado. Usa los botones más y menos para ajustar los tiempos.',
+  'pace.thinkingTime': 'Tiempo para pensar',
+  'pace.answerTime': 'Tiempo de respuesta',
+  'pace.decrease': 'Reducir {label}',
+  'pace.increase': 'Aumentar {label}',
+  'pace.host': '🎙️ Modo presentador: {state}',
+  'pace.hostDescription': 'Sin temporizador: tú muestras cada respuesta',
+  'pace.hostAria': 'Modo presentador: sin temporizador, el presentador muestra cada respuesta',
+  'pace.hostOn': 'Modo presentador activado. No hay temporizador. Tú muestras cada respuesta y pasas a la siguiente pregunta.',
+  'pace.hostOff': 'Modo presentador desactivado. Las preguntas avanzan solas.',
+  'pace.waitForSpeech': '🔊 Esperar a la narración: {state}',
+  'pace.waitForSpeechAria': 'Esperar a que se lea la pregunta antes de iniciar el temporizador',
+  'pace.waitOn': 'El temporizador esperará hasta que se lea la pregunta',
+  'pace.waitOff': 'El temporizador empieza de inmediato',
+
+  'teams.heading': 'Equipos (opcional)',
+  'teams.placeholder': 'Nombre del equipo',
+  'teams.inputAria': 'Nombre del nuevo equipo',
+  'teams.add': '➕ Añadir equipo',
+  'teams.addAria': 'Añadir equipo',
+  'teams.list': 'Equipos',
+  'teams.removeAria': 'Quitar el equipo {team}',
+  'teams.hint': 'Añade equipos para llevar la puntuación. Marcarás quién acertó cada respuesta.',
+  'teams.limit': 'Puedes tener hasta {count} equipos',
+  'teams.needName': 'Escribe el nombre de un equipo nuevo',
+  'teams.added': 'Equipo {team} añadido',
+  'teams.removed': 'Equipo {team} quitado',
+
+  'history.heading': '¿Quién juega?',
+  'history.groupName': 'Nombre del grupo (opcional)',
+  'history.groupPlaceholder': 'Este dispositivo',
+  'history.reset': '🗑️ Borrar historial',
+  'history.resetAria': 'Borrar historial de juego',
+  'history.played': '{count} preguntas jugadas',
+  'history.hint': 'Las preguntas que ya viste quedan para el final, así las rondas siguen siendo nuevas.',
+  'history.confirmGroup': '¿Olvidar todas las preguntas jugadas por el grupo {group}? Las preguntas podrían repetirse antes.',
+  'history.confirmDevice': '¿Olvidar todas las preguntas jugadas en este dispositivo? Las preguntas podrían repetirse antes.',
+  'history.resetDone': 'Se borró el historial de juego',
+  'history.resetFailed': 'No se pudo borrar el historial de juego',
+
+  'saved.heading': '⭐ Rondas guardadas',
+  'saved.hint': 'Empieza una ronda guardada con un toque. Las listas se juegan con el estilo de preguntas, el ritmo y los equipos elegidos abajo.',
+  'saved.presetSummary': '{countries} · {period} · {count} preguntas',
+  'saved.playlistSummary': '🎵 {count} preguntas en un orden fijo',
+  'saved.startAria': 'Empezar {name}, {summary}',
+  'saved.startSpoken': 'Empezamos {name}',
+  'saved.copyLink': '🔗 Enlace',
+  'saved.copyLinkAria': 'Copiar un enlace a {name}',
+  'saved.copyPrompt': 'Copia este enlace para compartir la ronda',
+  'saved.linkCopied': 'Enlace copiado',
+  'saved.delete': '🗑️',
+  'saved.deleteAria': 'Borrar la ronda guardada {name}',
+  'saved.confirmDelete': '¿Borrar la ronda guardada "{name}"? Se borra para todos los que usan este servidor.',
+  'saved.deleteFailed': 'No se pudo borrar la ronda guardada',
+  'saved.nameLabel': 'Nombre de la ronda',
+  'saved.save': '💾 Guardar ronda',
+  'saved.saveAria': 'Guardar estas opciones como ronda',
+  'saved.saved': 'Se guardó {name}',
+  'saved.saveFailed': 'No se pudo guardar la ronda',
+  'saved.resume': '⏯️ Seguir donde lo dejaste',
+  'saved.resumeAria': 'Seguir la ronda sin terminar en la pregunta {current} de {total}',
+
+  'start.button': '▶️ Empezar trivia',
+  'start.aria': 'Empezar trivia',
+  'start.noQuestions': 'Todavía no hay preguntas para esta combinación. Elige otra.',
+  'start.needSelection': 'Elige 2 países y una época',
+  'start.needSelectionSpoken': 'Primero elige 2 países y una época',
+  'start.spoken': 'Empezamos la trivia con {count} preguntas de {first} y {second}',
+
+  'voice.on': '🎤 Voz SÍ',
+  'voice.off': '🎤 Voz NO',
+  'voice.toggleAria': 'Activar o desactivar comandos de voz. Ahora: {state}',
+  'voice.listening': 'Escuchando...',
+  'voice.startingMic': 'Iniciando el micrófono',
+  'voice.heard': 'Escuché: "{text}"',
+  'voice.sayHelp': 'Di "Ayuda" para oír los comandos',
+  'voice.try': 'Prueba: {commands}',
+  'voice.lastCommand': 'Último comando: "{text}"',
+  'voice.active': 'Comandos de voz activados. Di ayuda para saber qué puedes decir.',
+  'voice.offSpoken': 'Comandos de voz desactivados',
+  'voice.help': 'Puedes decir: {commands}',
+  'voice.notUnderstood': 'Perdón, no te entendí. Di ayuda para oír los comandos.',
+  'voice.unsupported': 'Este dispositivo no admite comandos de voz',
+  'voice.unsupportedAlert': 'Este navegador no admite comandos de voz. Prueba con Chrome o Edge.',
+  'voice.micDenied': 'Acceso al micrófono denegado. Permite el micrófono en la configuración del navegador.',
+  'voice.startFailed': 'No se pudieron iniciar los comandos de voz',
+  'voice.selectedTwo': 'Seleccionados {first} y {second}',
+  'voice.selectedOne': 'Seleccionado {country}. Elige un país más.',
+
+  'voice.say.stopListening': 'deja de escuchar, dejar de escuchar, apaga la voz, apagar voz',
+  'voice.say.cancel': 'para, detente, cancela, cancelar',
+  'voice.say.start': 'empezar, empieza, comenzar, comienza, vamos, a jugar, jugar',
+  'voice.say.help': 'ayuda, qué puedo decir',
+  'voice.say.anyTime': 'cualquier época, cualquier momento, cualquier año, todas las épocas',
+  'voice.say.questions': 'preguntas, pregunta',
+  'voice.say.exit': 'salir, sal, menú principal, menú',
+  'voice.say.resume': 'continuar, continúa, sigue, seguir, reanudar, reanuda',
+  'voice.say.pause': 'pausa, pausar, espera, un momento, para',
+  'voice.say.repeat': 'repite, repetir, otra vez, de nuevo, qué dijiste',
+  'voice.say.reveal': 'muestra la respuesta, mostrar la respuesta, mostrar respuesta, revela, revelar, cuál es la respuesta, dinos',
+  'voice.say.previous': 'anterior, pregunta anterior, vuelve, volver, atrás',
+  'voice.say.next': 'siguiente, salta, saltar, adelante',
+  'voice.say.filler': 'creo, que, es, era, sera, yo, digo, diria, la, el, los, las, un, una, respuesta, mi, final, quizas, quiza, tal, vez, seguro, seguramente, probablemente, pues, bueno, eh, este, mmm, si, claro',
+
+  'voice.example.choose': '"Elige Nigeria y USA"',
+  'voice.example.period': '"1960" o "Cualquier época"',
+  'voice.example.count': '"12 preguntas"',
+  'voice.example.start': '"Empezar"',
+  'voice.example.help': '"Ayuda"',
+  'voice.example.stopListening': '"Deja de escuchar"',
+  'voice.example.pause': '"Pausa" / "Continuar"',
+  'voice.example.repeat': '"Repite"',
+  'voice.example.reveal': '"Muestra la respuesta"',
+  'voice.example.next': '"Siguiente" / "Anterior"',
+  'voice.example.exit': '"Salir"',
+
+  'play.pageTitle': 'World Trivia TV - Jugando',
+  'play.loading': 'Cargando tu trivia...',
+  'play.errorTitle': 'World Trivia TV - Error',
+  'play.noTrivia': 'No hay preguntas para esta selección. Vuelve y prueba otra combinación.',
+  'play.playlistMissing': 'Esta lista ya no existe. Vuelve atrás y elige otra ronda.',
+  'play.resumeTitle': '¿Seguir donde lo dejaste?',
+  'play.resumeOffer': 'Tienes una ronda sin terminar, detenida en la pregunta {current} de {total}. ¿Sigues donde lo dejaste o empiezas de nuevo?',
+  'play.resumeRound': '▶️ Seguir',
+  'play.startOver': '🔄 Empezar de nuevo',
+  'play.resumed': 'Seguimos en la pregunta {current} de {total}.',
+  'play.loadFailed': 'No se pudo cargar la trivia. Revisa tu conexión e inténtalo de nuevo.',
+  'play.loadFailedSpoken': 'No se pudo cargar la trivia. Vuelve al menú e inténtalo de nuevo.',
+  'play.starting': 'Empezamos la trivia con {count} preguntas. Prepárate para la primera pregunta.',
+  'play.finished': 'La trivia ha terminado. Puedes jugar de nuevo desde el principio o volver al menú.',
+  'play.lastQuestion': 'Esa fue la última pregunta. La trivia ha terminado.',
+  'play.resuming': 'Continuamos',
+  'play.paused': 'En pausa',
+  'play.goingBack': 'Volvemos a la pregunta anterior',
+  'play.movingOn': 'Pasamos a la siguiente pregunta',
+  'play.restarting': 'Empezamos la trivia desde el principio',
+  'play.answerIs': 'La respuesta es: {answer}',
+  'play.picture': 'Imagen: {description}',
+  'play.soundClip': 'Clip de sonido: {description}',
+  'play.exit': '⬅️ Salir de la ronda',
+  'play.exitAria': 'Salir de la ronda',
+  'play.exitConfirm': '¿Salir de esta ronda? Se perderá el progreso.',
+  'play.exitAnyway': '⬅️ Salir de la ronda',
+  'play.keepPlaying': '▶️ Seguir jugando',
+  'play.keepPlayingSpoken': 'Seguimos con la ronda',
+  'play.mute': 'Silenciar narración',
+  'play.unmute': 'Activar narración',
+  'play.narrationSettings': 'Opciones de narración',
+  'play.previous': '⏮️ Anterior',
+  'play.resume': '▶️ Continuar',
+  'play.pause': '⏸️ Pausa',
+  'play.repeat': '🔊 Repetir',
+  'play.reveal': '👁️ Mostrar respuesta',
+  'play.next': '⏭️ Siguiente',
+  'play.progress': 'Pregunta {current} de {total}',
+  'play.difficulty': 'Dificultad: {difficulty}',
+  'play.scoreboard': 'Marcador',
+  'play.timerHeld': '🔊 El tiempo empieza cuando se termine de leer la pregunta',
+  'play.secondsLabel': 'segundos',
+  'play.options': 'Opciones',
+  'play.correctOption': 'Respuesta correcta',
+  'play.whoGotIt': '¿Quién acertó?',
+  'play.gotItAria': '{team} acertó',
+  'play.pointFor': 'Punto para {team}',
+  'play.pointRemoved': 'Punto quitado a {team}',
+  'play.nextIn': '⏭️ Siguiente pregunta en {count} segundos...',
+  'play.pausedTitle': '⏸️ En pausa',
+  'play.pausedHint': 'Pulsa Continuar para seguir',
+  'play.shortcuts': '⌨️ Espacio pausa · R repetir · → {advance} · Esc salir · ↑↓←→ moverse entre botones',
+  'play.shortcutNext': 'siguiente',
+  'play.shortcutReveal': 'mostrar / siguiente',
+  'play.sayAnswer': '🗣️ Di tu respuesta ahora',
+  'play.waitToAnswer': '🗣️ Responde cuando se termine de leer la pregunta',
+  'play.correct': '¡Correcto!',
+  'play.notQuite': 'No exactamente.',
+  'play.spokenCorrect': '🎉 ¡Correcto!',
+  'play.spokenWrong': '❌ No exactamente',
+  'play.youSaid': '— dijiste "{text}"',
+  'play.remoteConnected': '📱 Control remoto conectado · código {code}',
+  'play.remoteConnectedSpoken': 'Control remoto conectado',
+  'play.remotePair': '📱 Usa un teléfono como control remoto: abre {url} e introduce el código',
+  'play.hostPaired': '🤫 El teléfono del presentador tiene la pista',
+  'play.hostWaiting': '🤫 Presentador: toca "Soy el presentador" en tu control remoto para ver las respuestas antes',
+  'play.releaseHost': 'Dejar que otro teléfono presente',
+
+  'end.finishedTitle': 'World Trivia TV - Fin',
+  'end.complete': '¡Trivia completada!',
+  'end.summary': 'Terminaste las {count} preguntas de {countries}.',
+  'end.spokenScore': '🗣️ {correct} de {total} correctas',
+  'end.spokenScoreSpoken': 'Respondiste bien {correct} de {total}.',
+  'end.standingsTitle': 'World Trivia TV - Clasificación final',
+  'end.standings': 'Clasificación final',
+  'end.outOf': 'De {count} preguntas de {countries}.',
+  'end.spokenTally': ' Respuestas en voz alta correctas: {count}.',
+  'end.tie': 'Clasificación final. ¡Hay un empate en cabeza con {points}!',
+  'end.winner': 'Clasificación final. ¡Gana {team} con {points}!',
+  'end.points': '{count} puntos',
+  'end.onePoint': '1 punto',
+  'end.replay': '🔄 Jugar otra vez',
+  'end.backToMenu': '⬅️ Volver al menú',
+
+  'narration.label': 'Opciones de narración',
+  'narration.language': 'Idioma',
+  'narration.voice': 'Voz',
+  'narration.defaultVoice': 'Voz del navegador',
+  'narration.speed': 'Velocidad',
+  'narration.pitch': 'Tono',
+  'narration.volume': 'Volumen',
+  'narration.test': '▶️ Probar voz',
+  'narration.sample': 'Bienvenidos a World Trivia TV. Así sonarán las preguntas.',
+  'narration.muted': '🔇 Narración silenciada',
+  'narration.unmuted': '🔊 Narración activada',
+  'narration.onSpoken': 'Narración activada',
+  'narration.reset': '↩️ Restablecer',
+
+  'remote.pageTitle': 'World Trivia TV - Control remoto',
+  'remote.title': '📱 Control remoto',
+  'remote.enterCode': 'Introduce el código que aparece en la TV',
+  'remote.codeAria': 'Código de sala',
+  'remote.connect': 'Conectar',
+  'remote.connected': '● Conectado a la TV {code}',
+  'remote.waiting': '○ Esperando a la TV {code}...',
+  'remote.claimHost': '🤫 Soy el presentador',
+  'remote.hostTaken': 'Otro teléfono ya es el presentador. La TV puede liberar el papel.',
+  'remote.showHint': '🤫 Ver pista de la respuesta',
+  'remote.hideHintAria': 'Ocultar pista de la respuesta',
+  'remote.showHintAria': 'Ver pista de la respuesta',
+  'remote.roundFinished': '🎉 La ronda ha terminado',
+  'remote.reveal': '👁️ Mostrar',
+  'remote.disconnect': 'Desconectar',
+  'remote.connectFailed': 'No se pudo conectar con la TV',
+  'remote.commandRejected': 'La TV no aceptó ese comando',
+  'remote.unreachable': 'No se pudo contactar con la TV. Revisa tu conexión.',
+};
+
+export default es;
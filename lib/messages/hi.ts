@@ -0,0 +1,356 @@
+import type { Messages } from '@/lib/messages/en';
+
+const hi: Partial<Messages> = {
+  'common.on': 'चालू',
+  'common.off': 'बंद',
+  'common.seconds': '{count} सेकंड',
+  'common.questions': '{count} प्रश्न',
+  'common.and': 'और',
+
+  'language.heading': 'भाषा',
+  'language.selected': 'भाषा हिन्दी कर दी गई है',
+
+  'display.label': 'स्क्रीन सेटिंग्स',
+  'display.normal': '☀️ सामान्य',
+  'display.highContrast': '🌙 हाई कॉन्ट्रास्ट',
+  'display.highContrastAria': 'हाई कॉन्ट्रास्ट चालू या बंद करें। अभी: {state}',
+  'display.textAria': 'अक्षरों का आकार बदलें। अभी: {size}',
+  'display.motionOn': '🎞️ एनिमेशन चालू',
+  'display.motionOff': '🎞️ एनिमेशन कम',
+  'display.motionAria': 'एनिमेशन चालू या बंद करें। अभी: {state}',
+  'display.dyslexiaFont': '🔤 डिस्लेक्सिया फ़ॉन्ट',
+  'display.standardFont': '🔤 सामान्य फ़ॉन्ट',
+  'display.dyslexiaAria': 'डिस्लेक्सिया के अनुकूल फ़ॉन्ट चालू या बंद करें। अभी: {state}',
+  'display.colorBlind': '🎨 रंग-अंधता के अनुकूल रंग',
+  'display.standardColors': '🎨 सामान्य रंग',
+  'display.colorBlindAria': 'रंग-अंधता के अनुकूल रंग चालू या बंद करें। अभी: {state}',
+  'display.stateOn': 'चालू',
+  'display.stateOff': 'बंद',
+  'textScale.normal': 'सामान्य अक्षर',
+  'textScale.large': 'बड़े अक्षर',
+  'textScale.extra-large': 'बहुत बड़े अक्षर',
+
+  'home.pageTitle': 'World Trivia TV - होम',
+  'home.subtitle': 'शुरू करने के लिए अपनी पसंद चुनें',
+  'home.welcome': 'World Trivia TV में आपका स्वागत है। 2 देश, एक समय अवधि और प्रश्नों की संख्या चुनें, फिर शुरू करें दबाएँ।',
+  'home.instructions': 'World Trivia TV में आपका स्वागत है। सूची से 2 देश चुनें। फिर एक समय अवधि चुनें। 5 से 15 के बीच प्रश्नों की संख्या चुनें। अंत में ट्रिविया शुरू करें बटन दबाएँ।',
+  'home.repeatInstructions': '🔊 निर्देश दोबारा सुनें',
+  'home.narration': '⚙️ आवाज़',
+  'home.narrationAria': 'आवाज़ की सेटिंग्स दिखाएँ या छिपाएँ',
+  'home.loadCatalogError': 'देशों की सूची लोड नहीं हो सकी। कृपया अपना कनेक्शन जाँचें और पेज दोबारा लोड करें।',
+
+  'countries.heading': '2 देश चुनें ({count}/2)',
+  'countries.loading': 'देश लोड हो रहे हैं...',
+  'countries.selectAria': '{country} चुनें, {count} प्रश्न',
+  'countries.selected': 'चुने गए: {countries}',
+  'countries.limit': 'आप केवल 2 देश चुन सकते हैं। पहले एक को हटाएँ।',
+
+  'period.heading': 'समय अवधि चुनें',
+  'period.any': 'कोई भी समय',
+  'period.none': 'कोई प्रश्न नहीं',
+  'period.missing': '⚠️ {count} — {countries} के लिए कोई नहीं',
+  'period.short': '⚠️ केवल {count} प्रश्न',
+  'period.selectAria': '{period} चुनें',
+  'period.onlyAvailable': '{period}। केवल {count} प्रश्न उपलब्ध हैं।',
+  'period.decades': 'या कोई दशक चुनें',
+  'period.decade': '{decade} का दशक',
+  'period.range': '{from} से {to}',
+  'period.youthHeading': 'या अपनी जवानी के वर्ष',
+  'period.birthYear': 'जन्म वर्ष',
+  'period.birthYearAria': 'मेरी जवानी विकल्प के लिए जन्म वर्ष',
+  'period.youth': '🎂 मेरी जवानी',
+  'period.youthAria': 'वे वर्ष चुनें जब दिए गए वर्ष में जन्मा व्यक्ति {from} से {to} वर्ष का था',
+  'period.needBirthYear': 'कृपया जन्म वर्ष लिखें, जैसे 1950',
+  'topic.heading': 'विषय चुनें',
+  'topic.hint': 'किसी विषय को हटाने के लिए उसे दबाएँ, या कोई विषय नहीं चुनकर अपने पसंद के विषय चुनें',
+  'topic.all': '✅ सभी विषय',
+  'topic.none': '⬜ कोई विषय नहीं',
+  'topic.allSpoken': 'सभी विषय शामिल',
+  'topic.noneSpoken': 'सभी विषय हटा दिए गए। अपने पसंद के विषय चुनें।',
+  'topic.included': '{topic} शामिल',
+  'topic.excluded': '{topic} हटाया गया',
+  'topic.selectAria': '{topic} शामिल करें',
+  'topic.music': 'संगीत',
+  'topic.film-tv': 'फ़िल्म और टीवी',
+  'topic.sports': 'खेल',
+  'topic.toys-games': 'खिलौने और खेल',
+  'topic.science-tech': 'विज्ञान और तकनीक',
+  'topic.food': 'खाना-पीना',
+  'topic.culture': 'संस्कृति',
+  'topic.daily-life': 'रोज़मर्रा की ज़िंदगी',
+  'topic.places': 'जगहें',
+  'topic.history': 'इतिहास',
+  'topic.politics': 'राजनीति',
+  'difficulty.heading': 'कठिनाई चुनें',
+  'difficulty.any': 'कोई भी कठिनाई',
+  'difficulty.easy': 'आसान',
+  'difficulty.medium': 'मध्यम',
+  'difficulty.hard': 'कठिन',
+  'difficulty.anyDescription': 'आसान, मध्यम और कठिन प्रश्नों का मिश्रण',
+  'difficulty.adaptive': '🎯 अनुकूली',
+  'difficulty.adaptiveDescription': 'सही उत्तरों पर कठिन और गलत उत्तरों पर आसान होता जाता है',
+  'difficulty.needsTracking': '⚠️ टीमें जोड़ें या 🗣️ बोलकर उत्तर दें चालू करें ताकि यह आपके प्रदर्शन को देख सके',
+  'difficulty.selectAria': '{difficulty} चुनें',
+
+  'count.heading': 'कितने प्रश्न? (5–15)',
+  'count.decrease': 'प्रश्न कम करें',
+  'count.increase': 'प्रश्न बढ़ाएँ',
+  'count.selectAria': '{count} प्रश्न चुनें',
+  'count.shortRound': '⚠️ इस चुनाव के लिए केवल {count} प्रश्न उपलब्ध हैं, इसलिए राउंड छोटा होगा।',
+  'count.tryAnother': ' पूरे राउंड के लिए कोई दूसरी समय अवधि चुनें।',
+
+  'mode.heading': 'प्रश्न का प्रकार',
+  'mode.open': '💬 खुला उत्तर',
+  'mode.openDescription': 'उत्तर दिखने से पहले सोचें',
+  'mode.openSpoken': 'खुला उत्तर',
+  'mode.choice': '🔤 बहुविकल्पीय',
+  'mode.choiceDescription': 'A, B, C या D में से चुनें',
+  'mode.choiceSpoken': 'बहुविकल्पीय',
+  'mode.answerAloud': '🗣️ बोलकर उत्तर दें: {state}',
+  'mode.answerAloudAria': 'बोलकर उत्तर दें। माइक्रोफ़ोन में उत्तर बोलें और सुनें कि वह सही था या नहीं',
+  'mode.answerAloudOn': 'बोलकर उत्तर देना चालू है। समय खत्म होने से पहले अपना उत्तर बोलें, मैं बताऊँगा कि वह सही है या नहीं।',
+  'mode.answerAloudOff': 'बोलकर उत्तर देना बंद है',
+
+  'pace.heading': 'गति',
+  'pace.relaxed': 'आराम से',
+  'pace.standard': 'सामान्य',
+  'pace.quick': 'तेज़',
+  'pace.custom': 'अपनी पसंद',
+  'pace.presetAria': '{label} गति, हर प्रश्न के लिए {question} सेकंड और हर उत्तर के लिए {answer} सेकंड',
+  'pace.presetSpoken': '{label} गति। सोचने के लिए {question} सेकंड, उत्तर के लिए {answer} सेकंड।',
+  'pace.customSpoken': 'अपनी गति। समय तय करने के लिए प्लस और माइनस बटन इस्तेमाल करें।',
+  'pace.thinkingTime': 'सोचने का समय',
+  'pace.answerTime': 'उत्तर का समय',
+  'pace.decrease': '{label} घटाएँ',
+  'pace.increase': '{label} बढ़ाएँ',
+  'pace.host': '🎙️ होस्ट मोड: {state}',
+  'pace.hostDescription': 'कोई टाइमर नहीं — हर उत्तर आप दिखाते हैं',
+  'pace.hostAria': 'होस्ट मोड: कोई टाइमर नहीं, होस्ट हर उत्तर दिखाता है',
+  'pace.hostOn': 'होस्ट मोड चालू है। कोई टाइमर नहीं है। आप हर उत्तर दिखाएँगे और अगले प्रश्न पर जाएँगे।',
+  'pace.hostOff': 'होस्ट मोड बंद है। प्रश्न अपने आप आगे बढ़ेंगे।',
+  'pace.waitForSpeech': '🔊 पढ़ने तक रुकें: {state}',
+  'pace.waitForSpeechAria': 'टाइमर शुरू करने से पहले प्रश्न के पढ़े जाने का इंतज़ार करें',
+  'pace.waitOn': 'प्रश्न पढ़े जाने तक टाइमर रुका रहेगा',
+  'pace.waitOff': 'टाइमर तुरंत शुरू होगा',
+
+  'teams.heading': 'टीमें (वैकल्पिक)',
+  'teams.placeholder': 'टीम का नाम',
+  'teams.inputAria': 'नई टीम का नाम',
+  'teams.add': '➕ टीम जोड़ें',
+  'teams.addAria': 'टीम जोड़ें',
+  'teams.list': 'टीमें',
+  'teams.removeAria': 'टीम {team} हटाएँ',
+  'teams.hint': 'स्कोर रखने के लिए टीमें जोड़ें। आप बताएँगे कि किसने सही उत्तर दिया।',
+  'teams.limit': 'आप अधिकतम {count} टीमें रख सकते हैं',
+  'teams.needName': 'कृपया नई टीम का नाम लिखें',
+  'teams.added': 'टीम {team} जोड़ी गई',
+  'teams.removed': 'टीम {team} हटाई गई',
+
+  'history.heading': 'कौन खेल रहा है?',
+  'history.groupName': 'समूह का नाम (वैकल्पिक)',
+  'history.groupPlaceholder': 'यह डिवाइस',
+  'history.reset': '🗑️ इतिहास मिटाएँ',
+  'history.resetAria': 'खेल का इतिहास मिटाएँ',
+  'history.played': '{count} प्रश्न खेले गए',
+  'history.hint': 'जो प्रश्न आप देख चुके हैं वे अंत में आते हैं, ताकि हर राउंड नया लगे।',
+  'history.confirmGroup': 'समूह {group} के खेले गए सभी प्रश्न भूल जाएँ? प्रश्न जल्दी दोहराए जा सकते हैं।',
+  'history.confirmDevice': 'इस डिवाइस पर खेले गए सभी प्रश्न भूल जाएँ? प्रश्न जल्दी दोहराए जा सकते हैं।',
+  'history.resetDone': 'खेल का इतिहास मिटा दिया गया है',
+  'history.resetFailed': 'खेल का इतिहास नहीं मिटाया जा सका',
+
+  'saved.heading': '⭐ सहेजे गए राउंड',
+  'saved.hint': 'सहेजा गया राउंड एक टैप में शुरू करें। प्लेलिस्ट नीचे चुनी गई प्रश्न शैली, गति और टीमों के साथ खेली जाती हैं।',
+  'saved.presetSummary': '{countries} · {period} · {count} प्रश्न',
+  'saved.playlistSummary': '🎵 तय क्रम में {count} प्रश्न',
+  'saved.startAria': '{name} शुरू करें, {summary}',
+  'saved.startSpoken': '{name} शुरू हो रहा है',
+  'saved.copyLink': '🔗 लिंक',
+  'saved.copyLinkAria': '{name} का लिंक कॉपी करें',
+  'saved.copyPrompt': 'राउंड साझा करने के लिए यह लिंक कॉपी करें',
+  'saved.linkCopied': 'लिंक कॉपी हो गया',
+  'saved.delete': '🗑️',
+  'saved.deleteAria': 'सहेजा गया राउंड {name} मिटाएँ',
+  'saved.confirmDelete': 'सहेजा गया राउंड "{name}" मिटाएँ? यह इस सर्वर का उपयोग करने वाले सभी लोगों के लिए मिट जाएगा।',
+  'saved.deleteFailed': 'सहेजा गया राउंड नहीं मिटाया जा सका',
+  'saved.nameLabel': 'राउंड का नाम',
+  'saved.save': '💾 राउंड सहेजें',
+  'saved.saveAria': 'इन विकल्पों को राउंड के रूप में सहेजें',
+  'saved.saved': '{name} सहेजा गया',
+  'saved.saveFailed': 'राउंड नहीं सहेजा जा सका',
+  'saved.resume': '⏯️ जहाँ छोड़ा था वहीं से जारी रखें',
+  'saved.resumeAria': 'अधूरा राउंड प्रश्न {current} / {total} से जारी रखें',
+
+  'start.button': '▶️ ट्रिविया शुरू करें',
+  'start.aria': 'ट्रिविया शुरू करें',
+  'start.noQuestions': 'इस चुनाव के लिए अभी कोई प्रश्न नहीं है। कृपया कुछ और चुनें।',
+  'start.needSelection': 'कृपया 2 देश और एक समय अवधि चुनें',
+  'start.needSelectionSpoken': 'कृपया पहले 2 देश और एक समय अवधि चुनें',
+  'start.spoken': '{first} और {second} से {count} प्रश्नों के साथ ट्रिविया शुरू हो रहा है',
+
+  'voice.on': '🎤 आवाज़ चालू',
+  'voice.off': '🎤 आवाज़ बंद',
+  'voice.toggleAria': 'आवाज़ से आदेश चालू या बंद करें। अभी: {state}',
+  'voice.listening': 'सुन रहा हूँ...',
+  'voice.startingMic': 'माइक्रोफ़ोन शुरू हो रहा है',
+  'voice.heard': 'सुना: "{text}"',
+  'voice.sayHelp': 'आदेश सुनने के लिए "मदद" कहें',
+  'voice.try': 'कहकर देखें: {commands}',
+  'voice.lastCommand': 'पिछला आदेश: "{text}"',
+  'voice.active': 'आवाज़ से आदेश चालू हैं। आप क्या कह सकते हैं, यह सुनने के लिए मदद कहें।',
+  'voice.offSpoken': 'आवाज़ से आदेश बंद',
+  'voice.help': 'आप कह सकते हैं: {commands}',
+  'voice.notUnderstood': 'माफ़ कीजिए, मैं समझ नहीं पाया। आदेश सुनने के लिए मदद कहें।',
+  'voice.unsupported': 'इस डिवाइस पर आवाज़ से आदेश काम नहीं करते',
+  'voice.unsupportedAlert': 'इस ब्राउज़र में आवाज़ से आदेश काम नहीं करते। Chrome या Edge आज़माएँ।',
+  'voice.micDenied': 'माइक्रोफ़ोन की अनुमति नहीं मिली। कृपया ब्राउज़र सेटिंग्स में माइक्रोफ़ोन की अनुमति दें।',
+  'voice.startFailed': 'आवाज़ से आदेश शुरू नहीं हो सके',
+  'voice.selectedTwo': '{first} और {second} चुने गए',
+  'voice.selectedOne': '{country} चुना गया। एक और देश चुनें।',
+
+  'voice.say.stopListening': 'सुनना बंद करो, सुनना बंद, आवाज़ बंद करो',
+  'voice.say.cancel': 'रुको, बंद करो, रद्द करो',
+  'voice.say.start': 'शुरू करो, शुरू, चलो खेलें, खेलो',
+  'voice.say.help': 'मदद, सहायता, मैं क्या कह सकता हूँ',
+  'voice.say.anyTime': 'कोई भी समय, किसी भी समय, कोई भी दौर',
+  'voice.say.questions': 'सवाल, प्रश्न',
+  'voice.say.exit': 'बाहर निकलो, बाहर, मुख्य मेनू, मेनू',
+  'voice.say.resume': 'जारी रखो, फिर से शुरू करो, आगे चलो, चलो',
+  'voice.say.pause': 'रुको, ठहरो, रोको, एक मिनट',
+  'voice.say.repeat': 'दोहराओ, फिर से बोलो, फिर से, दोबारा',
+  'voice.say.reveal': 'जवाब दिखाओ, उत्तर दिखाओ, जवाब बताओ, उत्तर बताओ, जवाब क्या है',
+  'voice.say.previous': 'पिछला सवाल, पिछला, वापस जाओ, पीछे',
+  'voice.say.next': 'अगला सवाल, अगला, आगे बढ़ो, छोड़ो',
+  'voice.say.filler': 'मुझे, लगता, है, था, थी, शायद, उत्तर, जवाब, मेरा, मैं, कहूँगा, कहूँगी, हाँ, तो, यह, ये, वो, ज़रूर, पक्का',
+
+  'voice.example.choose': '"Nigeria और USA चुनो"',
+  'voice.example.period': '"1960" या "कोई भी समय"',
+  'voice.example.count': '"12 सवाल"',
+  'voice.example.start': '"शुरू करो"',
+  'voice.example.help': '"मदद"',
+  'voice.example.stopListening': '"सुनना बंद करो"',
+  'voice.example.pause': '"रुको" / "जारी रखो"',
+  'voice.example.repeat': '"दोहराओ"',
+  'voice.example.reveal': '"जवाब दिखाओ"',
+  'voice.example.next': '"अगला" / "पिछला"',
+  'voice.example.exit': '"बाहर निकलो"',
+
+  'play.pageTitle': 'World Trivia TV - खेल जारी',
+  'play.loading': 'आपका ट्रिविया लोड हो रहा है...',
+  'play.errorTitle': 'World Trivia TV - त्रुटि',
+  'play.noTrivia': 'इस चुनाव के लिए कोई प्रश्न नहीं मिला। कृपया वापस जाकर कुछ और चुनें।',
+  'play.playlistMissing': 'यह प्लेलिस्ट अब मौजूद नहीं है। कृपया वापस जाएँ और कोई दूसरा राउंड चुनें।',
+  'play.resumeTitle': 'जहाँ छोड़ा था वहीं से जारी रखें?',
+  'play.resumeOffer': 'आपका एक राउंड अधूरा है, जो प्रश्न {current} / {total} पर रुका था। जहाँ छोड़ा था वहीं से जारी रखें, या फिर से शुरू करें?',
+  'play.resumeRound': '▶️ जारी रखें',
+  'play.startOver': '🔄 फिर से शुरू करें',
+  'play.resumed': 'प्रश्न {current} / {total} से जारी है।',
+  'play.loadFailed': 'ट्रिविया लोड नहीं हो सका। कृपया अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'play.loadFailedSpoken': 'ट्रिविया लोड नहीं हो सका। कृपया मेन्यू पर वापस जाकर फिर से कोशिश करें।',
+  'play.starting': '{count} प्रश्नों के साथ ट्रिविया शुरू हो रहा है। पहले प्रश्न के लिए तैयार हो जाइए।',
+  'play.finished': 'ट्रिविया समाप्त हो गया। आप शुरू से दोबारा खेल सकते हैं या मेन्यू पर जा सकते हैं।',
+  'play.lastQuestion': 'यह आखिरी प्रश्न था। ट्रिविया समाप्त हो गया।',
+  'play.resuming': 'ट्रिविया फिर से शुरू',
+  'play.paused': 'रुका हुआ',
+  'play.goingBack': 'पिछले प्रश्न पर जा रहे हैं',
+  'play.movingOn': 'अगले प्रश्न पर जा रहे हैं',
+  'play.restarting': 'ट्रिविया शुरू से फिर शुरू हो रहा है',
+  'play.answerIs': 'उत्तर है: {answer}',
+  'play.picture': 'चित्र: {description}',
+  'play.soundClip': 'ध्वनि क्लिप: {description}',
+  'play.exit': '⬅️ राउंड छोड़ें',
+  'play.exitAria': 'राउंड छोड़ें',
+  'play.exitConfirm': 'यह राउंड छोड़ें? आपकी प्रगति खो जाएगी।',
+  'play.exitAnyway': '⬅️ राउंड छोड़ें',
+  'play.keepPlaying': '▶️ खेलते रहें',
+  'play.keepPlayingSpoken': 'राउंड जारी है',
+  'play.mute': 'आवाज़ बंद करें',
+  'play.unmute': 'आवाज़ चालू करें',
+  'play.narrationSettings': 'आवाज़ की सेटिंग्स',
+  'play.previous': '⏮️ पिछला',
+  'play.resume': '▶️ जारी रखें',
+  'play.pause': '⏸️ रोकें',
+  'play.repeat': '🔊 दोहराएँ',
+  'play.reveal': '👁️ उत्तर दिखाएँ',
+  'play.next': '⏭️ अगला',
+  'play.progress': 'प्रश्न {current} / {total}',
+  'play.difficulty': 'कठिनाई: {difficulty}',
+  'play.scoreboard': 'स्कोरबोर्ड',
+  'play.timerHeld': '🔊 प्रश्न पढ़े जाने के बाद टाइमर शुरू होगा',
+  'play.secondsLabel': 'सेकंड',
+  'play.options': 'विकल्प',
+  'play.correctOption': 'सही उत्तर',
+  'play.whoGotIt': 'किसने सही उत्तर दिया?',
+  'play.gotItAria': '{team} ने सही उत्तर दिया',
+  'play.pointFor': '{team} को एक अंक',
+  'play.pointRemoved': '{team} का अंक हटाया गया',
+  'play.nextIn': '⏭️ अगला प्रश्न {count} सेकंड में...',
+  'play.pausedTitle': '⏸️ रुका हुआ',
+  'play.pausedHint': 'आगे बढ़ने के लिए जारी रखें दबाएँ',
+  'play.shortcuts': '⌨️ Space रोकें · R दोहराएँ · → {advance} · Esc बाहर · ↑↓←→ बटनों के बीच जाएँ',
+  'play.shortcutNext': 'अगला',
+  'play.shortcutReveal': 'उत्तर दिखाएँ / अगला',
+  'play.sayAnswer': '🗣️ अब अपना उत्तर बोलें',
+  'play.waitToAnswer': '🗣️ प्रश्न पढ़े जाने के बाद उत्तर दें',
+  'play.correct': 'सही!',
+  'play.notQuite': 'बिल्कुल सही नहीं।',
+  'play.spokenCorrect': '🎉 सही!',
+  'play.spokenWrong': '❌ बिल्कुल सही नहीं',
+  'play.youSaid': '— आपने कहा "{text}"',
+  'play.remoteConnected': '📱 रिमोट जुड़ा · कोड {code}',
+  'play.remoteConnectedSpoken': 'रिमोट कंट्रोल जुड़ गया',
+  'play.remotePair': '📱 फ़ोन को रिमोट बनाएँ: {url} खोलें और कोड डालें',
+  'play.hostPaired': '🤫 होस्ट के फ़ोन पर उत्तर का संकेत है',
+  'play.hostWaiting': '🤫 होस्ट: उत्तर पहले देखने के लिए अपने फ़ोन रिमोट पर "मैं होस्ट हूँ" दबाएँ',
+  'play.releaseHost': 'दूसरे फ़ोन को होस्ट बनने दें',
+  'end.finishedTitle': 'World Trivia TV - समाप्त',
+
+  'end.complete': 'ट्रिविया पूरा हुआ!',
+  'end.summary': 'आपने {countries} के सभी {count} प्रश्न पूरे कर लिए।',
+  'end.spokenScore': '🗣️ {total} में से {correct} सही',
+  'end.spokenScoreSpoken': 'आपने {total} में से {correct} प्रश्नों के सही उत्तर दिए।',
+  'end.standingsTitle': 'World Trivia TV - अंतिम स्कोर',
+  'end.standings': 'अंतिम स्थिति',
+  'end.outOf': '{countries} के {count} प्रश्नों में से।',
+  'end.spokenTally': ' बोलकर सही उत्तर: {count}।',
+  'end.tie': 'अंतिम स्थिति। {points} के साथ सबसे ऊपर बराबरी है!',
+  'end.winner': 'अंतिम स्थिति। {team} {points} के साथ जीती!',
+  'end.points': '{count} अंक',
+  'end.onePoint': '1 अंक',
+  'end.replay': '🔄 फिर से खेलें',
+  'end.backToMenu': '⬅️ मेन्यू पर वापस',
+
+  'narration.label': 'आवाज़ की सेटिंग्स',
+  'narration.language': 'भाषा',
+  'narration.voice': 'आवाज़',
+  'narration.defaultVoice': 'ब्राउज़र की आवाज़',
+  'narration.speed': 'गति',
+  'narration.pitch': 'पिच',
+  'narration.volume': 'वॉल्यूम',
+  'narration.test': '▶️ आवाज़ सुनें',
+  'narration.sample': 'World Trivia TV में आपका स्वागत है। प्रश्न इस तरह सुनाई देंगे।',
+  'narration.muted': '🔇 आवाज़ बंद',
+  'narration.unmuted': '🔊 आवाज़ चालू',
+  'narration.onSpoken': 'आवाज़ चालू',
+  'narration.reset': '↩️ रीसेट',
+  'remote.pageTitle': 'World Trivia TV - रिमोट',
+
+  'remote.title': '📱 ट्रिविया रिमोट',
+  'remote.enterCode': 'टीवी पर दिखाया गया कोड लिखें',
+  'remote.codeAria': 'रूम कोड',
+  'remote.connect': 'जोड़ें',
+  'remote.connected': '● टीवी {code} से जुड़ा',
+  'remote.waiting': '○ टीवी {code} का इंतज़ार...',
+  'remote.claimHost': '🤫 मैं होस्ट हूँ',
+  'remote.hostTaken': 'कोई दूसरा फ़ोन पहले से होस्ट है। टीवी यह भूमिका खाली कर सकता है।',
+  'remote.showHint': '🤫 उत्तर का संकेत दिखाएँ',
+  'remote.hideHintAria': 'उत्तर का संकेत छिपाएँ',
+  'remote.showHintAria': 'उत्तर का संकेत दिखाएँ',
+  'remote.roundFinished': '🎉 राउंड समाप्त हो गया',
+  'remote.reveal': '👁️ दिखाएँ',
+  'remote.disconnect': 'डिस्कनेक्ट करें',
+  'remote.connectFailed': 'टीवी से नहीं जुड़ सके',
+  'remote.commandRejected': 'टीवी ने यह आदेश नहीं माना',
+  'remote.unreachable': 'टीवी तक नहीं पहुँच सके। अपना कनेक्शन जाँचें।',
+};
+
+export default hi;
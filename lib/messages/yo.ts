@@ -0,0 +1,201 @@
+import type { Messages } from '@/lib/messages/en';
+
+const yo: Partial<Messages> = {
+  'common.on': 'TÀN',
+  'common.off': 'PA',
+  'common.seconds': 'ìṣẹ́jú-àáyá {count}',
+  'common.questions': 'ìbéèrè {count}',
+  'common.and': 'àti',
+
+  'language.heading': 'Èdè',
+  'language.selected': 'A ti yí èdè padà sí Yorùbá',
+
+  'home.pageTitle': 'World Trivia TV - Ilé',
+  'home.subtitle': 'Yan ohun tí o fẹ́ láti bẹ̀rẹ̀',
+  'home.welcome': 'Ẹ káàbọ̀ sí World Trivia TV. Yan orílẹ̀-èdè méjì, àkókò kan, àti iye ìbéèrè tí o fẹ́ dáhùn, lẹ́yìn náà tẹ Bẹ̀rẹ̀.',
+  'home.instructions': 'Ẹ káàbọ̀ sí World Trivia TV. Yan orílẹ̀-èdè méjì nínú àkójọ. Lẹ́yìn náà yan àkókò kan. Yan iye ìbéèrè tí o fẹ́, láti márùn-ún sí mẹ́ẹ̀ẹ́dógún. Níkẹyìn, tẹ bọ́tìnnì Bẹ̀rẹ̀ Ìdíje.',
+  'home.repeatInstructions': '🔊 Tún ìtọ́sọ́nà sọ',
+  'home.narration': '⚙️ Ohùn',
+
+  'countries.heading': 'Yan Orílẹ̀-èdè Méjì ({count}/2)',
+  'countries.loading': 'À ń gbé àwọn orílẹ̀-èdè wá...',
+  'countries.selected': 'Èyí tí o yàn: {countries}',
+  'countries.limit': 'Orílẹ̀-èdè méjì péré ni o lè yàn. Kọ́kọ́ yọ ọ̀kan kúrò.',
+
+  'period.heading': 'Yan Àkókò',
+  'period.any': 'Àkókò Èyíkéyìí',
+  'period.none': 'Kò sí ìbéèrè',
+  'period.short': '⚠️ Ìbéèrè {count} péré',
+
+  'count.heading': 'Ìbéèrè Mélòó? (5–15)',
+
+  'mode.heading': 'Irú Ìbéèrè',
+  'mode.open': '💬 Ìdáhùn Ṣíṣí',
+  'mode.openDescription': 'Ronú nípa ìdáhùn kí wọ́n tó fi hàn',
+  'mode.choice': '🔤 Àṣàyàn Púpọ̀',
+  'mode.choiceDescription': 'Yan láàrin A, B, C tàbí D',
+  'mode.answerAloud': '🗣️ Dáhùn sókè: {state}',
+
+  'pace.heading': 'Ìyára',
+  'pace.relaxed': 'Pẹ̀lẹ́pẹ̀lẹ́',
+  'pace.standard': 'Àárín',
+  'pace.quick': 'Kíákíá',
+  'pace.custom': 'Ti ara rẹ',
+  'pace.host': '🎙️ Ipò Olùdarí: {state}',
+
+  'teams.heading': 'Àwọn Ẹgbẹ́ (kò pọn dandan)',
+  'teams.placeholder': 'Orúkọ ẹgbẹ́',
+  'teams.add': '➕ Fi Ẹgbẹ́ Kún',
+
+  'history.heading': 'Ta ló ń ṣeré?',
+  'history.groupName': 'Orúkọ ẹgbẹ́ (kò pọn dandan)',
+  'history.groupPlaceholder': 'Ẹ̀rọ yìí',
+  'history.reset': '🗑️ Pa Ìtàn Rẹ́',
+
+  'start.button': '▶️ Bẹ̀rẹ̀ Ìdíje',
+  'start.aria': 'Bẹ̀rẹ̀ ìdíje',
+  'start.needSelection': 'Jọ̀wọ́ yan orílẹ̀-èdè méjì àti àkókò kan',
+  'start.needSelectionSpoken': 'Jọ̀wọ́ kọ́kọ́ yan orílẹ̀-èdè méjì àti àkókò kan',
+  'start.spoken': 'À ń bẹ̀rẹ̀ ìdíje pẹ̀lú ìbéèrè {count} láti {first} àti {second}',
+
+  'voice.on': '🎤 Ohùn TÀN',
+  'voice.off': '🎤 Ohùn PA',
+  'voice.listening': 'Mò ń gbọ́...',
+  'voice.toggleAria': 'Tàn tàbí pa àṣẹ ohùn. Ó wà ní {state} báyìí',
+  'voice.startingMic': 'À ń tan gbohùngbohùn',
+  'voice.heard': 'Mo gbọ́: "{text}"',
+  'voice.sayHelp': 'Sọ "Ìrànlọ́wọ́" láti gbọ́ àwọn àṣẹ',
+  'voice.try': 'Gbìyànjú: {commands}',
+  'voice.lastCommand': 'Àṣẹ tó kẹ́yìn: "{text}"',
+  'voice.active': 'Àṣẹ ohùn ti tàn. Sọ ìrànlọ́wọ́ láti gbọ́ ohun tí o lè sọ.',
+  'voice.offSpoken': 'A ti pa àṣẹ ohùn',
+  'voice.help': 'O lè sọ: {commands}',
+  'voice.notUnderstood': 'Má bínú, kò yé mi. Sọ ìrànlọ́wọ́ láti gbọ́ àwọn àṣẹ.',
+  'voice.unsupported': 'Ẹ̀rọ yìí kò ṣe àtìlẹ́yìn fún àṣẹ ohùn',
+  'voice.unsupportedAlert': 'Aṣàwákiri yìí kò ṣe àtìlẹ́yìn fún àṣẹ ohùn. Gbìyànjú Chrome tàbí Edge.',
+  'voice.micDenied': 'A kò gbà láti lo gbohùngbohùn. Jọ̀wọ́ fàyè gba gbohùngbohùn nínú ètò aṣàwákiri rẹ.',
+  'voice.startFailed': 'A kò lè bẹ̀rẹ̀ àṣẹ ohùn',
+  'voice.selectedTwo': 'O ti yan {first} àti {second}',
+  'voice.selectedOne': 'O ti yan {country}. Yan orílẹ̀-èdè kan sí i.',
+
+  'voice.say.stopListening': 'dẹ́kun gbígbọ́, pa ohùn, dúró gbígbọ́',
+  'voice.say.cancel': 'dúró, fagilé',
+  'voice.say.start': 'bẹ̀rẹ̀, ẹ jẹ́ ká bẹ̀rẹ̀, ẹ jẹ́ ká ṣeré',
+  'voice.say.help': 'ìrànlọ́wọ́, ràn mí lọ́wọ́, kí ni mo lè sọ',
+  'voice.say.anyTime': 'àkókò èyíkéyìí, ìgbàkígbà',
+  'voice.say.questions': 'ìbéèrè',
+  'voice.say.exit': 'kúrò, jáde, padà sí àkójọ, àkójọ',
+  'voice.say.resume': 'tẹ̀síwájú, máa bá a lọ',
+  'voice.say.pause': 'dánudúró, dúró díẹ̀, dúró',
+  'voice.say.repeat': 'tún sọ, tún un sọ, kí lo sọ',
+  'voice.say.reveal': 'fi ìdáhùn hàn, kí ni ìdáhùn, sọ ìdáhùn',
+  'voice.say.previous': 'ti tẹ́lẹ̀, padà sẹ́yìn, ìbéèrè tó kọjá',
+  'voice.say.next': 'èyí tó kàn, ìbéèrè tó kàn, fò ó',
+  'voice.say.filler': 'mo, rò, pé, ó, ni, jẹ́, ìdáhùn, mi, bóyá, dájú, ṣé, náà, ẹ̀',
+
+  'voice.example.choose': '"Yan Nigeria àti USA"',
+  'voice.example.period': '"1960" tàbí "Àkókò èyíkéyìí"',
+  'voice.example.count': '"12 ìbéèrè"',
+  'voice.example.start': '"Bẹ̀rẹ̀"',
+  'voice.example.help': '"Ìrànlọ́wọ́"',
+  'voice.example.stopListening': '"Dẹ́kun gbígbọ́"',
+  'voice.example.pause': '"Dánudúró" / "Tẹ̀síwájú"',
+  'voice.example.repeat': '"Tún sọ"',
+  'voice.example.reveal': '"Fi ìdáhùn hàn"',
+  'voice.example.next': '"Èyí tó kàn" / "Ti tẹ́lẹ̀"',
+  'voice.example.exit': '"Kúrò"',
+
+  'play.loading': 'À ń gbé ìdíje rẹ wá...',
+  'play.starting': 'À ń bẹ̀rẹ̀ ìdíje pẹ̀lú ìbéèrè {count}. Múra sílẹ̀ fún ìbéèrè àkọ́kọ́.',
+  'play.finished': 'Ìdíje ti parí. O lè tún un ṣe láti ìbẹ̀rẹ̀ tàbí padà sí àkójọ.',
+  'play.lastQuestion': 'Ìbéèrè tó kẹ́yìn nìyẹn. Ìdíje ti parí.',
+  'play.resuming': 'À ń tẹ̀síwájú',
+  'play.paused': 'A dánudúró',
+  'play.movingOn': 'À ń lọ sí ìbéèrè tó kàn',
+  'play.answerIs': 'Ìdáhùn ni: {answer}',
+  'play.exit': '⬅️ Kúrò Nínú Ìdíje',
+  'play.previous': '⏮️ Ti Tẹ́lẹ̀',
+  'play.resume': '▶️ Tẹ̀síwájú',
+  'play.pause': '⏸️ Dánudúró',
+  'play.repeat': '🔊 Tún Sọ',
+  'play.reveal': '👁️ Fi Ìdáhùn Hàn',
+  'play.next': '⏭️ Èyí Tó Kàn',
+  'play.progress': 'Ìbéèrè {current} nínú {total}',
+  'play.whoGotIt': 'Ta ló mọ̀ ọ́n?',
+  'play.pausedTitle': '⏸️ A dánudúró',
+  'play.sayAnswer': '🗣️ Sọ ìdáhùn rẹ báyìí',
+  'play.correct': 'Ó tọ̀nà!',
+  'play.notQuite': 'Kò tọ̀nà.',
+  'play.spokenCorrect': '🎉 Ó tọ̀nà!',
+  'play.spokenWrong': '❌ Kò tọ̀nà',
+  'play.pageTitle': 'World Trivia TV - À ń Ṣeré',
+  'play.errorTitle': 'World Trivia TV - Àṣìṣe',
+  'play.noTrivia': 'Kò sí ìbéèrè fún àṣàyàn yìí. Jọ̀wọ́ padà sẹ́yìn kí o gbìyànjú àṣàyàn mìíràn.',
+  'play.playlistMissing': 'Àkójọ ìbéèrè yìí kò sí mọ́. Jọ̀wọ́ padà sẹ́yìn kí o yan ìdíje mìíràn.',
+  'play.resumeTitle': 'Ṣé o fẹ́ tẹ̀síwájú láti ibi tí o dé?',
+  'play.resumeOffer': 'O ní ìdíje kan tí o kò parí, tó dúró ní ìbéèrè {current} nínú {total}. Ṣé o fẹ́ tẹ̀síwájú láti ibi tí o dé, tàbí bẹ̀rẹ̀ lákọ̀tun?',
+  'play.resumeRound': '▶️ Tẹ̀síwájú',
+  'play.startOver': '🔄 Bẹ̀rẹ̀ Lákọ̀tun',
+  'play.resumed': 'À ń tẹ̀síwájú ní ìbéèrè {current} nínú {total}.',
+  'play.loadFailed': 'A kò lè gbé ìdíje wá. Jọ̀wọ́ ṣàyẹ̀wò ìsopọ̀ rẹ kí o tún gbìyànjú.',
+  'play.loadFailedSpoken': 'A kò lè gbé ìdíje wá. Jọ̀wọ́ padà sí àkójọ kí o tún gbìyànjú.',
+  'play.goingBack': 'À ń padà sí ìbéèrè tó ṣáájú',
+  'play.restarting': 'À ń tún ìdíje bẹ̀rẹ̀ láti ìbẹ̀rẹ̀',
+  'play.picture': 'Àwòrán: {description}',
+  'play.soundClip': 'Ohùn: {description}',
+  'play.exitAria': 'Kúrò nínú ìdíje',
+  'play.exitConfirm': 'Ṣé o fẹ́ kúrò nínú ìdíje yìí? Ibi tí o dé yóò sọnù.',
+  'play.exitAnyway': '⬅️ Kúrò Nínú Ìdíje',
+  'play.keepPlaying': '▶️ Máa Ṣeré Lọ',
+  'play.keepPlayingSpoken': 'À ń bá ìdíje lọ',
+  'play.mute': 'Pa ohùn',
+  'play.unmute': 'Tan ohùn',
+  'play.narrationSettings': 'Ètò ohùn',
+  'play.difficulty': 'Ìnira: {difficulty}',
+  'play.scoreboard': 'Pátákó Àmì',
+  'play.timerHeld': '🔊 Aago yóò bẹ̀rẹ̀ lẹ́yìn tí a bá ka ìbéèrè tán',
+  'play.secondsLabel': 'ìṣẹ́jú-àáyá',
+  'play.options': 'Àwọn àṣàyàn',
+  'play.correctOption': 'Ìdáhùn tó tọ̀nà',
+  'play.gotItAria': '{team} mọ̀ ọ́n',
+  'play.pointFor': 'Àmì kan fún {team}',
+  'play.pointRemoved': 'A yọ àmì kan kúrò lọ́dọ̀ {team}',
+  'play.nextIn': '⏭️ Ìbéèrè tó kàn ní ìṣẹ́jú-àáyá {count}...',
+  'play.pausedHint': 'Tẹ Tẹ̀síwájú láti máa bá a lọ',
+  'play.shortcuts': '⌨️ Space dánudúró · R tún sọ · → {advance} · Esc kúrò · ↑↓←→ lọ láàrin àwọn bọ́tìnnì',
+  'play.shortcutNext': 'èyí tó kàn',
+  'play.shortcutReveal': 'fi hàn / èyí tó kàn',
+  'play.waitToAnswer': '🗣️ Dáhùn lẹ́yìn tí a bá ka ìbéèrè tán',
+  'play.youSaid': '— o sọ pé "{text}"',
+  'play.remoteConnected': '📱 Rímóòtù ti sopọ̀ · kóòdù {code}',
+  'play.remoteConnectedSpoken': 'Rímóòtù ti sopọ̀',
+  'play.remotePair': '📱 Lo fóònù bí rímóòtù: ṣí {url} kí o tẹ kóòdù',
+  'play.hostPaired': '🤫 Fóònù olùdarí ló ní àmì ìdáhùn',
+  'play.hostWaiting': '🤫 Olùdarí: gba ipò olùdarí lórí rímóòtù fóònù rẹ láti rí ìdáhùn ṣáájú',
+  'play.releaseHost': 'Jẹ́ kí fóònù mìíràn darí',
+
+  'end.complete': 'Ìdíje Ti Parí!',
+  'end.standings': 'Àbájáde Ìkẹyìn',
+  'end.replay': '🔄 Tún Ṣe',
+  'end.backToMenu': '⬅️ Padà sí Àkójọ',
+  'end.finishedTitle': 'World Trivia TV - Ó Ti Parí',
+  'end.summary': 'O ti parí gbogbo ìbéèrè {count} fún {countries}.',
+  'end.spokenScore': '🗣️ {correct} nínú {total} ló tọ̀nà',
+  'end.spokenScoreSpoken': 'O dáhùn {correct} nínú {total} lọ́nà tó tọ̀nà.',
+  'end.standingsTitle': 'World Trivia TV - Àbájáde Ìkẹyìn',
+  'end.outOf': 'Nínú ìbéèrè {count} fún {countries}.',
+  'end.spokenTally': ' Ìdáhùn sókè tó tọ̀nà: {count}.',
+  'end.tie': 'Àbájáde ìkẹyìn. Ẹgbẹ́ tó ju ẹyọ kan lọ dọ́gba ní òkè pẹ̀lú {points}!',
+  'end.winner': 'Àbájáde ìkẹyìn. {team} ló borí pẹ̀lú {points}!',
+  'end.points': 'àmì {count}',
+  'end.onePoint': 'àmì kan',
+
+  'narration.language': 'Èdè',
+  'narration.voice': 'Ohùn',
+  'narration.volume': 'Ariwo',
+
+  'remote.connect': 'Sopọ̀',
+  'remote.disconnect': 'Já Àsopọ̀',
+};
+
+export default yo;
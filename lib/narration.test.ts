@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { cancelNarration, isNarrating, speak } from '@/lib/narration';
+
+// Just enough of the Web Speech API to see what is sent to the speaker and when
+class FakeUtterance {
+  text: string;
+  voice: unknown = null;
+  lang = '';
+  rate = 1;
+  pitch = 1;
+  volume = 1;
+  onstart: (() => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+let spoken: FakeUtterance[] = [];
+let cancels = 0;
+
+Object.assign(globalThis, {
+  window: {
+    speechSynthesis: {
+      speak: (utterance: FakeUtterance) => spoken.push(utterance),
+      cancel: () => {
+        cancels += 1;
+      },
+      getVoices: () => [],
+    },
+  },
+  SpeechSynthesisUtterance: FakeUtterance,
+});
+
+function spokenTexts(): string[] {
+  return spoken.map(utterance => utterance.text);
+}
+
+// Lets the utterance now playing end, as the browser would
+function finishSpeaking() {
+  spoken[spoken.length - 1].onend?.();
+}
+
+function speakAll(): string[] {
+  while (isNarrating()) finishSpeaking();
+  return spokenTexts();
+}
+
+describe('narration priorities', () => {
+  beforeEach(() => {
+    spoken = [];
+    cancels = 0;
+  });
+
+  afterEach(() => {
+    cancelNarration();
+  });
+
+  it('plays normal announcements one after another', () => {
+    speak('Starting the round');
+    speak('Remote control connected');
+    assert.deepEqual(spokenTexts(), ['Starting the round']);
+    assert.deepEqual(speakAll(), ['Starting the round', 'Remote control connected']);
+    assert.equal(cancels, 0);
+  });
+
+  it('lets the current announcement finish before a high priority utterance', () => {
+    speak('Starting the round');
+    speak('What is the capital of Peru?', { priority: 'high' });
+    assert.deepEqual(spokenTexts(), ['Starting the round']);
+    assert.deepEqual(speakAll(), ['Starting the round', 'What is the capital of Peru?']);
+  });
+
+  it('puts high priority utterances ahead of queued announcements, in the order they came', () => {
+    speak('Starting the round');
+    speak('Remote control connected');
+    speak('Question one', { priority: 'high' });
+    speak('Point for the Owls', { priority: 'high' });
+    assert.deepEqual(speakAll(), ['Starting the round', 'Question one', 'Point for the Owls', 'Remote control connected']);
+  });
+
+  it('cuts off what is playing and drops the queue for an interrupt', () => {
+    speak('Starting the round');
+    speak('Question one', { priority: 'high' });
+    speak('Moving on', { priority: 'interrupt' });
+    assert.equal(cancels, 1);
+    assert.deepEqual(speakAll(), ['Starting the round', 'Moving on']);
+  });
+
+  it('ignores the end of an utterance that was cut off', () => {
+    speak('Question one');
+    const cutOff = spoken[0];
+    speak('Moving on', { priority: 'interrupt' });
+    speak('Question two', { priority: 'high' });
+    cutOff.onend?.();
+    assert.deepEqual(spokenTexts(), ['Question one', 'Moving on']);
+    assert.deepEqual(speakAll(), ['Question one', 'Moving on', 'Question two']);
+  });
+
+  it('tells each caller whether its own utterance finished or was cut off', () => {
+    const ends: string[] = [];
+    const track = (name: string) => (completed: boolean) => ends.push(`${name}:${completed}`);
+    speak('Question one', { priority: 'high', onEnd: track('question') });
+    speak('Remote control connected', { onEnd: track('remote') });
+    finishSpeaking();
+    assert.deepEqual(ends, ['question:true']);
+    speak('Moving on', { priority: 'interrupt', onEnd: track('skip') });
+    assert.deepEqual(ends, ['question:true', 'remote:false']);
+    speakAll();
+    assert.deepEqual(ends, ['question:true', 'remote:false', 'skip:true']);
+  });
+
+  it('reports an utterance it cannot play as not completed', () => {
+    const ends: boolean[] = [];
+    speak('   ', { onEnd: completed => ends.push(completed) });
+    assert.deepEqual(ends, [false]);
+    assert.deepEqual(spokenTexts(), []);
+  });
+});
@@ -0,0 +1,182 @@
+import { readStoredObject, writeStoredObject } from '@/lib/browserStorage';
+
+// One speech queue for the whole app, so announcements wait their turn instead of
+// cutting each other off, and every page speaks with the same voice settings.
+
+export interface NarrationSettings {
+  // Chosen SpeechSynthesisVoice, or null for the browser default
+  voiceURI: string | null;
+  // Used when no voice is chosen, and to filter the voice list
+  lang: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+  muted: boolean;
+}
+
+// interrupt: stop whatever is playing and drop the queue (only for skips the user asked for)
+// high: play as soon as the current utterance ends, ahead of queued announcements (questions, answers, replies to the user)
+// normal: play after everything already queued (announcements)
+export type NarrationPriority = 'interrupt' | 'high' | 'normal';
+
+export interface SpeakOptions {
+  priority?: NarrationPriority;
+  onStart?: () => void;
+  // `completed` is false when the utterance was cancelled, skipped or muted
+  onEnd?: (completed: boolean) => void;
+}
+
+interface QueuedUtterance extends SpeakOptions {
+  text: string;
+  priority: NarrationPriority;
+}
+
+export const DEFAULT_NARRATION_SETTINGS: NarrationSettings = {
+  voiceURI: null,
+  lang: 'en-US',
+  rate: 0.85,
+  pitch: 0.9,
+  volume: 1,
+  muted: false,
+};
+
+export const RATE_RANGE = { min: 0.5, max: 1.5, step: 0.05 };
+export const PITCH_RANGE = { min: 0.5, max: 1.5, step: 0.05 };
+
+const SETTINGS_KEY = 'wttv-narration';
+
+let settings: NarrationSettings | null = null;
+let queue: QueuedUtterance[] = [];
+let current: { item: QueuedUtterance; utterance: SpeechSynthesisUtterance } | null = null;
+let watchdog: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<() => void>();
+
+function synth(): SpeechSynthesis | null {
+  return typeof window !== 'undefined' && window.speechSynthesis ? window.speechSynthesis : null;
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+export function getNarrationSettings(): NarrationSettings {
+  if (!settings) settings = readStoredObject(SETTINGS_KEY, DEFAULT_NARRATION_SETTINGS);
+  return settings;
+}
+
+export function updateNarrationSettings(changes: Partial<NarrationSettings>): NarrationSettings {
+  settings = { ...getNarrationSettings(), ...changes };
+  writeStoredObject(SETTINGS_KEY, settings);
+  if (settings.muted) cancelNarration();
+  notify();
+  return settings;
+}
+
+export function availableVoices(): SpeechSynthesisVoice[] {
+  return synth()?.getVoices() || [];
+}
+
+function primaryLanguage(lang: string): string {
+  return lang.split(/[-_]/)[0].toLowerCase();
+}
+
+export function voicesForLanguage(lang: string): SpeechSynthesisVoice[] {
+  return availableVoices().filter(v => primaryLanguage(v.lang) === primaryLanguage(lang));
+}
+
+// Keeps the chosen voice only if it speaks the new language
+export function setNarrationLanguage(lang: string): NarrationSettings {
+  const { voiceURI } = getNarrationSettings();
+  const keepVoice = voicesForLanguage(lang).some(v => v.voiceURI === voiceURI);
+  return updateNarrationSettings({ lang, voiceURI: keepVoice ? voiceURI : null });
+}
+
+// Used when the UI language changes: a variant the user already picked (en-GB for English) is kept
+export function followLocaleLanguage(lang: string): NarrationSettings {
+  const settings = getNarrationSettings();
+  return primaryLanguage(settings.lang) === primaryLanguage(lang) ? settings : setNarrationLanguage(lang);
+}
+
+// Notified when settings change or narration starts or stops
+export function subscribeNarration(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isNarrating(): boolean {
+  return current !== null || queue.length > 0;
+}
+
+function finishCurrent(completed: boolean) {
+  if (!current) return;
+  const { item } = current;
+  current = null;
+  if (watchdog) clearTimeout(watchdog);
+  item.onEnd?.(completed);
+}
+
+function playNext() {
+  const speech = synth();
+  const item = queue.shift();
+  if (!speech || !item) {
+    notify();
+    return;
+  }
+
+  const { voiceURI, lang, rate, pitch, volume } = getNarrationSettings();
+  const utterance = new SpeechSynthesisUtterance(item.text);
+  const voice = voiceURI ? availableVoices().find(v => v.voiceURI === voiceURI) : undefined;
+  if (voice) utterance.voice = voice;
+  utterance.lang = voice ? voice.lang : lang;
+  utterance.rate = rate;
+  utterance.pitch = pitch;
+  utterance.volume = volume;
+
+  // Cancelled utterances also fire onend, so only the one playing may move the queue on
+  const done = (completed: boolean) => {
+    if (!current || current.utterance !== utterance) return;
+    finishCurrent(completed);
+    playNext();
+  };
+  utterance.onstart = () => item.onStart?.();
+  utterance.onend = () => done(true);
+  utterance.onerror = () => done(false);
+
+  current = { item, utterance };
+  // Some browsers never fire onend for long utterances; don't hold the queue forever
+  watchdog = setTimeout(() => done(true), 5000 + item.text.length * 120);
+  notify();
+  speech.speak(utterance);
+}
+
+export function speak(text: string, options: SpeakOptions = {}): void {
+  const { priority = 'normal' } = options;
+  if (!synth() || getNarrationSettings().muted || !text.trim()) {
+    options.onEnd?.(false);
+    return;
+  }
+
+  const item: QueuedUtterance = { ...options, text, priority };
+  if (priority === 'interrupt') {
+    cancelNarration();
+    queue = [item];
+  } else if (priority === 'high') {
+    const firstNormal = queue.findIndex(queued => queued.priority !== 'high');
+    queue.splice(firstNormal === -1 ? queue.length : firstNormal, 0, item);
+  } else {
+    queue.push(item);
+  }
+  if (!current) playNext();
+}
+
+export function cancelNarration(): void {
+  const dropped = queue;
+  queue = [];
+  const wasPlaying = current !== null;
+  finishCurrent(false);
+  dropped.forEach(item => item.onEnd?.(false));
+  synth()?.cancel();
+  if (wasPlaying || dropped.length > 0) notify();
+}
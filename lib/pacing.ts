@@ -0,0 +1,41 @@
+export type PacingPreset = 'relaxed' | 'standard' | 'quick';
+
+export interface Pacing {
+  questionSeconds: number;
+  answerSeconds: number;
+  // Hold the countdown until narration of the question or answer has finished
+  waitForSpeech: boolean;
+}
+
+export const PACING_PRESETS: Record<PacingPreset, { label: string; questionSeconds: number; answerSeconds: number }> = {
+  relaxed: { label: 'Relaxed', questionSeconds: 20, answerSeconds: 12 },
+  standard: { label: 'Standard', questionSeconds: 8, answerSeconds: 6 },
+  quick: { label: 'Quick', questionSeconds: 5, answerSeconds: 4 },
+};
+
+export const MIN_SECONDS = 3;
+export const MAX_SECONDS = 60;
+
+export const DEFAULT_PACING: Pacing = {
+  questionSeconds: PACING_PRESETS.standard.questionSeconds,
+  answerSeconds: PACING_PRESETS.standard.answerSeconds,
+  waitForSpeech: false,
+};
+
+export function clampSeconds(seconds: number): number {
+  return Math.min(MAX_SECONDS, Math.max(MIN_SECONDS, Math.round(seconds)));
+}
+
+export function pacingFromPreset(preset: PacingPreset, waitForSpeech: boolean): Pacing {
+  const { questionSeconds, answerSeconds } = PACING_PRESETS[preset];
+  return { questionSeconds, answerSeconds, waitForSpeech };
+}
+
+// The preset matching these timings, or null for custom values
+export function matchPreset(pacing: Pacing): PacingPreset | null {
+  const presets = Object.keys(PACING_PRESETS) as PacingPreset[];
+  return presets.find(preset =>
+    PACING_PRESETS[preset].questionSeconds === pacing.questionSeconds &&
+    PACING_PRESETS[preset].answerSeconds === pacing.answerSeconds
+  ) || null;
+}
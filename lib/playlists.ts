@@ -0,0 +1,119 @@
+import { normalizeName } from '@/lib/presets';
+import { readStore, updateStore } from '@/lib/store';
+import { slugify, uniqueSlug } from '@/lib/text';
+
+const STORE_NAME = 'playlists';
+
+export const MAX_PLAYLIST_LENGTH = 100;
+
+// A curated round: these questions, in this order, whatever the home-page filters say.
+// Questions are referred to by id; one deleted later is skipped when the playlist plays.
+export interface Playlist {
+  id: string;
+  name: string;
+  description?: string;
+  questionIds: string[];
+  updatedAt: number;
+}
+
+// What the home page lists
+export interface PlaylistSummary {
+  id: string;
+  name: string;
+  description?: string;
+  count: number;
+}
+
+export class PlaylistValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlaylistValidationError';
+  }
+}
+
+interface PlaylistInput {
+  name: string;
+  description?: string;
+  questionIds: string[];
+}
+
+// Checks a playlist sent by /admin; bankIds are the ids of every question in the bank
+function checkPlaylist(raw: unknown, bankIds: Set<string>): PlaylistInput {
+  const body = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const name = normalizeName(body.name);
+  if (!name) throw new PlaylistValidationError('A playlist needs a name');
+  const { questionIds } = body;
+  if (!Array.isArray(questionIds) || questionIds.length === 0 || !questionIds.every(id => typeof id === 'string')) {
+    throw new PlaylistValidationError('A playlist needs at least one question');
+  }
+  if (questionIds.length > MAX_PLAYLIST_LENGTH) {
+    throw new PlaylistValidationError(`A playlist can have at most ${MAX_PLAYLIST_LENGTH} questions`);
+  }
+  if (new Set(questionIds).size !== questionIds.length) {
+    throw new PlaylistValidationError('A question appears in the playlist more than once');
+  }
+  const unknown = questionIds.filter(id => !bankIds.has(id));
+  if (unknown.length > 0) {
+    throw new PlaylistValidationError(`Unknown questions: ${unknown.join(', ')}`);
+  }
+  const description = typeof body.description === 'string' ? body.description.trim() : '';
+  return { name, questionIds, ...(description ? { description } : {}) };
+}
+
+// Playlists saved before questions had ids listed their keys, which the id migration kept as ids
+async function readPlaylists(): Promise<Playlist[]> {
+  const playlists = await readStore<(Playlist & { keys?: string[] })[]>(STORE_NAME, []);
+  return playlists.map(({ keys, ...playlist }) => (keys ? { ...playlist, questionIds: keys } : playlist));
+}
+
+export function summarizePlaylist({ id, name, description, questionIds }: Playlist): PlaylistSummary {
+  return { id, name, ...(description ? { description } : {}), count: questionIds.length };
+}
+
+export async function listPlaylists(): Promise<Playlist[]> {
+  const playlists = await readPlaylists();
+  return [...playlists].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getPlaylist(id: string): Promise<Playlist | null> {
+  const playlists = await readPlaylists();
+  return playlists.find(playlist => playlist.id === id) || null;
+}
+
+export async function createPlaylist(raw: unknown, bankIds: Set<string>, updatedAt: number = Date.now()): Promise<Playlist> {
+  const input = checkPlaylist(raw, bankIds);
+  let playlist: Playlist | null = null;
+  await updateStore<Playlist[]>(STORE_NAME, [], playlists => {
+    const id = uniqueSlug(slugify(input.name, 'playlist'), candidate => playlists.some(other => other.id === candidate));
+    playlist = { id, ...input, updatedAt };
+    return [...playlists, playlist];
+  });
+  return playlist!;
+}
+
+// The id stays the same when the name changes, so shared links keep working. Null when there is no such playlist.
+export async function updatePlaylist(
+  id: string,
+  raw: unknown,
+  bankIds: Set<string>,
+  updatedAt: number = Date.now()
+): Promise<Playlist | null> {
+  const input = checkPlaylist(raw, bankIds);
+  let playlist: Playlist | null = null;
+  await updateStore<Playlist[]>(STORE_NAME, [], playlists => playlists.map(existing => {
+    if (existing.id !== id) return existing;
+    playlist = { id, ...input, updatedAt };
+    return playlist;
+  }));
+  return playlist;
+}
+
+// False when there was no such playlist
+export async function deletePlaylist(id: string): Promise<boolean> {
+  let found = false;
+  await updateStore<Playlist[]>(STORE_NAME, [], playlists => {
+    found = playlists.some(playlist => playlist.id === id);
+    return playlists.filter(playlist => playlist.id !== id);
+  });
+  return found;
+}
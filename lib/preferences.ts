@@ -0,0 +1,51 @@
+import { readStoredObject, writeStoredObject } from '@/lib/browserStorage';
+import { DEFAULT_LOCALE, isLocale, Locale, matchLocale } from '@/lib/i18n';
+
+export type TextScale = 'normal' | 'large' | 'extra-large';
+
+export const TEXT_SCALES: TextScale[] = ['normal', 'large', 'extra-large'];
+
+export interface DisplayPreferences {
+  locale: Locale;
+  highContrast: boolean;
+  textScale: TextScale;
+  // Turns off framer-motion movement and CSS transitions
+  reducedMotion: boolean;
+  dyslexiaFont: boolean;
+  // Swaps red/green signals for blue/orange
+  colorBlindPalette: boolean;
+}
+
+export const DEFAULT_PREFERENCES: DisplayPreferences = {
+  locale: DEFAULT_LOCALE,
+  highContrast: false,
+  textScale: 'normal',
+  reducedMotion: false,
+  dyslexiaFont: false,
+  colorBlindPalette: false,
+};
+
+const PREFERENCES_KEY = 'wttv-display';
+
+function mediaMatches(query: string): boolean {
+  return typeof window !== 'undefined' && !!window.matchMedia && window.matchMedia(query).matches;
+}
+
+// Saved preferences, or on a first visit whatever the browser and operating system ask for
+export function loadPreferences(): DisplayPreferences {
+  const preferences = readStoredObject(PREFERENCES_KEY, {
+    ...DEFAULT_PREFERENCES,
+    locale: typeof navigator !== 'undefined' ? matchLocale(navigator.languages || [navigator.language]) : DEFAULT_LOCALE,
+    highContrast: mediaMatches('(prefers-contrast: more)'),
+    reducedMotion: mediaMatches('(prefers-reduced-motion: reduce)'),
+  });
+  return isLocale(preferences.locale) ? preferences : { ...preferences, locale: DEFAULT_LOCALE };
+}
+
+export function savePreferences(preferences: DisplayPreferences): void {
+  writeStoredObject(PREFERENCES_KEY, preferences);
+}
+
+export function nextTextScale(scale: TextScale): TextScale {
+  return TEXT_SCALES[(TEXT_SCALES.indexOf(scale) + 1) % TEXT_SCALES.length];
+}
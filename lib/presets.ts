@@ -0,0 +1,108 @@
+import { parseRoundQuery, roundConfigToQuery } from '@/lib/roundConfig';
+import { readStore, updateStore } from '@/lib/store';
+import { slugify, uniqueSlug } from '@/lib/text';
+
+const STORE_NAME = 'presets';
+
+export const MAX_NAME_LENGTH = 80;
+
+// A saved home-page selection, listed for everyone using this server.
+// The query has no seed, so every start picks a fresh round.
+export interface RoundPreset {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: number;
+  // Device id of whoever saved it, the only one besides an admin who may delete it.
+  // Never sent to clients; presets saved before owners were kept have none.
+  owner?: string;
+}
+
+// What the home page is sent: whether this device saved the preset instead of who did
+export interface PresetSummary {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: number;
+  mine: boolean;
+}
+
+export class PresetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetValidationError';
+  }
+}
+
+export class PresetOwnerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetOwnerError';
+  }
+}
+
+export function normalizeName(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const name = raw.trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH);
+  return name || null;
+}
+
+// Round settings as /play reads them, rewritten in canonical form and without a seed
+export function presetQuery(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const config = parseRoundQuery(raw);
+  if (!config || config.countries.length === 0) return null;
+  return roundConfigToQuery({ ...config, seed: undefined });
+}
+
+export function normalizeOwner(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const owner = raw.trim().slice(0, 80);
+  return owner || null;
+}
+
+export function summarizePreset({ id, name, query, createdAt, owner }: RoundPreset, viewer: string | null): PresetSummary {
+  return { id, name, query, createdAt, mine: !!owner && owner === viewer };
+}
+
+export async function listPresets(): Promise<RoundPreset[]> {
+  const presets = await readStore<RoundPreset[]>(STORE_NAME, []);
+  return [...presets].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function createPreset(
+  rawName: unknown,
+  rawQuery: unknown,
+  rawOwner: unknown,
+  createdAt: number = Date.now()
+): Promise<RoundPreset> {
+  const name = normalizeName(rawName);
+  if (!name) throw new PresetValidationError('A preset needs a name');
+  const query = presetQuery(rawQuery);
+  if (!query) throw new PresetValidationError('A preset needs round settings with countries and a period');
+  const owner = normalizeOwner(rawOwner);
+  if (!owner) throw new PresetValidationError('A preset needs the owner that saved it');
+
+  let preset: RoundPreset | null = null;
+  await updateStore<RoundPreset[]>(STORE_NAME, [], presets => {
+    const id = uniqueSlug(slugify(name, 'preset'), candidate => presets.some(other => other.id === candidate));
+    preset = { id, name, query, createdAt, owner };
+    return [...presets, preset];
+  });
+  return preset!;
+}
+
+// False when there was no such preset. With an owner, throws PresetOwnerError unless that
+// owner saved it; an admin deletes without one.
+export async function deletePreset(id: string, owner?: string): Promise<boolean> {
+  let found = false;
+  await updateStore<RoundPreset[]>(STORE_NAME, [], presets => {
+    const preset = presets.find(other => other.id === id);
+    found = !!preset;
+    if (preset && owner !== undefined && preset.owner !== owner) {
+      throw new PresetOwnerError('Only the device that saved this preset can delete it');
+    }
+    return presets.filter(other => other.id !== id);
+  });
+  return found;
+}
@@ -0,0 +1,45 @@
+import { browserStorage } from '@/lib/browserStorage';
+
+// Client-side identity for play history: a named group if one is set, otherwise this device
+
+const DEVICE_KEY = 'wttv-device-id';
+const GROUP_KEY = 'wttv-group-name';
+
+// Used when storage can't keep the id, so it at least stays the same for this visit
+let memoryDeviceId: string | null = null;
+
+export function getDeviceId(): string {
+  const store = browserStorage();
+  const stored = store?.getItem(DEVICE_KEY);
+  if (stored) return stored;
+  if (!memoryDeviceId) memoryDeviceId = Math.random().toString(36).slice(2, 12);
+  try {
+    store?.setItem(DEVICE_KEY, memoryDeviceId);
+  } catch (error) {
+    // Storage full or blocked (private mode); the in-memory id lasts until the page reloads
+  }
+  return memoryDeviceId;
+}
+
+export function getGroupName(): string {
+  return browserStorage()?.getItem(GROUP_KEY) || '';
+}
+
+export function setGroupName(name: string): void {
+  const store = browserStorage();
+  if (!store) return;
+  try {
+    if (name.trim()) {
+      store.setItem(GROUP_KEY, name.trim());
+    } else {
+      store.removeItem(GROUP_KEY);
+    }
+  } catch (error) {
+    // Storage full or blocked; the group name isn't kept
+  }
+}
+
+export function currentProfile(): string {
+  const group = getGroupName();
+  return group ? `group:${group}` : `device:${getDeviceId()}`;
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_SEED_LENGTH, parseList, parsePeriod, parseSeed, parseYear } from '@/lib/queryParams';
+
+describe('parseList', () => {
+  it('splits a comma-separated list and drops blanks', () => {
+    assert.deepEqual(parseList('USA, Nigeria,,'), ['USA', 'Nigeria']);
+    assert.equal(parseList(undefined), undefined);
+    assert.equal(parseList(''), undefined);
+  });
+
+  it('joins a repeated parameter instead of failing', () => {
+    // ?countries=USA&countries=Nigeria
+    assert.deepEqual(parseList(['USA', 'Nigeria']), ['USA', 'Nigeria']);
+    assert.deepEqual(parseList(['music,film-tv', 'sports']), ['music', 'film-tv', 'sports']);
+  });
+});
+
+describe('parsePeriod', () => {
+  it('reads a known period, with any period left open', () => {
+    assert.equal(parsePeriod('1960-1979'), '1960-1979');
+    assert.equal(parsePeriod('any'), undefined);
+    assert.equal(parsePeriod('Any Time'), undefined);
+    assert.equal(parsePeriod(undefined), undefined);
+  });
+
+  it('rejects a repeated or unknown period', () => {
+    // ?period=any&period=x
+    assert.equal(parsePeriod(['any', 'x']), null);
+    assert.equal(parsePeriod('1961-1979'), null);
+  });
+});
+
+describe('parseSeed and parseYear', () => {
+  it('take a single value only', () => {
+    assert.equal(parseSeed('42'), '42');
+    assert.equal(parseSeed(['42', '43']), null);
+    assert.equal(parseSeed('x'.repeat(MAX_SEED_LENGTH + 1)), null);
+    assert.equal(parseYear('1969'), 1969);
+    assert.equal(parseYear(['1969', '1970']), null);
+    assert.equal(parseYear('69'), null);
+  });
+});
@@ -0,0 +1,32 @@
+import { PERIODS } from '@/lib/trivia';
+
+// Reading /api/trivia's query. A parameter given more than once arrives as an array;
+// only lists accept that, and the others report it as bad input rather than guess.
+
+export const MAX_SEED_LENGTH = 100;
+
+// undefined when absent, null when not a year
+export function parseYear(value: string | string[] | undefined): number | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  return typeof value === 'string' && /^\d{4}$/.test(value) ? parseInt(value, 10) : null;
+}
+
+// undefined when absent, null when repeated or too long to be a seed
+export function parseSeed(value: string | string[] | undefined): string | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  return typeof value === 'string' && value.length <= MAX_SEED_LENGTH ? value : null;
+}
+
+// undefined for any period, null when repeated or not a known period
+export function parsePeriod(value: string | string[] | undefined): string | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  if (['any', 'any time'].includes(value.toLowerCase())) return undefined;
+  return PERIODS.includes(value) ? value : null;
+}
+
+// undefined when absent; a comma-separated list otherwise, with repeated parameters joined
+export function parseList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined || value === '') return undefined;
+  return ([] as string[]).concat(value).join(',').split(',').map(entry => entry.trim()).filter(Boolean);
+}
@@ -0,0 +1,40 @@
+export type Rng = () => number;
+
+// mulberry32: small, fast and good enough to make shuffles reproducible from a seed
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function hashSeed(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export function randomSeed(): string {
+  return String(Math.floor(Math.random() * 1e9));
+}
+
+// Numeric seeds are used as-is so short codes stay readable; anything else is hashed
+export function seedToNumber(seed: string): number {
+  return /^\d+$/.test(seed) ? Number(seed) % 4294967296 : hashSeed(seed);
+}
+
+export function shuffle<T>(array: T[], rng: Rng = Math.random): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
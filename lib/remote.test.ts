@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { claimHost, createRoom, getRoom, MAX_ROOMS, readStatus, releaseHost, RemoteStatus, updateStatus } from '@/lib/remote';
+
+const status: RemoteStatus = {
+  state: 'playing', index: 0, total: 10, question: 'Which river runs through Lagos?', answer: 'Ogun', showAnswer: false, paused: false, host: true,
+};
+
+describe('remote rooms', () => {
+  it('makes way for new rooms once every slot is taken instead of searching for a free code forever', () => {
+    const first = createRoom(1000);
+    for (let i = 1; i < MAX_ROOMS; i++) createRoom(1000 + i);
+    assert.ok(getRoom(first.code));
+    const newest = createRoom(1000 + MAX_ROOMS);
+    assert.equal(getRoom(first.code), undefined);
+    assert.ok(getRoom(newest.code));
+  });
+
+  it('gives the answer before the reveal only to the phone that took the host role', () => {
+    const room = getRoom(createRoom().code)!;
+    updateStatus(room, status);
+    assert.equal(readStatus(room, undefined).status?.answer, undefined);
+
+    const hostKey = claimHost(room);
+    assert.ok(hostKey);
+    assert.equal(claimHost(room), null);
+    assert.equal(readStatus(room, hostKey).status?.answer, 'Ogun');
+    assert.equal(readStatus(room, 'guess').status?.answer, undefined);
+
+    releaseHost(room);
+    assert.equal(readStatus(room, hostKey).status?.answer, undefined);
+    updateStatus(room, { ...status, showAnswer: true });
+    assert.equal(readStatus(room, undefined).status?.answer, 'Ogun');
+  });
+});
@@ -0,0 +1,165 @@
+import { randomBytes } from 'crypto';
+
+// Pairing between a TV play screen and phone remotes. Rooms live in server memory,
+// so remote control needs the app to run as a single long-lived server process.
+
+export const REMOTE_COMMANDS = ['pause', 'resume', 'next', 'previous', 'repeat', 'reveal'] as const;
+export type RemoteCommand = typeof REMOTE_COMMANDS[number];
+
+export interface QueuedCommand {
+  seq: number;
+  command: RemoteCommand;
+}
+
+// What the TV reports about the round so remotes can show matching controls
+export interface RemoteStatus {
+  state: 'loading' | 'playing' | 'ended';
+  index: number;
+  total: number;
+  question?: string;
+  // Only given to the host's phone until the reveal
+  answer?: string;
+  showAnswer: boolean;
+  paused: boolean;
+  host: boolean;
+}
+
+interface Room {
+  code: string;
+  // Proves a request comes from the TV that opened the room
+  tvKey: string;
+  // Held by the phone that took the host role, if any
+  hostKey: string | null;
+  commands: QueuedCommand[];
+  nextSeq: number;
+  status: RemoteStatus | null;
+  lastTvSeen: number;
+  lastRemoteSeen: number;
+}
+
+// A side counts as connected if it polled within this window
+export const PRESENCE_TIMEOUT_MS = 5000;
+const ROOM_EXPIRY_MS = 6 * 60 * 60 * 1000;
+const MAX_QUEUED_COMMANDS = 50;
+// Well under the number of codes, so a free one is found quickly; the least recently used room makes way
+export const MAX_ROOMS = 1000;
+// No I or O so codes can't be confused with 1 and 0
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const CODE_LENGTH = 4;
+
+// Kept on globalThis so rooms survive module reloads in development
+const globalRooms = globalThis as typeof globalThis & { __remoteRooms?: Map<string, Room> };
+const rooms: Map<string, Room> = globalRooms.__remoteRooms || (globalRooms.__remoteRooms = new Map());
+
+export function isRemoteCommand(value: unknown): value is RemoteCommand {
+  return typeof value === 'string' && (REMOTE_COMMANDS as readonly string[]).includes(value);
+}
+
+export function normalizeRoomCode(raw: unknown): string {
+  return typeof raw === 'string' ? raw.trim().toUpperCase() : '';
+}
+
+function lastSeen(room: Room): number {
+  return Math.max(room.lastTvSeen, room.lastRemoteSeen);
+}
+
+function pruneRooms(now: number) {
+  rooms.forEach((room, code) => {
+    if (now - lastSeen(room) > ROOM_EXPIRY_MS) {
+      rooms.delete(code);
+    }
+  });
+}
+
+function generateKey(): string {
+  return randomBytes(16).toString('hex');
+}
+
+function generateCode(): string {
+  let code = '';
+  do {
+    code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_LETTERS[Math.floor(Math.random() * CODE_LETTERS.length)];
+    }
+  } while (rooms.has(code));
+  return code;
+}
+
+function evictOldestRoom() {
+  let oldest: Room | undefined;
+  rooms.forEach(room => {
+    if (!oldest || lastSeen(room) < lastSeen(oldest)) oldest = room;
+  });
+  if (oldest) rooms.delete(oldest.code);
+}
+
+export function createRoom(now: number = Date.now()): { code: string; tvKey: string } {
+  pruneRooms(now);
+  while (rooms.size >= MAX_ROOMS) evictOldestRoom();
+  const code = generateCode();
+  const tvKey = generateKey();
+  rooms.set(code, { code, tvKey, hostKey: null, commands: [], nextSeq: 1, status: null, lastTvSeen: now, lastRemoteSeen: 0 });
+  return { code, tvKey };
+}
+
+export function getRoom(code: string): Room | undefined {
+  return rooms.get(code);
+}
+
+export function queueCommand(room: Room, command: RemoteCommand, now: number = Date.now()): QueuedCommand {
+  const queued = { seq: room.nextSeq, command };
+  room.nextSeq += 1;
+  room.commands = [...room.commands, queued].slice(-MAX_QUEUED_COMMANDS);
+  room.lastRemoteSeen = now;
+  return queued;
+}
+
+// TV side: commands after `since`, whether a remote is around and whether a phone is the host
+export function pollCommands(room: Room, since: number, now: number = Date.now()) {
+  room.lastTvSeen = now;
+  return {
+    commands: room.commands.filter(c => c.seq > since),
+    remoteConnected: now - room.lastRemoteSeen < PRESENCE_TIMEOUT_MS,
+    hostPaired: room.hostKey !== null,
+  };
+}
+
+export function isTvKey(room: Room, key: unknown): boolean {
+  return typeof key === 'string' && key === room.tvKey;
+}
+
+function isHostKey(room: Room, key: unknown): boolean {
+  return room.hostKey !== null && typeof key === 'string' && key === room.hostKey;
+}
+
+// The first phone to ask becomes the host; null when another phone already is
+export function claimHost(room: Room): string | null {
+  if (room.hostKey) return null;
+  room.hostKey = generateKey();
+  return room.hostKey;
+}
+
+// From the TV, so the host can move to another phone or take the role back from a player
+export function releaseHost(room: Room) {
+  room.hostKey = null;
+}
+
+export function updateStatus(room: Room, status: RemoteStatus, now: number = Date.now()) {
+  room.status = status;
+  room.lastTvSeen = now;
+}
+
+// Remote side: the latest TV status, and whether the TV is still polling.
+// The answer is kept from every phone but the host's until it is revealed.
+export function readStatus(room: Room, hostKey: unknown, now: number = Date.now()) {
+  room.lastRemoteSeen = now;
+  const isHost = isHostKey(room, hostKey);
+  const { status } = room;
+  return {
+    status: status && !status.showAnswer && !isHost ? { ...status, answer: undefined } : status,
+    tvConnected: now - room.lastTvSeen < PRESENCE_TIMEOUT_MS,
+    hostPaired: room.hostKey !== null,
+    isHost,
+  };
+}
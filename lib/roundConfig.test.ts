@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_PACING, MAX_SECONDS } from '@/lib/pacing';
+import { DEFAULT_QUESTION_COUNT, parseRoundConfig, parseRoundQuery, RoundConfig, roundConfigToQuery } from '@/lib/roundConfig';
+
+const config: RoundConfig = {
+  countries: ['Nigeria', 'USA'],
+  period: '1960-1979',
+  years: { fromYear: 1965, toYear: 1969 },
+  categories: ['music', 'film-tv'],
+  difficulty: 'hard',
+  adaptive: true,
+  count: 12,
+  mode: 'choice',
+  seed: '42',
+  pacing: { questionSeconds: 20, answerSeconds: 12, waitForSpeech: true },
+  host: true,
+  teams: ['Owls', 'Foxes'],
+  voice: true,
+  spokenAnswers: true,
+};
+
+describe('roundConfigToQuery and parseRoundQuery', () => {
+  it('carry every setting through the query string', () => {
+    assert.deepEqual(parseRoundQuery(roundConfigToQuery(config)), config);
+  });
+
+  it('leave defaults out of the query', () => {
+    const query = roundConfigToQuery({ ...config, years: undefined, categories: undefined, difficulty: undefined, adaptive: false,
+      mode: 'open', seed: undefined, pacing: DEFAULT_PACING, host: false, teams: [], voice: false, spokenAnswers: false });
+    assert.equal(query, 'countries=Nigeria%2CUSA&period=1960-1979&count=12');
+  });
+
+  it('keep only the questions and play settings for an ids link', () => {
+    const query = roundConfigToQuery({ ...config, ids: ['abc', 'def'] });
+    assert.equal(new URLSearchParams(query).get('countries'), null);
+    const parsed = parseRoundQuery(query)!;
+    assert.deepEqual(parsed.ids, ['abc', 'def']);
+    assert.equal(parsed.adaptive, false);
+    assert.equal(parsed.seed, '42');
+    assert.deepEqual(parsed.teams, ['Owls', 'Foxes']);
+  });
+});
+
+describe('parseRoundConfig', () => {
+  it('needs countries and a period unless the questions are fixed', () => {
+    assert.equal(parseRoundConfig({ countries: 'USA' }), null);
+    assert.equal(parseRoundConfig({ period: 'any' }), null);
+    assert.equal(parseRoundConfig({ playlist: 'tuesday-group' })!.playlist, 'tuesday-group');
+  });
+
+  it('falls back to defaults for values it cannot use', () => {
+    const parsed = parseRoundConfig({
+      countries: 'USA,Nigeria', period: 'any', count: 'lots', difficulty: 'impossible', fromYear: '1970', toYear: '1960',
+      questionTime: '600', answerTime: '-1', mode: 'quiz',
+    })!;
+    assert.equal(parsed.count, DEFAULT_QUESTION_COUNT);
+    assert.equal(parsed.difficulty, undefined);
+    assert.equal(parsed.years, undefined);
+    assert.equal(parsed.pacing.questionSeconds, MAX_SECONDS);
+    assert.equal(parsed.pacing.answerSeconds, DEFAULT_PACING.answerSeconds);
+    assert.equal(parsed.mode, 'open');
+  });
+
+  it('takes the first of a repeated setting and keeps every team once', () => {
+    const parsed = parseRoundConfig({ countries: 'USA,Nigeria', period: ['any', '1960-1979'], team: ['Owls', 'owls', 'Foxes'] })!;
+    assert.equal(parsed.period, 'any');
+    assert.deepEqual(parsed.teams, ['Owls', 'Foxes']);
+  });
+});
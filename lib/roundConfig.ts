@@ -0,0 +1,155 @@
+import type { ParsedUrlQuery } from 'querystring';
+import { clampSeconds, DEFAULT_PACING, Pacing } from '@/lib/pacing';
+import { normalizeTeamNames } from '@/lib/scoring';
+import { Difficulty, isDifficulty, YearRange } from '@/lib/trivia';
+
+export type QuestionMode = 'open' | 'choice';
+
+export const DEFAULT_QUESTION_COUNT = 10;
+
+// Everything the home page hands to /play, carried in the query string
+export interface RoundConfig {
+  // Plays a saved playlist's questions in order; the selection fields below are then unused
+  playlist?: string;
+  // Plays these questions in order, as a link to a round already played does; the selection fields are unused
+  ids?: string[];
+  countries: string[];
+  // Either a period such as "1960-1979" or "any"
+  period: string;
+  // Narrows the round to questions about these years, such as a decade
+  years?: YearRange;
+  // Only questions in these categories; every question when absent
+  categories?: string[];
+  // Only questions of this difficulty; every difficulty when absent
+  difficulty?: Difficulty;
+  // Later questions get easier or harder with how the room is doing; needs teams or spoken answers
+  adaptive: boolean;
+  count: number;
+  mode: QuestionMode;
+  // Reproduces the exact same selection and order of questions
+  seed?: string;
+  pacing: Pacing;
+  // Facilitated play: no timer, the host reveals answers and moves on
+  host: boolean;
+  // Optional team names for scoring; empty for casual play
+  teams: string[];
+  // Keep listening for voice commands during the round
+  voice: boolean;
+  // Players say their answer aloud and it is checked against the answer
+  spokenAnswers: boolean;
+}
+
+function single(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function roundConfigToQuery(config: RoundConfig): string {
+  const params = new URLSearchParams();
+  if (config.playlist) {
+    params.set('playlist', config.playlist);
+  } else if (config.ids) {
+    params.set('ids', config.ids.join(','));
+  } else {
+    params.set('countries', config.countries.join(','));
+    params.set('period', config.period);
+    if (config.years) {
+      params.set('fromYear', String(config.years.fromYear));
+      params.set('toYear', String(config.years.toYear));
+    }
+    if (config.categories) params.set('categories', config.categories.join(','));
+    if (config.difficulty) params.set('difficulty', config.difficulty);
+    if (config.adaptive) params.set('adaptive', '1');
+    params.set('count', String(config.count));
+  }
+  if (config.mode !== 'open') params.set('mode', config.mode);
+  if (config.seed) params.set('seed', config.seed);
+  if (config.pacing.questionSeconds !== DEFAULT_PACING.questionSeconds) {
+    params.set('questionTime', String(config.pacing.questionSeconds));
+  }
+  if (config.pacing.answerSeconds !== DEFAULT_PACING.answerSeconds) {
+    params.set('answerTime', String(config.pacing.answerSeconds));
+  }
+  if (config.pacing.waitForSpeech) params.set('waitForSpeech', '1');
+  if (config.host) params.set('host', '1');
+  config.teams.forEach(team => params.append('team', team));
+  if (config.voice) params.set('voice', '1');
+  if (config.spokenAnswers) params.set('spokenAnswers', '1');
+  return params.toString();
+}
+
+function parseYears(fromYear: string | undefined, toYear: string | undefined): YearRange | undefined {
+  const from = parseInt(fromYear || '', 10);
+  const to = parseInt(toYear || '', 10);
+  return from > 0 && to >= from ? { fromYear: from, toYear: to } : undefined;
+}
+
+function parseSeconds(value: string | undefined, fallback: number): number {
+  const seconds = parseInt(value || '', 10);
+  return seconds > 0 ? clampSeconds(seconds) : fallback;
+}
+
+// How the round is played, whatever its questions
+type PlaySettings = Pick<RoundConfig, 'mode' | 'seed' | 'pacing' | 'host' | 'teams' | 'voice' | 'spokenAnswers'>;
+
+function playSettings(query: ParsedUrlQuery): PlaySettings {
+  return {
+    mode: single(query.mode) === 'choice' ? 'choice' : 'open',
+    seed: single(query.seed),
+    pacing: {
+      questionSeconds: parseSeconds(single(query.questionTime), DEFAULT_PACING.questionSeconds),
+      answerSeconds: parseSeconds(single(query.answerTime), DEFAULT_PACING.answerSeconds),
+      waitForSpeech: single(query.waitForSpeech) === '1',
+    },
+    host: single(query.host) === '1',
+    teams: normalizeTeamNames(([] as string[]).concat(query.team || [])),
+    voice: single(query.voice) === '1',
+    spokenAnswers: single(query.spokenAnswers) === '1',
+  };
+}
+
+// A playlist or list of ids fixes the questions and their order, so only the play settings are read
+function fixedConfig(questions: Pick<RoundConfig, 'playlist' | 'ids'>, query: ParsedUrlQuery): RoundConfig {
+  return {
+    ...playSettings(query),
+    ...questions,
+    countries: [],
+    period: 'any',
+    adaptive: false,
+    count: DEFAULT_QUESTION_COUNT,
+  };
+}
+
+export function parseRoundConfig(query: ParsedUrlQuery): RoundConfig | null {
+  const playlist = single(query.playlist);
+  if (playlist) return fixedConfig({ playlist }, query);
+  const ids = (single(query.ids) || '').split(',').filter(Boolean);
+  if (ids.length > 0) return fixedConfig({ ids }, query);
+
+  const countries = single(query.countries);
+  const period = single(query.period);
+  if (!countries || !period) return null;
+
+  const count = parseInt(single(query.count) || '', 10);
+  const categories = single(query.categories);
+  const difficulty = single(query.difficulty);
+  return {
+    ...playSettings(query),
+    countries: countries.split(',').filter(Boolean),
+    period,
+    years: parseYears(single(query.fromYear), single(query.toYear)),
+    categories: categories ? categories.split(',').filter(Boolean) : undefined,
+    difficulty: isDifficulty(difficulty) ? difficulty : undefined,
+    adaptive: single(query.adaptive) === '1',
+    count: count > 0 ? count : DEFAULT_QUESTION_COUNT,
+  };
+}
+
+// The same, from a query string such as a saved preset's; repeated keys like team are kept
+export function parseRoundQuery(text: string): RoundConfig | null {
+  const query: ParsedUrlQuery = {};
+  new URLSearchParams(text).forEach((value, key) => {
+    const previous = query[key];
+    query[key] = previous === undefined ? value : ([] as string[]).concat(previous, value);
+  });
+  return parseRoundConfig(query);
+}
@@ -0,0 +1,46 @@
+import { browserStorage, readStoredObject, writeStoredObject } from '@/lib/browserStorage';
+import type { Tally } from '@/lib/scoring';
+import type { RoundItem } from '@/lib/trivia';
+
+const SAVED_ROUND_KEY = 'wttv-round';
+
+// An unfinished round older than this isn't offered again
+export const SAVED_ROUND_MAX_AGE = 12 * 60 * 60 * 1000;
+
+export interface SpokenResult {
+  heard: string;
+  correct: boolean;
+}
+
+// Where an unfinished round had got to on this device, so a reload or a mistaken exit can pick it up again
+export interface SavedRound {
+  // The /play query that plays these questions, as the address shows it once the round has loaded
+  link: string;
+  items: RoundItem[];
+  // Whether the round adapts its difficulty, and the spare questions it can still swap in.
+  // The link only fixes the questions, so both are kept here for a resumed round to carry on adapting.
+  adaptive: boolean;
+  reserve: RoundItem[];
+  currentIndex: number;
+  showAnswer: boolean;
+  tally: Tally;
+  // Question index -> what the players said and whether it was right
+  spokenResults: Record<number, SpokenResult>;
+  savedAt: number;
+}
+
+export function loadSavedRound(now: number = Date.now()): SavedRound | null {
+  const saved = readStoredObject<Partial<SavedRound>>(SAVED_ROUND_KEY, {});
+  const { link, items, currentIndex, savedAt } = saved;
+  if (!link || !Array.isArray(items) || typeof currentIndex !== 'number' || currentIndex >= items.length) return null;
+  if (typeof savedAt !== 'number' || now - savedAt > SAVED_ROUND_MAX_AGE) return null;
+  return { adaptive: false, reserve: [], showAnswer: false, tally: {}, spokenResults: {}, ...saved } as SavedRound;
+}
+
+export function saveRound(round: SavedRound): void {
+  writeStoredObject(SAVED_ROUND_KEY, round);
+}
+
+export function clearSavedRound(): void {
+  browserStorage()?.removeItem(SAVED_ROUND_KEY);
+}
@@ -0,0 +1,43 @@
+export const MAX_TEAMS = 6;
+export const MAX_TEAM_NAME_LENGTH = 24;
+
+// Question index -> teams that got it right
+export type Tally = Record<number, string[]>;
+
+export interface Standing {
+  team: string;
+  score: number;
+  // Tied teams share a rank
+  rank: number;
+}
+
+export function normalizeTeamNames(names: string[]): string[] {
+  const result: string[] = [];
+  for (const raw of names) {
+    const name = raw.trim().slice(0, MAX_TEAM_NAME_LENGTH);
+    if (name && !result.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+      result.push(name);
+    }
+  }
+  return result.slice(0, MAX_TEAMS);
+}
+
+export function toggleTally(tally: Tally, questionIndex: number, team: string): Tally {
+  const current = tally[questionIndex] || [];
+  const next = current.includes(team) ? current.filter(t => t !== team) : [...current, team];
+  return { ...tally, [questionIndex]: next };
+}
+
+export function teamScore(tally: Tally, team: string): number {
+  return Object.values(tally).filter(teams => teams.includes(team)).length;
+}
+
+export function rankTeams(teams: string[], tally: Tally): Standing[] {
+  const sorted = teams
+    .map(team => ({ team, score: teamScore(tally, team) }))
+    .sort((a, b) => b.score - a.score);
+  return sorted.map(entry => ({
+    ...entry,
+    rank: sorted.findIndex(other => other.score === entry.score) + 1,
+  }));
+}
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createRng, seedToNumber } from '@/lib/random';
+import { selectBalanced } from '@/lib/selection';
+import type { TriviaItem } from '@/lib/trivia';
+
+function pool(country: string, periods: string[], perPeriod: number): TriviaItem[] {
+  return periods.flatMap(period => Array.from({ length: perPeriod }, (_, i) => ({
+    id: `${country}-${period}-${i}`.toLowerCase(),
+    country,
+    period,
+    question: `${country} question ${i} from ${period}?`,
+    answer: `Answer ${i}`,
+  })));
+}
+
+const bank = [
+  ...pool('USA', ['1960-1979', '1980-1999'], 6),
+  ...pool('Nigeria', ['1960-1979', '1980-1999'], 6),
+];
+
+function pick(seed: string, changes: Partial<Parameters<typeof selectBalanced>[1]> = {}): TriviaItem[] {
+  return selectBalanced(bank, { countries: ['USA', 'Nigeria'], count: 8, balancePeriods: false, rng: createRng(seedToNumber(seed)), ...changes });
+}
+
+const ids = (items: TriviaItem[]) => items.map(item => item.id);
+
+describe('selectBalanced', () => {
+  it('picks the same round in the same order for the same seed', () => {
+    assert.deepEqual(ids(pick('42')), ids(pick('42')));
+    assert.deepEqual(ids(pick('tuesday group')), ids(pick('tuesday group')));
+    assert.notDeepEqual(ids(pick('42')), ids(pick('43')));
+  });
+
+  it('lets the countries take turns', () => {
+    const countries = pick('7').map(item => item.country);
+    assert.equal(countries.length, 8);
+    countries.forEach((country, i) => {
+      if (i > 0) assert.notEqual(country, countries[i - 1]);
+    });
+  });
+
+  it('spreads questions across periods for any-time rounds', () => {
+    for (const seed of ['1', '2', '3']) {
+      const round = pick(seed, { balancePeriods: true });
+      for (const country of ['USA', 'Nigeria']) {
+        const periods = round.filter(item => item.country === country).map(item => item.period);
+        assert.equal(periods.filter(period => period === '1960-1979').length, 2);
+        assert.equal(periods.filter(period => period === '1980-1999').length, 2);
+      }
+    }
+  });
+
+  it('leaves the rest of the round to the other country when one runs out', () => {
+    const round = selectBalanced([...pool('USA', ['1960-1979'], 2), ...pool('Nigeria', ['1960-1979'], 6)], {
+      countries: ['USA', 'Nigeria'], count: 6, balancePeriods: false, rng: createRng(1),
+    });
+    assert.equal(round.length, 6);
+    assert.equal(round.filter(item => item.country === 'USA').length, 2);
+  });
+
+  it('uses unplayed questions before played ones, least recently played first', () => {
+    const played: Record<string, number> = {};
+    bank.forEach((item, i) => {
+      if (i % 2 === 0) played[item.id!] = i;
+    });
+    const round = pick('5', { count: bank.length, lastShown: item => played[item.id!] });
+    const firstPlayed = round.findIndex(item => played[item.id!] !== undefined);
+    assert.equal(firstPlayed, bank.length / 2);
+    for (const country of ['USA', 'Nigeria']) {
+      const replays = round.filter(item => item.country === country && played[item.id!] !== undefined).map(item => played[item.id!]);
+      assert.deepEqual(replays, [...replays].sort((a, b) => a - b));
+    }
+  });
+
+  it('matches countries whatever their case and ignores ones with no questions', () => {
+    const round = pick('9', { countries: ['usa', 'NIGERIA', 'Ghana'] });
+    assert.equal(round.length, 8);
+  });
+});
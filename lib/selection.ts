@@ -0,0 +1,79 @@
+import { Rng, shuffle } from '@/lib/random';
+import type { TriviaItem } from '@/lib/trivia';
+
+export interface SelectionOptions {
+  countries: string[];
+  // Total questions wanted; omit to order the whole pool
+  count?: number;
+  // Spread questions across periods too (used for "Any Time" rounds)
+  balancePeriods: boolean;
+  rng: Rng;
+  // When each item was last played, if ever; unplayed items are used first
+  lastShown?: (item: TriviaItem) => number | undefined;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(k, [item]);
+    }
+  }
+  return groups;
+}
+
+// Takes one item from each queue in turn until all are empty or the limit is reached
+function interleave<T>(queues: T[][], limit: number = Infinity): T[] {
+  const result: T[] = [];
+  const positions = queues.map(() => 0);
+  let remaining = true;
+  while (remaining && result.length < limit) {
+    remaining = false;
+    for (let q = 0; q < queues.length && result.length < limit; q++) {
+      if (positions[q] < queues[q].length) {
+        result.push(queues[q][positions[q]]);
+        positions[q] += 1;
+        remaining = true;
+      }
+    }
+  }
+  return result;
+}
+
+function shuffledQueue(items: TriviaItem[], balancePeriods: boolean, rng: Rng): TriviaItem[] {
+  if (!balancePeriods) return shuffle(items, rng);
+  const byPeriod = groupBy(items, item => item.period);
+  const periods = shuffle(Array.from(byPeriod.keys()), rng);
+  return interleave(periods.map(period => shuffle(byPeriod.get(period)!, rng)));
+}
+
+// Unplayed questions first; played ones are recycled least recently shown first
+function countryQueue(items: TriviaItem[], options: SelectionOptions): TriviaItem[] {
+  const { balancePeriods, rng, lastShown } = options;
+  if (!lastShown) return shuffledQueue(items, balancePeriods, rng);
+  const unseen = items.filter(item => lastShown(item) === undefined);
+  const seen = items
+    .filter(item => lastShown(item) !== undefined)
+    .sort((a, b) => lastShown(a)! - lastShown(b)!);
+  return [...shuffledQueue(unseen, balancePeriods, rng), ...seen];
+}
+
+/**
+ * Picks an evenly balanced, interleaved round from the pool: countries take turns,
+ * and a country that runs out of questions leaves the rest of the round to the others.
+ * With play history, each country only repeats questions once its unplayed ones are used up.
+ */
+export function selectBalanced(pool: TriviaItem[], options: SelectionOptions): TriviaItem[] {
+  const { countries, count, rng } = options;
+  const byCountry = groupBy(pool, item => item.country.toLowerCase());
+  const wanted = countries.map(c => c.toLowerCase());
+  const order = shuffle(wanted.filter((country, i) => wanted.indexOf(country) === i), rng);
+  const queues = order
+    .filter(country => byCountry.has(country))
+    .map(country => countryQueue(byCountry.get(country)!, options));
+  return interleave(queues, count);
+}
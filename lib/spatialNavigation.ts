@@ -0,0 +1,48 @@
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+export interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const ARROW_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+// Straying sideways from the direction of travel costs this much more than moving along it
+const ORTHOGONAL_WEIGHT = 2;
+
+function center(box: Box) {
+  return { x: box.left + box.width / 2, y: box.top + box.height / 2 };
+}
+
+/**
+ * The candidate a D-pad press should move to: the nearest one lying in the pressed
+ * direction, preferring those in the same row or column.
+ */
+export function pickNeighbor<T>(from: Box, direction: Direction, candidates: { box: Box; value: T }[]): T | null {
+  const origin = center(from);
+  const horizontal = direction === 'left' || direction === 'right';
+  let best: T | null = null;
+  let bestScore = Infinity;
+
+  for (const candidate of candidates) {
+    const target = center(candidate.box);
+    const dx = target.x - origin.x;
+    const dy = target.y - origin.y;
+    const along = direction === 'right' ? dx : direction === 'left' ? -dx : direction === 'down' ? dy : -dy;
+    if (along <= 1) continue;
+    const across = horizontal ? Math.abs(dy) : Math.abs(dx);
+    const score = along + across * ORTHOGONAL_WEIGHT;
+    if (score < bestScore) {
+      bestScore = score;
+      best = candidate.value;
+    }
+  }
+  return best;
+}
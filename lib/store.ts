@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Server-side JSON documents for small pieces of state (history, settings).
+// Set TRIVIA_DATA_DIR to keep them outside the project folder.
+export const DATA_DIR = process.env.TRIVIA_DATA_DIR || path.join(process.cwd(), '.data');
+
+const pending = new Map<string, Promise<unknown>>();
+
+function storePath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(storePath(name), 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+export async function writeStore<T>(name: string, data: T): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  // Write then rename so a crash never leaves a half-written document behind
+  const file = storePath(name);
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2));
+  await fs.rename(temp, file);
+}
+
+// Read-modify-write, serialised per document so concurrent requests don't lose updates
+export function updateStore<T>(name: string, fallback: T, update: (data: T) => T): Promise<T> {
+  const previous = pending.get(name) || Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const updated = update(await readStore(name, fallback));
+      await writeStore(name, updated);
+      return updated;
+    });
+  pending.set(name, next);
+  return next;
+}
@@ -0,0 +1,44 @@
+// Drops accents and tone marks, so "Pelé" reads as "Pele" and "tẹ̀síwájú" as "tesiwaju"
+export function foldAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\u00c0-\u024f\u1e00-\u1eff\u0900-\u097f\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Answers compare equal regardless of a leading article ("The Slinky" vs "Slinky")
+export function normalizeAnswer(text: string): string {
+  return normalizeText(text).replace(/^(the|a|an) /, '');
+}
+
+// URL-safe id from a name, such as "tuesday-group-60s"; accents and other scripts are dropped
+export function slugify(text: string, fallback: string): string {
+  const slug = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  return slug || fallback;
+}
+
+// The slug, or the slug with the first free number after it
+export function uniqueSlug(slug: string, taken: (candidate: string) => boolean): string {
+  let candidate = slug;
+  for (let n = 2; taken(candidate); n++) candidate = `${slug}-${n}`;
+  return candidate;
+}
+
+// Spoken number words, as heard by speech recognition
+export const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+  sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
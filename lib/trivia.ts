@@ -0,0 +1,377 @@
+import { DEFAULT_LOCALE, isLocale, Locale } from '@/lib/i18n';
+import { hashSeed } from '@/lib/random';
+import { uniqueSlug } from '@/lib/text';
+
+export const PERIODS = ['1940-1959', '1960-1979', '1980-1999', '2000-2019'];
+
+// Topics a group can narrow a round to
+export const CATEGORIES = [
+  'music',
+  'film-tv',
+  'sports',
+  'toys-games',
+  'science-tech',
+  'food',
+  'culture',
+  'daily-life',
+  'places',
+  'history',
+  'politics',
+] as const;
+
+export type Category = typeof CATEGORIES[number];
+
+export function isCategory(value: unknown): value is Category {
+  return (CATEGORIES as readonly unknown[]).includes(value);
+}
+
+// Easiest first
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type Difficulty = typeof DIFFICULTIES[number];
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return (DIFFICULTIES as readonly unknown[]).includes(value);
+}
+
+// When a picture is shown or a clip played
+export const MEDIA_PHASES = ['question', 'answer'] as const;
+
+export type MediaPhase = typeof MEDIA_PHASES[number];
+
+export type MediaKind = 'image' | 'audio';
+
+// A file in public/, referred to by its URL path such as "/media/rubiks-cube.svg"
+export interface TriviaMedia {
+  src: string;
+  // Read out by the narration, and shown instead if the file can't be loaded
+  alt: string;
+  // Defaults to the question; a picture shown with the question stays up for the answer
+  phase?: MediaPhase;
+}
+
+export interface TriviaItem {
+  // Stable identifier for history, playlists and links, kept when the question is edited.
+  // Questions are given one when added to the bank (see withIds).
+  id?: string;
+  country: string;
+  period: string;
+  // One of CATEGORIES
+  category?: string;
+  // Items without one count as medium
+  difficulty?: Difficulty;
+  question: string;
+  answer: string;
+  funFact?: string;
+  // Authored wrong options for multiple-choice rounds
+  distractors?: string[];
+  // Other ways of saying the answer that count as correct when answering aloud
+  acceptedAnswers?: string[];
+  // Per-language text keyed by locale; anything left out falls back to English
+  translations?: Partial<Record<Locale, TriviaTranslation>>;
+  // The year, or first and last year, the question is about, for rounds narrowed to
+  // a decade or a player's youth. Without either, the whole period is assumed.
+  year?: number;
+  yearRange?: [number, number];
+  image?: TriviaMedia;
+  audio?: TriviaMedia;
+}
+
+export interface YearRange {
+  fromYear: number;
+  toYear: number;
+}
+
+export interface TriviaTranslation {
+  question?: string;
+  answer?: string;
+  funFact?: string;
+  distractors?: string[];
+  acceptedAnswers?: string[];
+}
+
+export interface QuestionChoices {
+  options: string[];
+  correctIndex: number;
+}
+
+// An item as served for a round, with options attached in multiple-choice mode
+export interface RoundItem extends TriviaItem {
+  id: string;
+  choices?: QuestionChoices;
+}
+
+// Identifies the question's text: two items with the same key are duplicates
+export function questionKey(item: TriviaItem): string {
+  return hashSeed(`${item.country}|${item.period}|${item.question}`).toString(36);
+}
+
+// Items from before ids existed are known by their key, which is also the id the migration gives them
+export function questionId(item: TriviaItem): string {
+  return item.id || questionKey(item);
+}
+
+// Gives every item without an id one: its key, numbered if an earlier question already has that id.
+// taken holds the ids already in use elsewhere, such as the rest of the bank.
+export function withIds(items: TriviaItem[], taken: Iterable<string> = []): TriviaItem[] {
+  const used = new Set(taken);
+  items.forEach(item => {
+    if (item.id) used.add(item.id);
+  });
+  return items.map(item => {
+    if (item.id) return item;
+    const id = uniqueSlug(questionKey(item), candidate => used.has(candidate));
+    used.add(id);
+    return { id, ...item };
+  });
+}
+
+const PERIOD_PATTERN = /^(\d{4})-(\d{4})$/;
+
+// "1960-1979" as years; null for a period that isn't a span of years
+export function periodYears(period: string): YearRange | null {
+  const match = PERIOD_PATTERN.exec(period);
+  return match ? { fromYear: parseInt(match[1], 10), toYear: parseInt(match[2], 10) } : null;
+}
+
+export function itemYears(item: TriviaItem): YearRange | null {
+  if (item.year !== undefined) return { fromYear: item.year, toYear: item.year };
+  if (item.yearRange) return { fromYear: item.yearRange[0], toYear: item.yearRange[1] };
+  return periodYears(item.period);
+}
+
+// The picture and clip for a phase, in that order
+export function phaseMedia(item: TriviaItem, phase: MediaPhase): { kind: MediaKind; media: TriviaMedia }[] {
+  const found: { kind: MediaKind; media: TriviaMedia }[] = [];
+  for (const kind of ['image', 'audio'] as const) {
+    const media = item[kind];
+    if (media && (media.phase || 'question') === phase) found.push({ kind, media });
+  }
+  return found;
+}
+
+export function itemDifficulty(item: TriviaItem): Difficulty {
+  return item.difficulty || 'medium';
+}
+
+// Whether two spans share a year; an open end matches everything on that side
+export function yearsOverlap(years: YearRange, { fromYear, toYear }: Partial<YearRange>): boolean {
+  return (fromYear === undefined || years.toYear >= fromYear) && (toYear === undefined || years.fromYear <= toYear);
+}
+
+// The item as shown in the given language. The English answers stay accepted when answering aloud.
+export function localizeItem(item: TriviaItem, locale: Locale): TriviaItem {
+  const { translations, ...english } = item;
+  const translation = translations && translations[locale];
+  if (!translation) return english;
+  return {
+    ...english,
+    question: translation.question || english.question,
+    answer: translation.answer || english.answer,
+    funFact: translation.funFact || english.funFact,
+    distractors: translation.answer ? translation.distractors : english.distractors,
+    acceptedAnswers: translation.answer
+      ? [...(translation.acceptedAnswers || []), english.answer, ...(english.acceptedAnswers || [])]
+      : english.acceptedAnswers,
+  };
+}
+
+// Whether the answer itself is translated, so multiple-choice options can be drawn from the same language
+export function hasTranslatedAnswer(item: TriviaItem, locale: Locale): boolean {
+  return !!(item.translations && item.translations[locale] && item.translations[locale]!.answer);
+}
+
+export interface SchemaIssue {
+  index: number;
+  field?: string;
+  message: string;
+}
+
+export class TriviaValidationError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(`Trivia data failed validation with ${issues.length} issue${issues.length === 1 ? '' : 's'}`);
+    this.name = 'TriviaValidationError';
+    this.issues = issues;
+  }
+}
+
+const REQUIRED_TEXT_FIELDS = ['country', 'period', 'question', 'answer'] as const;
+
+const ID_PATTERN = /^(?=.{1,40}$)[a-z0-9]+(-[a-z0-9]+)*$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string' && entry.trim() !== '');
+}
+
+function isYear(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1000 && value <= 9999;
+}
+
+// Paths under public/ with a file type browsers play
+const MEDIA_PATTERNS: Record<MediaKind, RegExp> = {
+  image: /^\/[\w\-./]+\.(jpe?g|png|gif|webp|svg)$/i,
+  audio: /^\/[\w\-./]+\.(mp3|m4a|ogg|oga|wav)$/i,
+};
+
+export function isMediaSrc(kind: MediaKind, src: string): boolean {
+  return MEDIA_PATTERNS[kind].test(src) && !src.includes('..') && !src.startsWith('//');
+}
+
+function validateMedia(raw: unknown, kind: MediaKind, index: number): SchemaIssue[] {
+  if (!isRecord(raw)) {
+    return [{ index, field: kind, message: `"${kind}" must be an object with src and alt when present` }];
+  }
+  const issues: SchemaIssue[] = [];
+  if (typeof raw.src !== 'string' || !isMediaSrc(kind, raw.src)) {
+    const types = kind === 'image' ? 'jpg, png, gif, webp or svg' : 'mp3, m4a, ogg or wav';
+    issues.push({ index, field: `${kind}.src`, message: `"${kind}.src" must be a path in public/ such as /media/file.${kind === 'image' ? 'jpg' : 'mp3'} (${types})` });
+  }
+  if (typeof raw.alt !== 'string' || !raw.alt.trim()) {
+    issues.push({ index, field: `${kind}.alt`, message: `"${kind}.alt" must describe the ${kind === 'image' ? 'picture' : 'clip'} for narration` });
+  }
+  if (raw.phase !== undefined && !(MEDIA_PHASES as readonly unknown[]).includes(raw.phase)) {
+    issues.push({ index, field: `${kind}.phase`, message: `"${kind}.phase" must be question or answer when present` });
+  }
+  for (const key of Object.keys(raw)) {
+    if (!['src', 'alt', 'phase'].includes(key)) {
+      issues.push({ index, field: `${kind}.${key}`, message: `Unknown field "${kind}.${key}"` });
+    }
+  }
+  return issues;
+}
+
+const TRANSLATION_TEXT_FIELDS = ['question', 'answer', 'funFact'] as const;
+const TRANSLATION_LIST_FIELDS = ['distractors', 'acceptedAnswers'] as const;
+
+function validateTranslations(raw: unknown, index: number): SchemaIssue[] {
+  if (!isRecord(raw)) {
+    return [{ index, field: 'translations', message: '"translations" must be an object keyed by language when present' }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  const known = new Set<string>([...TRANSLATION_TEXT_FIELDS, ...TRANSLATION_LIST_FIELDS]);
+  for (const [locale, translation] of Object.entries(raw)) {
+    const field = `translations.${locale}`;
+    if (!isLocale(locale) || locale === DEFAULT_LOCALE) {
+      issues.push({ index, field, message: `Unsupported translation language "${locale}"` });
+      continue;
+    }
+    if (!isRecord(translation)) {
+      issues.push({ index, field, message: `"${field}" must be an object` });
+      continue;
+    }
+    for (const key of TRANSLATION_TEXT_FIELDS) {
+      const value = translation[key];
+      if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+        issues.push({ index, field: `${field}.${key}`, message: `"${field}.${key}" must be a non-empty string when present` });
+      }
+    }
+    for (const key of TRANSLATION_LIST_FIELDS) {
+      if (translation[key] !== undefined && !isStringList(translation[key])) {
+        issues.push({ index, field: `${field}.${key}`, message: `"${field}.${key}" must be a list of non-empty strings when present` });
+      }
+    }
+    for (const key of Object.keys(translation)) {
+      if (!known.has(key)) {
+        issues.push({ index, field: `${field}.${key}`, message: `Unknown field "${field}.${key}"` });
+      }
+    }
+  }
+  return issues;
+}
+
+// Checks the shape of a single entry. Content rules (periods, categories, duplicates, lengths) live in triviaLint.
+export function validateTriviaItem(raw: unknown, index: number): SchemaIssue[] {
+  if (!isRecord(raw)) {
+    return [{ index, message: 'Entry must be an object' }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  for (const field of REQUIRED_TEXT_FIELDS) {
+    const value = raw[field];
+    if (typeof value !== 'string') {
+      issues.push({ index, field, message: `"${field}" must be a string` });
+    } else if (!value.trim()) {
+      issues.push({ index, field, message: `"${field}" must not be empty` });
+    }
+  }
+
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || !ID_PATTERN.test(raw.id))) {
+    issues.push({ index, field: 'id', message: '"id" must be lowercase letters, digits and single dashes, up to 40 characters, when present' });
+  }
+
+  if (raw.category !== undefined && (typeof raw.category !== 'string' || !raw.category.trim())) {
+    issues.push({ index, field: 'category', message: '"category" must be a non-empty string when present' });
+  }
+
+  if (raw.difficulty !== undefined && !isDifficulty(raw.difficulty)) {
+    issues.push({ index, field: 'difficulty', message: '"difficulty" must be easy, medium or hard when present' });
+  }
+
+  if (raw.funFact !== undefined && typeof raw.funFact !== 'string') {
+    issues.push({ index, field: 'funFact', message: '"funFact" must be a string when present' });
+  }
+
+  if (raw.distractors !== undefined && !isStringList(raw.distractors)) {
+    issues.push({ index, field: 'distractors', message: '"distractors" must be a list of non-empty strings when present' });
+  }
+
+  if (raw.acceptedAnswers !== undefined && !isStringList(raw.acceptedAnswers)) {
+    issues.push({ index, field: 'acceptedAnswers', message: '"acceptedAnswers" must be a list of non-empty strings when present' });
+  }
+
+  if (raw.translations !== undefined) {
+    issues.push(...validateTranslations(raw.translations, index));
+  }
+
+  if (raw.year !== undefined && !isYear(raw.year)) {
+    issues.push({ index, field: 'year', message: '"year" must be a four-digit year when present' });
+  }
+
+  if (raw.yearRange !== undefined) {
+    const range = raw.yearRange;
+    if (!Array.isArray(range) || range.length !== 2 || !range.every(isYear)) {
+      issues.push({ index, field: 'yearRange', message: '"yearRange" must be a first and last year, such as [1965, 1972], when present' });
+    } else if (range[0] > range[1]) {
+      issues.push({ index, field: 'yearRange', message: '"yearRange" must start no later than it ends' });
+    }
+  }
+
+  for (const kind of ['image', 'audio'] as const) {
+    if (raw[kind] !== undefined) issues.push(...validateMedia(raw[kind], kind, index));
+  }
+
+  if (raw.year !== undefined && raw.yearRange !== undefined) {
+    issues.push({ index, field: 'yearRange', message: 'Give either "year" or "yearRange", not both' });
+  }
+
+  const known = new Set<string>(['id', ...REQUIRED_TEXT_FIELDS, 'category', 'difficulty', 'funFact', 'distractors', 'acceptedAnswers', 'translations', 'year', 'yearRange', 'image', 'audio']);
+  for (const key of Object.keys(raw)) {
+    if (!known.has(key)) {
+      issues.push({ index, field: key, message: `Unknown field "${key}"` });
+    }
+  }
+
+  return issues;
+}
+
+export function collectSchemaIssues(raw: unknown): SchemaIssue[] {
+  if (!Array.isArray(raw)) {
+    return [{ index: -1, message: 'Trivia data must be an array of entries' }];
+  }
+  return raw.flatMap((entry, index) => validateTriviaItem(entry, index));
+}
+
+export function parseTriviaItems(raw: unknown): TriviaItem[] {
+  const issues = collectSchemaIssues(raw);
+  if (issues.length > 0) {
+    throw new TriviaValidationError(issues);
+  }
+  return raw as TriviaItem[];
+}
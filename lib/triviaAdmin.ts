@@ -0,0 +1,54 @@
+import { translate } from '@/lib/i18n';
+import type { MessageKey } from '@/lib/messages/en';
+import { normalizeText } from '@/lib/text';
+import { isCategory, isDifficulty, itemDifficulty, questionId, TriviaItem } from '@/lib/trivia';
+
+// An item as listed in /admin, always with the id its edit and delete routes use
+export interface AdminTriviaItem extends TriviaItem {
+  id: string;
+}
+
+// The category filter value for questions that have none
+export const UNCATEGORIZED = 'none';
+
+export interface TriviaFilter {
+  search?: string;
+  country?: string;
+  period?: string;
+  category?: string;
+  // Questions without a difficulty count as medium
+  difficulty?: string;
+}
+
+// /admin is English-only; the names match the home-page topic picker
+export function categoryLabel(category: string): string {
+  return isCategory(category) ? translate('en', `topic.${category}` as MessageKey) : category;
+}
+
+export function difficultyLabel(difficulty: string): string {
+  return isDifficulty(difficulty) ? translate('en', `difficulty.${difficulty}`) : difficulty;
+}
+
+// Searches the English text and any translated question or answer
+function searchableText(item: TriviaItem): string {
+  const translated = Object.values(item.translations || {}).flatMap(t => [t.question || '', t.answer || '']);
+  return normalizeText([item.question, item.answer, item.funFact || '', ...(item.acceptedAnswers || []), ...translated].join(' '));
+}
+
+export function filterTriviaItems(
+  items: TriviaItem[],
+  { search, country, period, category, difficulty }: TriviaFilter
+): AdminTriviaItem[] {
+  const terms = search ? normalizeText(search).split(' ').filter(Boolean) : [];
+  return items
+    .filter(item => !country || item.country === country)
+    .filter(item => !period || item.period === period)
+    .filter(item => !category || (item.category || UNCATEGORIZED) === category)
+    .filter(item => !difficulty || itemDifficulty(item) === difficulty)
+    .filter(item => {
+      if (terms.length === 0) return true;
+      const text = searchableText(item);
+      return terms.every(term => text.includes(term));
+    })
+    .map(item => ({ ...item, id: questionId(item) }));
+}
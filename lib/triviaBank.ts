@@ -0,0 +1,97 @@
+import path from 'path';
+import { DATA_DIR } from '@/lib/store';
+import { TriviaItem, TriviaValidationError, validateTriviaItem, withIds } from '@/lib/trivia';
+import { createJsonTriviaRepository } from '@/lib/triviaJsonRepository';
+import { contentErrors } from '@/lib/triviaLint';
+import { DuplicateIdError, DuplicateKeyError, TriviaCount, TriviaQuery, TriviaRepository } from '@/lib/triviaRepository';
+import { createSqliteTriviaRepository } from '@/lib/triviaSqliteRepository';
+
+// Edits made in /admin are saved to .data/trivia.json by default.
+// TRIVIA_STORE=sqlite serves the bank from TRIVIA_SQLITE_FILE instead (see npm run trivia:migrate).
+const STORE_NAME = 'trivia';
+
+export const SQLITE_FILE = process.env.TRIVIA_SQLITE_FILE || path.join(DATA_DIR, 'trivia.sqlite');
+
+let repository: TriviaRepository | null = null;
+
+function getRepository(): TriviaRepository {
+  if (!repository) {
+    const store = process.env.TRIVIA_STORE || 'json';
+    if (store === 'json') {
+      repository = createJsonTriviaRepository(STORE_NAME);
+    } else if (store === 'sqlite') {
+      repository = createSqliteTriviaRepository(SQLITE_FILE);
+    } else {
+      throw new Error(`Unknown TRIVIA_STORE "${store}" (expected json or sqlite)`);
+    }
+  }
+  return repository;
+}
+
+export function getTriviaItems(query?: TriviaQuery): Promise<TriviaItem[]> {
+  return getRepository().list(query);
+}
+
+export function countTriviaItems(): Promise<TriviaCount[]> {
+  return getRepository().counts();
+}
+
+export function findTriviaItem(id: string): Promise<TriviaItem | null> {
+  return getRepository().get(id);
+}
+
+function checkItem(raw: unknown, index: number): TriviaItem {
+  let issues = validateTriviaItem(raw, index);
+  if (issues.length === 0) issues = contentErrors(raw as TriviaItem, index);
+  if (issues.length > 0) {
+    throw new TriviaValidationError(issues);
+  }
+  return raw as TriviaItem;
+}
+
+// Repositories only know ids and keys; report a taken one the way the admin form shows field errors
+async function withDuplicateCheck<T>(write: () => Promise<T>): Promise<T> {
+  try {
+    return await write();
+  } catch (error) {
+    if (error instanceof DuplicateKeyError) {
+      throw new TriviaValidationError([
+        { index: error.position, field: 'question', message: 'This question already exists for the same country and period' },
+      ]);
+    }
+    if (error instanceof DuplicateIdError) {
+      throw new TriviaValidationError([{ index: error.position, field: 'id', message: `Another question already has the id "${error.id}"` }]);
+    }
+    throw error;
+  }
+}
+
+// Questions that come without an id are given one not already in the bank
+async function assignIds(items: TriviaItem[]): Promise<TriviaItem[]> {
+  return withIds(items, await getRepository().ids());
+}
+
+export async function createTriviaItem(raw: unknown): Promise<TriviaItem> {
+  const [item] = await assignIds([checkItem(raw, 0)]);
+  await withDuplicateCheck(() => getRepository().add([item]));
+  return item;
+}
+
+// Adds several questions in one write; if any fails validation none are added
+export async function importTriviaItems(raws: unknown[]): Promise<TriviaItem[]> {
+  const items = await assignIds(raws.map(checkItem));
+  await withDuplicateCheck(() => getRepository().add(items));
+  return items;
+}
+
+// Returns null when no question has the id. The question keeps its id whatever the text is changed to.
+export async function updateTriviaItem(id: string, raw: unknown): Promise<TriviaItem | null> {
+  if (!(await findTriviaItem(id))) return null;
+  const item = { ...checkItem(raw, 0), id };
+  const replaced = await withDuplicateCheck(() => getRepository().replace(id, item));
+  return replaced ? item : null;
+}
+
+export function deleteTriviaItem(id: string): Promise<boolean> {
+  return getRepository().remove(id);
+}
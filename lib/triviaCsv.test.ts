@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TriviaItem } from '@/lib/trivia';
+import { importReport, itemsToDelimited, parseDelimited } from '@/lib/triviaCsv';
+
+const formulaItems: TriviaItem[] = [
+  {
+    id: 'coldest-day',
+    country: 'USA',
+    period: '1960-1979',
+    question: '=HYPERLINK("http://example.com","Which city hit -40 degrees?")',
+    answer: '-40',
+    acceptedAnswers: ['+40 below', 'minus forty'],
+    funFact: '@everyone remembers it',
+    distractors: ["'-30", '-20'],
+  },
+  {
+    id: 'plain-question',
+    country: 'Nigeria',
+    period: '1980-1999',
+    question: "Which city was Nigeria's capital until 1991?",
+    answer: 'Lagos',
+  },
+];
+
+describe('CSV formula cells', () => {
+  it('puts an apostrophe in front of cells a spreadsheet would run as formulas', () => {
+    for (const format of ['csv', 'tsv'] as const) {
+      const delimiter = format === 'tsv' ? '\t' : ',';
+      const [header, first, second] = parseDelimited(itemsToDelimited(formulaItems, format), delimiter);
+      const cell = (row: string[], column: string) => row[header.indexOf(column)];
+      assert.equal(cell(first, 'question'), `'${formulaItems[0].question}`);
+      assert.equal(cell(first, 'answer'), "'-40");
+      assert.equal(cell(first, 'funFact'), "'@everyone remembers it");
+      assert.equal(cell(first, 'acceptedAnswers'), "'+40 below | minus forty");
+      assert.equal(cell(first, 'distractors'), "''-30 | -20");
+      assert.equal(cell(second, 'question'), formulaItems[1].question);
+    }
+  });
+
+  it('reads escaped cells back as they were exported', () => {
+    for (const format of ['csv', 'tsv'] as const) {
+      const report = importReport(itemsToDelimited(formulaItems, format), [], format);
+      assert.deepEqual(report.issues, []);
+      assert.deepEqual(report.items, formulaItems);
+    }
+  });
+});
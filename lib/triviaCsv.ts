@@ -0,0 +1,247 @@
+import { DEFAULT_LOCALE, isLocale, Locale, LOCALES } from '@/lib/i18n';
+import { MediaKind, questionId, questionKey, TriviaItem, TriviaTranslation, validateTriviaItem } from '@/lib/trivia';
+import { contentErrors } from '@/lib/triviaLint';
+
+export type CsvFormat = 'csv' | 'tsv';
+
+// Spreadsheet cells hold lists as entries separated by this character
+export const LIST_SEPARATOR = '|';
+
+// A spreadsheet runs a cell starting with one of these as a formula, so exports put an
+// apostrophe in front ("'-40") and imports take one off. Spreadsheets show it as plain text.
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+
+// Rows without an id are given one when imported
+const TEXT_COLUMNS = ['id', 'country', 'period', 'category', 'difficulty', 'question', 'answer', 'funFact'] as const;
+const LIST_COLUMNS = ['distractors', 'acceptedAnswers'] as const;
+// A year range is written as "1965-1972"
+const YEAR_COLUMNS = ['year', 'yearRange'] as const;
+// "image" holds the path, with its description and phase beside it
+const MEDIA_KINDS: MediaKind[] = ['image', 'audio'];
+const MEDIA_COLUMNS = ['image', 'imageAlt', 'imagePhase', 'audio', 'audioAlt', 'audioPhase'] as const;
+const TRANSLATED_COLUMNS = ['question', 'answer', 'funFact', 'distractors', 'acceptedAnswers'] as const;
+
+type TranslatedColumn = typeof TRANSLATED_COLUMNS[number];
+
+export interface ImportIssue {
+  // Spreadsheet row number; the header is row 1
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface ImportDuplicate {
+  row: number;
+  question: string;
+  // True when the question is already in the bank, false when it repeats an earlier row
+  inBank: boolean;
+}
+
+export interface ImportReport {
+  rows: number;
+  items: TriviaItem[];
+  duplicates: ImportDuplicate[];
+  issues: ImportIssue[];
+}
+
+function delimiterFor(format: CsvFormat): string {
+  return format === 'tsv' ? '\t' : ',';
+}
+
+// A header line with tabs and no commas is taken as TSV
+export function detectFormat(text: string): CsvFormat {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return header.includes('\t') && !header.includes(',') ? 'tsv' : 'csv';
+}
+
+// RFC 4180 records: quoted fields may contain the delimiter, newlines and doubled quotes
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Spreadsheets often leave blank lines at the end
+  return records.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+// Cells that don't look like years are kept as text so validation reports them
+function parseYearCell(field: string, cell: string): unknown {
+  if (field === 'year') return /^\d{4}$/.test(cell) ? parseInt(cell, 10) : cell;
+  const match = /^(\d{4})\s*-\s*(\d{4})$/.exec(cell);
+  return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : cell;
+}
+
+function splitList(cell: string): string[] | undefined {
+  const list = cell.split(LIST_SEPARATOR).map(entry => entry.trim()).filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+// Column name -> where it goes: "answer", or "answer.es" for a translation
+function parseHeader(header: string[]): { columns: ({ field: string; locale?: Locale } | null)[]; issues: ImportIssue[] } {
+  const known: string[] = [...TEXT_COLUMNS, ...LIST_COLUMNS, ...YEAR_COLUMNS, ...MEDIA_COLUMNS];
+  const issues: ImportIssue[] = [];
+  const columns = header.map(raw => {
+    const name = raw.trim();
+    const [base, suffix] = name.split('.');
+    const field = known.find(column => column.toLowerCase() === base.toLowerCase());
+    if (field && suffix === undefined) return { field };
+    const locale = suffix && suffix.toLowerCase();
+    if (field && isLocale(locale) && locale !== DEFAULT_LOCALE && (TRANSLATED_COLUMNS as readonly string[]).includes(field)) {
+      return { field, locale };
+    }
+    if (name) issues.push({ row: 1, field: name, message: `Unknown column "${name}"` });
+    return null;
+  });
+  for (const required of ['country', 'period', 'question', 'answer']) {
+    if (!columns.some(column => column && column.field === required && !column.locale)) {
+      issues.push({ row: 1, field: required, message: `Missing column "${required}"` });
+    }
+  }
+  return { columns, issues };
+}
+
+function unescapeFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_START.test(cell) ? cell.slice(1) : cell;
+}
+
+function rowToItem(fields: string[], columns: ReturnType<typeof parseHeader>['columns']): Record<string, unknown> {
+  const item: Record<string, unknown> = {};
+  const translations: Partial<Record<Locale, TriviaTranslation>> = {};
+  columns.forEach((column, i) => {
+    const cell = unescapeFormula((fields[i] || '').trim());
+    if (!column || !cell) return;
+    const isList = (LIST_COLUMNS as readonly string[]).includes(column.field);
+    const isYear = (YEAR_COLUMNS as readonly string[]).includes(column.field);
+    const value = isList ? splitList(cell) : isYear ? parseYearCell(column.field, cell) : cell;
+    if (value === undefined) return;
+    if (column.locale) {
+      translations[column.locale] = { ...translations[column.locale], [column.field as TranslatedColumn]: value };
+    } else {
+      item[column.field] = value;
+    }
+  });
+  if (Object.keys(translations).length > 0) item.translations = translations;
+  for (const kind of MEDIA_KINDS) {
+    const [src, alt, phase] = [kind, `${kind}Alt`, `${kind}Phase`].map(column => item[column]);
+    delete item[`${kind}Alt`];
+    delete item[`${kind}Phase`];
+    if (src !== undefined || alt !== undefined || phase !== undefined) {
+      item[kind] = { src: src || '', alt: alt || '', ...(phase !== undefined ? { phase } : {}) };
+    }
+  }
+  // Required fields are always present so a blank cell is reported as empty rather than missing
+  for (const field of ['country', 'period', 'question', 'answer']) {
+    if (item[field] === undefined) item[field] = '';
+  }
+  return item;
+}
+
+// Checks a CSV or TSV file against the bank without changing anything
+export function importReport(text: string, bank: TriviaItem[], format: CsvFormat = detectFormat(text)): ImportReport {
+  const [header, ...records] = parseDelimited(text, delimiterFor(format));
+  if (!header) {
+    return { rows: 0, items: [], duplicates: [], issues: [{ row: 1, message: 'The file is empty' }] };
+  }
+
+  const { columns, issues } = parseHeader(header);
+  const report: ImportReport = { rows: records.length, items: [], duplicates: [], issues };
+  if (issues.some(issue => issue.message.startsWith('Missing column'))) return report;
+
+  const existing = new Set(bank.map(questionKey));
+  const seen = new Set<string>();
+  const ids = new Set(bank.map(questionId));
+  records.forEach((fields, i) => {
+    const row = i + 2;
+    const raw = rowToItem(fields, columns);
+    const rowIssues: ImportIssue[] = validateTriviaItem(raw, i).map(({ field, message }) => ({ row, field, message }));
+    if (rowIssues.length === 0) {
+      rowIssues.push(...contentErrors(raw as unknown as TriviaItem, i).map(({ field, message }) => ({ row, field, message })));
+    }
+    if (rowIssues.length > 0) {
+      report.issues.push(...rowIssues);
+      return;
+    }
+    const item = raw as unknown as TriviaItem;
+    const key = questionKey(item);
+    if (existing.has(key) || seen.has(key)) {
+      report.duplicates.push({ row, question: item.question, inBank: existing.has(key) });
+      return;
+    }
+    if (item.id && ids.has(item.id)) {
+      report.issues.push({ row, field: 'id', message: `Another question already has the id "${item.id}"` });
+      return;
+    }
+    seen.add(key);
+    if (item.id) ids.add(item.id);
+    report.items.push(item);
+  });
+  return report;
+}
+
+function escapeCell(value: string, delimiter: string): string {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function itemsToDelimited(items: TriviaItem[], format: CsvFormat = 'csv'): string {
+  const delimiter = delimiterFor(format);
+  // Translation columns only for languages that appear in the export
+  const locales = (Object.keys(LOCALES) as Locale[]).filter(locale =>
+    locale !== DEFAULT_LOCALE && items.some(item => item.translations && item.translations[locale])
+  );
+  const header: string[] = [...TEXT_COLUMNS, ...LIST_COLUMNS, ...YEAR_COLUMNS, ...MEDIA_COLUMNS];
+  locales.forEach(locale => TRANSLATED_COLUMNS.forEach(column => header.push(`${column}.${locale}`)));
+
+  const cell = (value: string | string[] | undefined) => {
+    const text = Array.isArray(value) ? value.join(` ${LIST_SEPARATOR} `) : value || '';
+    return escapeCell(text, delimiter);
+  };
+
+  const lines = items.map(item => {
+    const values = [...TEXT_COLUMNS, ...LIST_COLUMNS].map(column => cell(item[column]));
+    values.push(cell(item.year === undefined ? '' : String(item.year)));
+    values.push(cell(item.yearRange ? item.yearRange.join('-') : ''));
+    MEDIA_KINDS.forEach(kind => {
+      const media = item[kind];
+      values.push(cell(media?.src), cell(media?.alt), cell(media?.phase));
+    });
+    locales.forEach(locale => {
+      const translation: TriviaTranslation = (item.translations && item.translations[locale]) || {};
+      TRANSLATED_COLUMNS.forEach(column => values.push(cell(translation[column])));
+    });
+    return values.join(delimiter);
+  });
+  return [header.join(delimiter), ...lines].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readStore, updateStore } from '@/lib/store';
+import { itemDifficulty, itemYears, parseTriviaItems, questionId, questionKey, TriviaItem, withIds, yearsOverlap } from '@/lib/trivia';
+import { DuplicateIdError, DuplicateKeyError, TriviaCount, TriviaQuery, TriviaRepository } from '@/lib/triviaRepository';
+
+export const BUNDLED_TRIVIA_FILE = path.join(process.cwd(), 'data', 'trivia.json');
+
+// The whole bank held in memory. Edits are saved to the named store in .data/; until the
+// first edit the bundled file is served. Both are read at runtime rather than bundled.
+export function createJsonTriviaRepository(storeName: string, seedFile: string = BUNDLED_TRIVIA_FILE): TriviaRepository {
+  let cached: TriviaItem[] | null = null;
+
+  // Validated once per server process; a malformed bank fails loudly instead of rendering broken questions.
+  // A bank saved before ids existed gets them here, and keeps them with the next edit.
+  const load = async (): Promise<TriviaItem[]> => {
+    if (!cached) {
+      const stored = await readStore<unknown>(storeName, null);
+      cached = withIds(parseTriviaItems(stored === null ? JSON.parse(await fs.readFile(seedFile, 'utf8')) : stored));
+    }
+    return cached;
+  };
+
+  const update = async (change: (items: TriviaItem[]) => TriviaItem[]) => {
+    // Seed the store from the bundled data so the first edit keeps every existing question
+    cached = await updateStore<TriviaItem[]>(storeName, await load(), change);
+  };
+
+  // Checked before writing so a missing id doesn't copy the bundled file into the store
+  const has = async (id: string) => (await load()).some(item => questionId(item) === id);
+
+  return {
+    async list({ countries, period, fromYear, toYear, categories, excludeCategories, difficulties }: TriviaQuery = {}) {
+      const wanted = countries && countries.map(country => country.toLowerCase());
+      const byYear = fromYear !== undefined || toYear !== undefined;
+      return (await load()).filter(item => {
+        const years = itemYears(item);
+        return (!wanted || wanted.includes(item.country.toLowerCase())) &&
+          (!period || item.period === period) &&
+          (!byYear || (!!years && yearsOverlap(years, { fromYear, toYear }))) &&
+          (!categories || (!!item.category && categories.includes(item.category))) &&
+          (!excludeCategories || !item.category || !excludeCategories.includes(item.category)) &&
+          (!difficulties || difficulties.includes(itemDifficulty(item)));
+      });
+    },
+
+    async get(id) {
+      return (await load()).find(item => questionId(item) === id) || null;
+    },
+
+    async counts() {
+      const counts = new Map<string, TriviaCount>();
+      for (const item of await load()) {
+        const years = itemYears(item);
+        const fromYear = years ? years.fromYear : null;
+        const toYear = years ? years.toYear : null;
+        const category = item.category || null;
+        const difficulty = item.difficulty || null;
+        const id = `${item.country}|${item.period}|${fromYear}|${toYear}|${category}|${difficulty}`;
+        const entry = counts.get(id) ||
+          { country: item.country, period: item.period, fromYear, toYear, category, difficulty, count: 0 };
+        entry.count += 1;
+        counts.set(id, entry);
+      }
+      return Array.from(counts.values());
+    },
+
+    async add(added) {
+      await update(items => {
+        const ids = new Set(items.map(questionId));
+        const keys = new Set(items.map(questionKey));
+        added.forEach((item, i) => {
+          const id = questionId(item);
+          const key = questionKey(item);
+          if (ids.has(id)) throw new DuplicateIdError(id, i);
+          if (keys.has(key)) throw new DuplicateKeyError(key, i);
+          ids.add(id);
+          keys.add(key);
+        });
+        return [...items, ...added];
+      });
+    },
+
+    async replace(id, item) {
+      if (!(await has(id))) return false;
+      let replaced = false;
+      await update(items => {
+        const index = items.findIndex(other => questionId(other) === id);
+        if (index === -1) return items;
+        const key = questionKey(item);
+        if (items.some((other, i) => i !== index && questionKey(other) === key)) {
+          throw new DuplicateKeyError(key, 0);
+        }
+        replaced = true;
+        return items.map((other, i) => (i === index ? { ...item, id } : other));
+      });
+      return replaced;
+    },
+
+    async remove(id) {
+      if (!(await has(id))) return false;
+      let removed = false;
+      await update(items => {
+        const remaining = items.filter(item => questionId(item) !== id);
+        removed = remaining.length < items.length;
+        return remaining;
+      });
+      return removed;
+    },
+
+    async ids() {
+      return (await load()).map(questionId);
+    },
+  };
+}
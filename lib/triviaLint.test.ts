@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TriviaItem } from '@/lib/trivia';
+import { lintTrivia } from '@/lib/triviaLint';
+
+function question(id: string, text: string, changes: Partial<TriviaItem> = {}): TriviaItem {
+  return { id, country: 'USA', period: '1980-1999', category: 'music', question: text, answer: 'Michael Jackson', ...changes };
+}
+
+function duplicateRules(items: TriviaItem[]): string[] {
+  return lintTrivia(items)
+    .filter(issue => issue.rule === 'duplicate' || issue.rule === 'near-duplicate')
+    .map(issue => `${issue.severity} ${issue.rule} #${issue.index}`);
+}
+
+describe('duplicate questions', () => {
+  it('fails the bank for a question the store would see as the same', () => {
+    assert.deepEqual(duplicateRules([question('a1', 'Who sang Thriller?'), question('a2', 'Who sang Thriller?')]),
+      ['error duplicate #1']);
+  });
+
+  it('only warns about a question that differs in case or punctuation', () => {
+    assert.deepEqual(duplicateRules([question('a1', 'Who sang Thriller?'), question('a2', 'who sang thriller')]),
+      ['warning near-duplicate #1']);
+  });
+
+  it('allows the same question for another country or period', () => {
+    assert.deepEqual(duplicateRules([
+      question('a1', 'Who sang Thriller?'),
+      question('a2', 'Who sang Thriller?', { country: 'United Kingdom' }),
+      question('a3', 'who sang thriller', { period: '2000-2019' }),
+    ]), []);
+  });
+});
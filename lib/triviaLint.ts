@@ -0,0 +1,265 @@
+import { normalizeAnswer, normalizeText } from '@/lib/text';
+import { CATEGORIES, collectSchemaIssues, isCategory, itemYears, periodYears, PERIODS, questionKey, SchemaIssue, TriviaItem } from '@/lib/trivia';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintRule =
+  | 'schema'
+  | 'missing-id'
+  | 'duplicate-id'
+  | 'unknown-period'
+  | 'year-outside-period'
+  | 'unknown-category'
+  | 'missing-category'
+  | 'missing-media'
+  | 'duplicate'
+  | 'near-duplicate'
+  | 'too-long'
+  | 'empty-fun-fact'
+  | 'bad-distractor';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  rule: LintRule;
+  index: number;
+  message: string;
+}
+
+// Longest text that still fits comfortably on the TV play screen at large text size.
+export const TEXT_LIMITS = {
+  question: 120,
+  answer: 60,
+  funFact: 160,
+};
+
+// Token overlap above which two questions are reported as near-duplicates.
+// Questions sharing the same answer are compared against the lower threshold.
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+export const SAME_ANSWER_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'in', 'on', 'to', 'was', 'what', 'which', 'who', 'did', 'is', 'and']);
+
+function tokenSet(text: string): Set<string> {
+  return new Set(normalizeText(text).split(' ').filter(word => word && !STOP_WORDS.has(word)));
+}
+
+function jaccard(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  left.forEach(word => {
+    if (right.has(word)) shared += 1;
+  });
+  return shared / (left.size + right.size - shared);
+}
+
+export function similarity(a: string, b: string): number {
+  return jaccard(tokenSet(a), tokenSet(b));
+}
+
+function lintLengths(item: TriviaItem, index: number): LintIssue[] {
+  const issues: LintIssue[] = [];
+  (Object.keys(TEXT_LIMITS) as (keyof typeof TEXT_LIMITS)[]).forEach(field => {
+    const value = item[field];
+    const limit = TEXT_LIMITS[field];
+    if (value && value.length > limit) {
+      issues.push({
+        severity: 'warning',
+        rule: 'too-long',
+        index,
+        message: `${field} is ${value.length} characters (limit ${limit} for TV display)`,
+      });
+    }
+  });
+  return issues;
+}
+
+export interface LintOptions {
+  // Whether a media path resolves to a file in public/; media isn't checked without it
+  mediaExists?: (src: string) => boolean;
+}
+
+export function lintTrivia(raw: unknown, { mediaExists }: LintOptions = {}): LintIssue[] {
+  const schemaIssues = collectSchemaIssues(raw);
+  const issues: LintIssue[] = schemaIssues.map(issue => ({
+    severity: 'error',
+    rule: 'schema',
+    index: issue.index,
+    message: issue.message,
+  }));
+  if (!Array.isArray(raw)) return issues;
+
+  // Only entries with a valid shape are checked for content problems
+  const broken = new Set(schemaIssues.map(issue => issue.index));
+  const entries = raw
+    .map((item, index) => ({ item: item as TriviaItem, index }))
+    .filter(entry => !broken.has(entry.index));
+
+  const seen = new Map<string, number>();
+  const ids = new Map<string, number>();
+  entries.forEach(({ item, index }) => {
+    if (item.id === undefined) {
+      issues.push({
+        severity: 'warning',
+        rule: 'missing-id',
+        index,
+        message: 'No id, so links, playlists and history lose this question if its text is edited (run npm run trivia:ids)',
+      });
+    } else if (ids.has(item.id)) {
+      issues.push({
+        severity: 'error',
+        rule: 'duplicate-id',
+        index,
+        message: `Id "${item.id}" is already used by entry #${ids.get(item.id)}`,
+      });
+    } else {
+      ids.set(item.id, index);
+    }
+
+    if (!PERIODS.includes(item.period)) {
+      issues.push({
+        severity: 'error',
+        rule: 'unknown-period',
+        index,
+        message: `Unknown period "${item.period}" (expected one of ${PERIODS.join(', ')})`,
+      });
+    }
+
+    if (item.category === undefined) {
+      issues.push({
+        severity: 'warning',
+        rule: 'missing-category',
+        index,
+        message: 'No category, so rounds narrowed to topics leave this question out',
+      });
+    } else if (!isCategory(item.category)) {
+      issues.push({
+        severity: 'error',
+        rule: 'unknown-category',
+        index,
+        message: `Unknown category "${item.category}" (expected one of ${CATEGORIES.join(', ')})`,
+      });
+    }
+
+    if (mediaExists) {
+      for (const kind of ['image', 'audio'] as const) {
+        const media = item[kind];
+        if (media && !mediaExists(media.src)) {
+          issues.push({
+            severity: 'warning',
+            rule: 'missing-media',
+            index,
+            message: `No file at public${media.src}, so players see the ${kind} description instead`,
+          });
+        }
+      }
+    }
+
+    // A decade round would include a question its own period's rounds leave out
+    const bounds = periodYears(item.period);
+    const years = itemYears(item);
+    if (bounds && years && (years.fromYear < bounds.fromYear || years.toYear > bounds.toYear)) {
+      issues.push({
+        severity: 'error',
+        rule: 'year-outside-period',
+        index,
+        message: `Year ${years.fromYear === years.toYear ? years.fromYear : `${years.fromYear}-${years.toYear}`} is outside the period ${item.period}`,
+      });
+    }
+
+    // The store's identity, so the linter fails the bank only for what /admin and import refuse too
+    const key = questionKey(item);
+    const firstIndex = seen.get(key);
+    if (firstIndex !== undefined) {
+      issues.push({
+        severity: 'error',
+        rule: 'duplicate',
+        index,
+        message: `Question duplicates entry #${firstIndex} for the same country and period`,
+      });
+    } else {
+      seen.set(key, index);
+    }
+
+    issues.push(...lintLengths(item, index));
+
+    if (item.funFact !== undefined && !item.funFact.trim()) {
+      issues.push({
+        severity: 'warning',
+        rule: 'empty-fun-fact',
+        index,
+        message: 'funFact is empty; remove the field or write a fact',
+      });
+    }
+
+    const answer = normalizeAnswer(item.answer);
+    const accepted = (item.acceptedAnswers || []).map(normalizeAnswer);
+    (item.distractors || []).forEach(distractor => {
+      const normalized = normalizeAnswer(distractor);
+      if (normalized === answer || accepted.includes(normalized)) {
+        issues.push({
+          severity: 'error',
+          rule: 'bad-distractor',
+          index,
+          message: normalized === answer
+            ? `Distractor "${distractor}" is the same as the answer`
+            : `Distractor "${distractor}" is also an accepted answer`,
+        });
+      }
+    });
+  });
+
+  const compared = entries.map(({ item, index }) => ({
+    index,
+    key: questionKey(item),
+    place: `${item.country}|${item.period}`,
+    question: normalizeText(item.question),
+    answer: normalizeAnswer(item.answer),
+    tokens: tokenSet(item.question),
+  }));
+  for (let i = 0; i < compared.length; i++) {
+    for (let j = i + 1; j < compared.length; j++) {
+      const a = compared[i];
+      const b = compared[j];
+      if (a.question === b.question) {
+        // Differs only in case or punctuation, which the store treats as a different question
+        if (a.key !== b.key && a.place === b.place) {
+          issues.push({
+            severity: 'warning',
+            rule: 'near-duplicate',
+            index: b.index,
+            message: `Question matches entry #${a.index} apart from case and punctuation`,
+          });
+        }
+        continue;
+      }
+      const score = jaccard(a.tokens, b.tokens);
+      const sameAnswer = a.answer === b.answer;
+      if (score >= NEAR_DUPLICATE_THRESHOLD || (sameAnswer && score >= SAME_ANSWER_THRESHOLD)) {
+        issues.push({
+          severity: 'warning',
+          rule: 'near-duplicate',
+          index: b.index,
+          message: `Question is ${Math.round(score * 100)}% similar to entry #${a.index}${sameAnswer ? ' and has the same answer' : ''}`,
+        });
+      }
+    }
+  }
+
+  return issues.sort((a, b) => a.index - b.index);
+}
+
+// The field each content rule points at
+const RULE_FIELDS: Partial<Record<LintRule, string>> = {
+  'unknown-period': 'period',
+  'year-outside-period': 'year',
+  'unknown-category': 'category',
+  'bad-distractor': 'distractors',
+};
+
+// Errors the linter would fail the bank for in a single well-formed item, for checking
+// edits and imports as they arrive. Duplicates are left to the caller, which knows the bank.
+export function contentErrors(item: TriviaItem, index: number): SchemaIssue[] {
+  return lintTrivia([item])
+    .filter(issue => issue.severity === 'error' && issue.rule !== 'duplicate')
+    .map(issue => ({ index, field: RULE_FIELDS[issue.rule], message: issue.message }));
+}
@@ -0,0 +1,71 @@
+import type { TriviaItem } from '@/lib/trivia';
+
+export interface TriviaQuery {
+  // Matched ignoring case
+  countries?: string[];
+  period?: string;
+  // Items whose years overlap these; either end may be left open
+  fromYear?: number;
+  toYear?: number;
+  // Only these categories; items without one are left out
+  categories?: string[];
+  // Everything except these categories; items without one are kept
+  excludeCategories?: string[];
+  // Items without a difficulty count as medium
+  difficulties?: string[];
+}
+
+export interface TriviaCount {
+  country: string;
+  period: string;
+  // The years these questions cover, null when the period isn't a span of years
+  fromYear: number | null;
+  toYear: number | null;
+  category: string | null;
+  difficulty: string | null;
+  count: number;
+}
+
+// Where the question bank is kept. Items come back in the order they were added, so a
+// seeded round picks the same questions whichever implementation serves it.
+// Items are validated and given ids before they reach a repository; repositories only enforce
+// unique ids and unique keys (the same question text for the same country and period).
+export interface TriviaRepository {
+  list(query?: TriviaQuery): Promise<TriviaItem[]>;
+  get(id: string): Promise<TriviaItem | null>;
+  // Questions per country, period, span of years, category and difficulty, countries in the order they first appear
+  counts(): Promise<TriviaCount[]>;
+  // Adds all of the items or, if one of their ids or keys is taken, none of them
+  add(items: TriviaItem[]): Promise<void>;
+  // Returns false when no item has the id. The item keeps that id whatever its own says.
+  replace(id: string, item: TriviaItem): Promise<boolean>;
+  remove(id: string): Promise<boolean>;
+  // Every id in use, for giving new questions one that isn't
+  ids(): Promise<string[]>;
+}
+
+export class DuplicateKeyError extends Error {
+  key: string;
+  // Position of the offending item in the list passed to add(); 0 for replace()
+  position: number;
+
+  constructor(key: string, position: number) {
+    super(`A question with key ${key} already exists`);
+    this.name = 'DuplicateKeyError';
+    this.key = key;
+    this.position = position;
+  }
+}
+
+export class DuplicateIdError extends Error {
+  id: string;
+  // Position of the offending item in the list passed to add()
+  position: number;
+
+  constructor(id: string, position: number) {
+    super(`A question with id ${id} already exists`);
+    this.name = 'DuplicateIdError';
+    this.id = id;
+    this.position = position;
+  }
+}
@@ -0,0 +1,217 @@
+import { existsSync, mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { itemYears, questionId, questionKey, TriviaItem, withIds } from '@/lib/trivia';
+import { DuplicateIdError, DuplicateKeyError, TriviaCount, TriviaQuery, TriviaRepository } from '@/lib/triviaRepository';
+
+// Items are stored whole as JSON; the question id, country, period, years, category and difficulty get their own
+// indexed columns for lookups. The row id keeps the order items were added in, and key holds questionKey.
+// Each step brings the schema up from the version before it; add new steps at the end.
+const MIGRATIONS: ((db: Database.Database) => void)[] = [
+  db => db.exec(`
+    CREATE TABLE trivia (
+      id INTEGER PRIMARY KEY,
+      key TEXT NOT NULL UNIQUE,
+      country TEXT NOT NULL COLLATE NOCASE,
+      period TEXT NOT NULL,
+      item TEXT NOT NULL
+    );
+    CREATE INDEX trivia_country_period ON trivia (country, period);
+    CREATE INDEX trivia_period ON trivia (period);
+  `),
+  db => {
+    db.exec(`
+      ALTER TABLE trivia ADD COLUMN from_year INTEGER;
+      ALTER TABLE trivia ADD COLUMN to_year INTEGER;
+      CREATE INDEX trivia_country_years ON trivia (country, from_year, to_year);
+    `);
+    const setYears = db.prepare('UPDATE trivia SET from_year = ?, to_year = ? WHERE id = ?');
+    for (const row of db.prepare('SELECT id, item FROM trivia').all() as { id: number; item: string }[]) {
+      const years = itemYears(JSON.parse(row.item));
+      setYears.run(years ? years.fromYear : null, years ? years.toYear : null, row.id);
+    }
+  },
+  db => {
+    db.exec(`
+      ALTER TABLE trivia ADD COLUMN category TEXT;
+      CREATE INDEX trivia_country_category ON trivia (country, category);
+    `);
+    const setCategory = db.prepare('UPDATE trivia SET category = ? WHERE id = ?');
+    for (const row of db.prepare('SELECT id, item FROM trivia').all() as { id: number; item: string }[]) {
+      setCategory.run((JSON.parse(row.item) as TriviaItem).category || null, row.id);
+    }
+  },
+  db => {
+    db.exec('ALTER TABLE trivia ADD COLUMN difficulty TEXT');
+    const setDifficulty = db.prepare('UPDATE trivia SET difficulty = ? WHERE id = ?');
+    for (const row of db.prepare('SELECT id, item FROM trivia').all() as { id: number; item: string }[]) {
+      setDifficulty.run((JSON.parse(row.item) as TriviaItem).difficulty || null, row.id);
+    }
+  },
+  db => {
+    db.exec('ALTER TABLE trivia ADD COLUMN question_id TEXT');
+    const rows = db.prepare('SELECT id, item FROM trivia ORDER BY id').all() as { id: number; item: string }[];
+    const items = withIds(rows.map(row => JSON.parse(row.item) as TriviaItem));
+    const setId = db.prepare('UPDATE trivia SET question_id = ?, item = ? WHERE id = ?');
+    rows.forEach((row, i) => setId.run(items[i].id, JSON.stringify(items[i]), row.id));
+    db.exec('CREATE UNIQUE INDEX trivia_question_id ON trivia (question_id)');
+  },
+];
+
+function migrate(db: Database.Database) {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(version).forEach((step, i) => {
+    db.transaction(() => {
+      step(db);
+      db.pragma(`user_version = ${version + i + 1}`);
+    })();
+  });
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Database.SqliteError && error.code === 'SQLITE_CONSTRAINT_UNIQUE';
+}
+
+// The unique index on question_id, rather than the one on key
+function isIdViolation(error: unknown): boolean {
+  return isUniqueViolation(error) && (error as Error).message.includes('question_id');
+}
+
+function parseRows(rows: unknown[]): TriviaItem[] {
+  return (rows as { item: string }[]).map(row => JSON.parse(row.item) as TriviaItem);
+}
+
+// Opened on first use. Without create, a missing file is an error rather than an empty bank.
+export function createSqliteTriviaRepository(file: string, { create = false } = {}): TriviaRepository {
+  let db: Database.Database | null = null;
+
+  const open = (): Database.Database => {
+    if (!db) {
+      if (!create && !existsSync(file)) {
+        throw new Error(`No trivia database at ${file}; create it with npm run trivia:migrate`);
+      }
+      mkdirSync(path.dirname(file), { recursive: true });
+      db = new Database(file);
+      db.pragma('journal_mode = WAL');
+      migrate(db);
+    }
+    return db;
+  };
+
+  // Values for the question_id, key, country, period, from_year, to_year, category, difficulty and item columns
+  const columns = (item: TriviaItem) => {
+    const years = itemYears(item);
+    return [
+      questionId(item),
+      questionKey(item),
+      item.country,
+      item.period,
+      years ? years.fromYear : null,
+      years ? years.toYear : null,
+      item.category || null,
+      item.difficulty || null,
+      JSON.stringify(item),
+    ];
+  };
+
+  const placeholders = (values: unknown[]) => values.map(() => '?').join(', ');
+
+  const insert = (item: TriviaItem) => {
+    open()
+      .prepare(`
+        INSERT INTO trivia (question_id, key, country, period, from_year, to_year, category, difficulty, item)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(...columns(item));
+  };
+
+  return {
+    async list({ countries, period, fromYear, toYear, categories, excludeCategories, difficulties }: TriviaQuery = {}) {
+      const where: string[] = [];
+      const params: (string | number)[] = [];
+      if (countries) {
+        where.push(`country IN (${placeholders(countries)})`);
+        params.push(...countries);
+      }
+      if (period) {
+        where.push('period = ?');
+        params.push(period);
+      }
+      if (fromYear !== undefined) {
+        where.push('to_year >= ?');
+        params.push(fromYear);
+      }
+      if (toYear !== undefined) {
+        where.push('from_year <= ?');
+        params.push(toYear);
+      }
+      if (categories) {
+        where.push(`category IN (${placeholders(categories)})`);
+        params.push(...categories);
+      }
+      if (excludeCategories) {
+        where.push(`(category IS NULL OR category NOT IN (${placeholders(excludeCategories)}))`);
+        params.push(...excludeCategories);
+      }
+      if (difficulties) {
+        where.push(`COALESCE(difficulty, 'medium') IN (${placeholders(difficulties)})`);
+        params.push(...difficulties);
+      }
+      const clause = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+      return parseRows(open().prepare(`SELECT item FROM trivia ${clause} ORDER BY id`).all(...params));
+    },
+
+    async get(id) {
+      return parseRows(open().prepare('SELECT item FROM trivia WHERE question_id = ?').all(id))[0] || null;
+    },
+
+    async counts() {
+      return open()
+        .prepare(`
+          SELECT country, period, from_year AS fromYear, to_year AS toYear, category, difficulty, COUNT(*) AS count
+          FROM trivia GROUP BY country, period, from_year, to_year, category, difficulty ORDER BY MIN(id)
+        `)
+        .all() as TriviaCount[];
+    },
+
+    async add(items) {
+      const addAll = open().transaction((added: TriviaItem[]) => {
+        added.forEach((item, i) => {
+          try {
+            insert(item);
+          } catch (error) {
+            if (isIdViolation(error)) throw new DuplicateIdError(questionId(item), i);
+            if (isUniqueViolation(error)) throw new DuplicateKeyError(questionKey(item), i);
+            throw error;
+          }
+        });
+      });
+      addAll(items);
+    },
+
+    async replace(id, item) {
+      try {
+        const result = open()
+          .prepare(`
+            UPDATE trivia
+            SET question_id = ?, key = ?, country = ?, period = ?, from_year = ?, to_year = ?, category = ?, difficulty = ?, item = ?
+            WHERE question_id = ?
+          `)
+          .run(...columns({ ...item, id }), id);
+        return result.changes > 0;
+      } catch (error) {
+        if (isUniqueViolation(error)) throw new DuplicateKeyError(questionKey(item), 0);
+        throw error;
+      }
+    },
+
+    async remove(id) {
+      return open().prepare('DELETE FROM trivia WHERE question_id = ?').run(id).changes > 0;
+    },
+
+    async ids() {
+      return (open().prepare('SELECT question_id FROM trivia ORDER BY id').all() as { question_id: string }[])
+        .map(row => row.question_id);
+    },
+  };
+}
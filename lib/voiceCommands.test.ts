@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseDecade, parseNumber, parseVoiceCommand } from '@/lib/voiceCommands';
+
+const vocabulary = { countries: ['Nigeria', 'USA', 'United Kingdom'], periods: ['1960-1979', '1980-1999'] };
+
+describe('parseVoiceCommand in the menu', () => {
+  it('selects countries in the order they were said, including aliases', () => {
+    assert.deepEqual(parseVoiceCommand('Choose Nigeria and America', 'menu', 'en', vocabulary),
+      { type: 'selectCountries', countries: ['Nigeria', 'USA'] });
+    assert.deepEqual(parseVoiceCommand('britain and nigeria', 'menu', 'en', vocabulary),
+      { type: 'selectCountries', countries: ['United Kingdom', 'Nigeria'] });
+  });
+
+  it('picks the period holding a spoken decade, or any time', () => {
+    assert.deepEqual(parseVoiceCommand('nineteen sixties', 'menu', 'en', vocabulary), { type: 'selectPeriod', period: '1960-1979' });
+    assert.deepEqual(parseVoiceCommand('the 80s', 'menu', 'en', vocabulary), { type: 'selectPeriod', period: '1980-1999' });
+    assert.deepEqual(parseVoiceCommand('any time', 'menu', 'en', vocabulary), { type: 'selectPeriod', period: 'Any Time' });
+    assert.equal(parseVoiceCommand('the fifties', 'menu', 'en', vocabulary), null);
+  });
+
+  it('sets the number of questions', () => {
+    assert.deepEqual(parseVoiceCommand('twelve questions', 'menu', 'en', vocabulary), { type: 'setCount', count: 12 });
+    assert.deepEqual(parseVoiceCommand('twenty one questions', 'menu', 'en', vocabulary), { type: 'setCount', count: 21 });
+    assert.deepEqual(parseVoiceCommand('eight', 'menu', 'en', vocabulary), { type: 'setCount', count: 8 });
+  });
+
+  it('prefers "stop listening" over "stop"', () => {
+    assert.deepEqual(parseVoiceCommand('stop listening', 'menu'), { type: 'stopListening' });
+    assert.deepEqual(parseVoiceCommand("let's play", 'menu'), { type: 'start' });
+    assert.deepEqual(parseVoiceCommand('what can I say?', 'menu'), { type: 'help' });
+  });
+});
+
+describe('parseVoiceCommand during a round', () => {
+  it('understands the play commands', () => {
+    assert.deepEqual(parseVoiceCommand('Pause', 'play'), { type: 'pause' });
+    assert.deepEqual(parseVoiceCommand('keep going', 'play'), { type: 'resume' });
+    assert.deepEqual(parseVoiceCommand("what's the answer", 'play'), { type: 'reveal' });
+    assert.deepEqual(parseVoiceCommand('go back', 'play'), { type: 'previous' });
+    assert.deepEqual(parseVoiceCommand('skip', 'play'), { type: 'next' });
+    assert.deepEqual(parseVoiceCommand('main menu', 'play'), { type: 'exit' });
+  });
+
+  it('matches whole words only', () => {
+    assert.equal(parseVoiceCommand('nextdoor neighbours', 'play'), null);
+    assert.equal(parseVoiceCommand('', 'play'), null);
+  });
+
+  it('uses the command words of the chosen language', () => {
+    assert.deepEqual(parseVoiceCommand('siguiente', 'play', 'es'), { type: 'next' });
+    assert.deepEqual(parseVoiceCommand('अगला सवाल', 'play', 'hi'), { type: 'next' });
+    assert.deepEqual(parseVoiceCommand('12 preguntas', 'menu', 'es', vocabulary), { type: 'setCount', count: 12 });
+  });
+
+  it('ignores accents and tone marks the recogniser leaves out', () => {
+    assert.deepEqual(parseVoiceCommand('Tẹ̀síwájú', 'play', 'yo'), { type: 'resume' });
+    assert.deepEqual(parseVoiceCommand('tesiwaju', 'play', 'yo'), { type: 'resume' });
+    assert.deepEqual(parseVoiceCommand('cual es la respuesta', 'play', 'es'), { type: 'reveal' });
+  });
+});
+
+describe('number and decade words', () => {
+  it('reads numbers said as words or digits', () => {
+    assert.equal(parseNumber(['fifteen']), 15);
+    assert.equal(parseNumber(['forty', 'two']), 42);
+    assert.equal(parseNumber(['7']), 7);
+    assert.equal(parseNumber(['lots']), null);
+  });
+
+  it('reads decades', () => {
+    assert.equal(parseDecade('nineteen seventies'), 1970);
+    assert.equal(parseDecade('1990s'), 1990);
+    assert.equal(parseDecade('noughties'), 2000);
+    assert.equal(parseDecade('eighteen nineties'), 1890);
+    assert.equal(parseDecade('hello'), null);
+  });
+});
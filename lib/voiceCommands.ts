@@ -0,0 +1,193 @@
+import { ANY_PERIOD } from '@/lib/catalog';
+import { DEFAULT_LOCALE, Locale, translate } from '@/lib/i18n';
+import type { MessageKey } from '@/lib/messages/en';
+import { foldAccents, normalizeText, NUMBER_WORDS } from '@/lib/text';
+
+export type VoiceScope = 'menu' | 'play';
+
+export type VoiceCommand =
+  | { type: 'selectCountries'; countries: string[] }
+  | { type: 'selectPeriod'; period: string }
+  | { type: 'setCount'; count: number }
+  | { type: 'start' }
+  | { type: 'stopListening' }
+  | { type: 'help' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'repeat' }
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'reveal' }
+  | { type: 'exit' };
+
+// What the menu can offer, so phrases are matched against real options
+export interface VoiceVocabulary {
+  countries: string[];
+  // Periods such as "1960-1979"
+  periods: string[];
+}
+
+// Shown on screen while listening and read out by voice help
+export const VOICE_COMMAND_HELP: Record<VoiceScope, MessageKey[]> = {
+  menu: [
+    'voice.example.choose',
+    'voice.example.period',
+    'voice.example.count',
+    'voice.example.start',
+    'voice.example.help',
+    'voice.example.stopListening',
+  ],
+  play: [
+    'voice.example.pause',
+    'voice.example.repeat',
+    'voice.example.reveal',
+    'voice.example.next',
+    'voice.example.exit',
+    'voice.example.stopListening',
+  ],
+};
+
+const DECADE_WORDS: Record<string, number> = {
+  tens: 10, twenties: 20, thirties: 30, forties: 40, fifties: 50,
+  sixties: 60, seventies: 70, eighties: 80, nineties: 90,
+};
+
+// Spoken-alias -> catalog country; names not listed here match on their own name
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  USA: ['usa', 'u s a', 'u s', 'united states', 'america', 'the states'],
+  'United Kingdom': ['uk', 'u k', 'britain', 'great britain', 'england'],
+};
+
+// Phrase lists from the message tables, tried in order so "stop listening" wins over "stop"
+const PLAY_PHRASES: [MessageKey, VoiceCommand['type']][] = [
+  ['voice.say.stopListening', 'stopListening'],
+  ['voice.say.exit', 'exit'],
+  ['voice.say.resume', 'resume'],
+  ['voice.say.pause', 'pause'],
+  ['voice.say.repeat', 'repeat'],
+  ['voice.say.reveal', 'reveal'],
+  ['voice.say.previous', 'previous'],
+  ['voice.say.next', 'next'],
+  ['voice.say.help', 'help'],
+];
+
+const MENU_PHRASES: [MessageKey, VoiceCommand['type']][] = [
+  ['voice.say.stopListening', 'stopListening'],
+  ['voice.say.cancel', 'stopListening'],
+  ['voice.say.start', 'start'],
+  ['voice.say.help', 'help'],
+];
+
+// Recognisers often leave out accents and Yorùbá tone marks, so both sides are compared without them
+function normalizePhrase(text: string): string {
+  return normalizeText(foldAccents(text));
+}
+
+function phrases(locale: Locale, key: MessageKey): string[] {
+  return translate(locale, key).split(',').map(normalizePhrase).filter(Boolean);
+}
+
+// Whole-word match that also works for scripts \b doesn't know, such as Devanagari
+function saysAny(text: string, candidates: string[]): boolean {
+  return candidates.some(phrase => ` ${text} `.includes(` ${phrase} `));
+}
+
+function matchPhrases(text: string, locale: Locale, table: [MessageKey, VoiceCommand['type']][]): VoiceCommand | null {
+  const found = table.find(([key]) => saysAny(text, phrases(locale, key)));
+  return found ? { type: found[1] } as VoiceCommand : null;
+}
+
+// "twelve", "twenty one" or "12"
+export function parseNumber(words: string[]): number | null {
+  if (words.length === 0) return null;
+  if (/^\d+$/.test(words[0])) return parseInt(words[0], 10);
+  const first = NUMBER_WORDS[words[0]];
+  if (first === undefined) return null;
+  const second = words.length > 1 ? NUMBER_WORDS[words[1]] : undefined;
+  if (first >= 20 && first % 10 === 0 && second !== undefined && second < 10) return first + second;
+  return first;
+}
+
+// A decade named in the phrase, e.g. "nineteen sixties", "the 60s", "1960s", "two thousands"
+export function parseDecade(text: string): number | null {
+  const digits = text.match(/\b(1[89]|20)(\d)0 ?s\b/) || text.match(/\b(1[89]|20)(\d)0\b/);
+  if (digits) return parseInt(`${digits[1]}${digits[2]}0`, 10);
+
+  const shortDigits = text.match(/\b([1-9])0 ?s\b/);
+  if (shortDigits) return 1900 + parseInt(shortDigits[1], 10) * 10;
+
+  if (/\b(two thousands|noughties|twenty hundreds)\b/.test(text)) return 2000;
+  if (/\btwenty tens\b/.test(text)) return 2010;
+
+  const words = text.split(' ');
+  for (let i = 0; i < words.length; i++) {
+    const decade = DECADE_WORDS[words[i]];
+    if (decade === undefined) continue;
+    const century = words[i - 1] === 'eighteen' ? 1800 : 1900;
+    return century + decade;
+  }
+  return null;
+}
+
+function matchCountries(text: string, countries: string[]): string[] {
+  const found: { country: string; position: number }[] = [];
+  for (const country of countries) {
+    const names = [normalizeText(country), ...(COUNTRY_ALIASES[country] || [])];
+    let position = -1;
+    for (const name of names) {
+      const match = new RegExp(`\\b${name}\\b`).exec(text);
+      if (match && (position === -1 || match.index < position)) position = match.index;
+    }
+    if (position !== -1) found.push({ country, position });
+  }
+  return found.sort((a, b) => a.position - b.position).map(f => f.country);
+}
+
+function matchPeriod(text: string, periods: string[], locale: Locale): string | null {
+  if (saysAny(text, phrases(locale, 'voice.say.anyTime'))) return ANY_PERIOD;
+  const decade = parseDecade(text);
+  if (decade === null) return null;
+  const period = periods.find(p => {
+    const [from, to] = p.split('-').map(Number);
+    return decade >= from && decade <= to;
+  });
+  return period || null;
+}
+
+function matchCount(text: string, locale: Locale): number | null {
+  const words = text.split(' ');
+  const questionWords = phrases(locale, 'voice.say.questions');
+  const index = words.findIndex(word => questionWords.includes(word));
+  if (index > 0) {
+    const start = words[index - 2] && NUMBER_WORDS[words[index - 2]] >= 20 ? index - 2 : index - 1;
+    return parseNumber(words.slice(start, index));
+  }
+  // A bare number on its own ("twelve") also sets the count
+  const number = parseNumber(words);
+  return number !== null && words.length <= 2 ? number : null;
+}
+
+// Command words come from the locale's message table (English where it has none).
+// Country names, decades and number words are matched in English; digits work in any language.
+export function parseVoiceCommand(
+  transcript: string,
+  scope: VoiceScope,
+  locale: Locale = DEFAULT_LOCALE,
+  vocabulary: VoiceVocabulary = { countries: [], periods: [] }
+): VoiceCommand | null {
+  const text = normalizePhrase(transcript);
+  if (!text) return null;
+
+  if (scope === 'play') return matchPhrases(text, locale, PLAY_PHRASES);
+
+  const countries = matchCountries(text, vocabulary.countries);
+  if (countries.length > 0) return { type: 'selectCountries', countries };
+
+  const period = matchPeriod(text, vocabulary.periods, locale);
+  if (period) return { type: 'selectPeriod', period };
+
+  const count = matchCount(text, locale);
+  if (count !== null) return { type: 'setCount', count };
+
+  return matchPhrases(text, locale, MENU_PHRASES);
+}
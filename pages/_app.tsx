@@ -1,6 +1,11 @@
 import '@/styles/globals.css'
 import type { AppProps } from 'next/app'
+import PreferencesProvider from '@/components/PreferencesProvider'
 
 export default function App({ Component, pageProps }: AppProps) {
-  return <Component {...pageProps} />
+  return (
+    <PreferencesProvider>
+      <Component {...pageProps} />
+    </PreferencesProvider>
+  )
 }
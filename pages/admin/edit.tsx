@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import AdminLogin from '@/components/AdminLogin';
+import TriviaItemForm from '@/components/TriviaItemForm';
+import { useAdminPassword } from '@/hooks/useAdminPassword';
+import { adminRequest, AdminRequestError } from '@/lib/adminClient';
+import type { AdminTriviaItem } from '@/lib/triviaAdmin';
+import type { SchemaIssue, TriviaItem } from '@/lib/trivia';
+
+// /admin/edit adds a question; /admin/edit?id=<id> edits one
+export default function AdminEdit() {
+  const router = useRouter();
+  const id = typeof router.query.id === 'string' ? router.query.id : null;
+  const { password, loaded, setPassword } = useAdminPassword();
+  const [bank, setBank] = useState<AdminTriviaItem[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [issues, setIssues] = useState<SchemaIssue[]>([]);
+
+  const handleError = (err: unknown) => {
+    if (err instanceof AdminRequestError && err.status === 401) setPassword(null);
+    setError(err instanceof AdminRequestError ? err.message : 'Could not reach the server');
+    setIssues(err instanceof AdminRequestError ? err.issues : []);
+  };
+
+  // The whole bank feeds the country list, the multiple-choice preview and the item being edited
+  useEffect(() => {
+    if (!password || !router.isReady) return;
+    adminRequest<{ items: AdminTriviaItem[] }>('/trivia', password)
+      .then(data => setBank(data.items))
+      .catch(handleError);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [password, router.isReady]);
+
+  const initial = bank && id ? bank.find(item => item.id === id) : undefined;
+  const countries = bank ? Array.from(new Set(bank.map(item => item.country))) : [];
+  const others = bank ? bank.filter(item => item.id !== id) : [];
+
+  const handleSubmit = async (item: TriviaItem) => {
+    if (!password) return;
+    setSaving(true);
+    try {
+      await adminRequest(id ? `/trivia/${id}` : '/trivia', password, {
+        method: id ? 'PUT' : 'POST',
+        body: JSON.stringify(item),
+      });
+      router.push('/admin');
+    } catch (err) {
+      handleError(err);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>{`World Trivia TV - ${id ? 'Edit' : 'New'} Question`}</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <div className="min-h-screen p-8 bg-blue-900 text-white">
+        {!loaded ? null : !password ? (
+          <AdminLogin onSignIn={setPassword} />
+        ) : (
+          <div className="max-w-7xl mx-auto">
+            <header className="flex flex-wrap justify-between items-center gap-4 mb-8">
+              <h1 className="text-5xl font-bold">{id ? '✏️ Edit Question' : '➕ New Question'}</h1>
+              <Link
+                href="/admin"
+                className="px-6 py-3 rounded-xl font-bold text-xl bg-blue-500 hover:bg-blue-400 focus:outline-none focus:ring-4 focus:ring-yellow-400"
+              >
+                ⬅️ All Questions
+              </Link>
+            </header>
+
+            {error && <p className="mb-6 p-4 rounded-xl bg-red-600 text-xl" role="alert">{error}</p>}
+
+            {!bank ? (
+              !error && <p className="text-xl text-white/70" role="status">Loading...</p>
+            ) : id && !initial ? (
+              <p className="text-xl">No question has this id. It may have been deleted.</p>
+            ) : (
+              <TriviaItemForm
+                key={id || 'new'}
+                initial={initial}
+                countries={countries}
+                bank={others}
+                saving={saving}
+                issues={issues}
+                submitLabel={id ? '💾 Save Changes' : '➕ Add Question'}
+                onSubmit={handleSubmit}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,176 @@
+import { ChangeEvent, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import AdminLogin from '@/components/AdminLogin';
+import { useAdminPassword } from '@/hooks/useAdminPassword';
+import { adminRequest, AdminRequestError } from '@/lib/adminClient';
+import type { ImportReport } from '@/lib/triviaCsv';
+
+interface ImportResponse {
+  report: ImportReport;
+  imported: number;
+}
+
+interface ChosenFile {
+  name: string;
+  text: string;
+}
+
+export default function AdminImport() {
+  const { password, loaded, setPassword } = useAdminPassword();
+  const [file, setFile] = useState<ChosenFile | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [imported, setImported] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleError = (err: unknown) => {
+    if (err instanceof AdminRequestError && err.status === 401) setPassword(null);
+    setError(err instanceof AdminRequestError ? err.message : 'Could not reach the server');
+  };
+
+  // Without commit the server only checks the file
+  const sendFile = async (chosen: ChosenFile, commit: boolean) => {
+    if (!password) return;
+    setBusy(true);
+    setError('');
+    try {
+      const data = await adminRequest<ImportResponse>(`/trivia/import${commit ? '?commit=1' : ''}`, password, {
+        method: 'POST',
+        headers: { 'Content-Type': chosen.name.toLowerCase().endsWith('.tsv') ? 'text/tab-separated-values' : 'text/csv' },
+        body: chosen.text,
+      });
+      setReport(data.report);
+      if (commit) setImported(data.imported);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const input = e.target.files && e.target.files[0];
+    if (!input) return;
+    const chosen = { name: input.name, text: await input.text() };
+    setFile(chosen);
+    setReport(null);
+    setImported(null);
+    sendFile(chosen, false);
+  };
+
+  const buttonClass = 'px-6 py-3 rounded-xl font-bold text-xl transition-colors focus:outline-none focus:ring-4 focus:ring-yellow-400';
+
+  return (
+    <>
+      <Head>
+        <title>World Trivia TV - Import Questions</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <div className="min-h-screen p-8 bg-blue-900 text-white">
+        {!loaded ? null : !password ? (
+          <AdminLogin onSignIn={setPassword} />
+        ) : (
+          <div className="max-w-7xl mx-auto">
+            <header className="flex flex-wrap justify-between items-center gap-4 mb-8">
+              <h1 className="text-5xl font-bold">⬆️ Import Questions</h1>
+              <Link href="/admin" className={`${buttonClass} bg-blue-500 hover:bg-blue-400`}>
+                ⬅️ All Questions
+              </Link>
+            </header>
+
+            <p className="text-xl text-white/80 mb-2">
+              Choose a CSV or TSV file with the columns country, period, question and answer, and optionally
+              category, difficulty (easy, medium or hard), funFact, distractors, acceptedAnswers, year, yearRange
+              (such as 1965-1972), image, imageAlt, imagePhase, audio, audioAlt and audioPhase. Separate list entries with |. Translations go in columns such as question.es or answer.yo.
+            </p>
+            <p className="text-xl text-white/80 mb-6">The file is checked first; nothing is saved until you confirm.</p>
+
+            <input
+              type="file"
+              accept=".csv,.tsv,text/csv,text/tab-separated-values"
+              onChange={handleFileChange}
+              aria-label="CSV or TSV file"
+              className="mb-8 text-xl file:mr-4 file:px-6 file:py-3 file:rounded-xl file:border-0 file:font-bold file:bg-yellow-500 file:text-black"
+            />
+
+            {error && <p className="mb-6 p-4 rounded-xl bg-red-600 text-xl" role="alert">{error}</p>}
+            {busy && <p className="text-xl text-white/70" role="status">Checking {file?.name}...</p>}
+
+            {report && !busy && (
+              <section aria-label="Import report" className="flex flex-col gap-8">
+                <p className="text-2xl font-bold" role="status">
+                  {imported !== null
+                    ? `✅ Added ${imported} question${imported === 1 ? '' : 's'} from ${file?.name}`
+                    : `${file?.name}: ${report.rows} rows, ${report.items.length} new, ${report.duplicates.length} duplicates, ${report.issues.length} errors`}
+                </p>
+
+                {report.issues.length > 0 && (
+                  <div>
+                    <h2 className="text-3xl font-bold mb-2">❌ Errors</h2>
+                    <p className="text-lg text-white/70 mb-4">Fix these in the spreadsheet and choose the file again.</p>
+                    <table className="w-full text-left text-lg">
+                      <thead>
+                        <tr className="border-b-2 border-blue-700">
+                          <th className="py-2 pr-4">Row</th>
+                          <th className="py-2 pr-4">Column</th>
+                          <th className="py-2">Problem</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.issues.map((issue, i) => (
+                          <tr key={i} className="border-b border-blue-800">
+                            <td className="py-2 pr-4">{issue.row}</td>
+                            <td className="py-2 pr-4">{issue.field || ''}</td>
+                            <td className="py-2 text-red-300">{issue.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {report.duplicates.length > 0 && (
+                  <div>
+                    <h2 className="text-3xl font-bold mb-2">⏭️ Skipped duplicates</h2>
+                    <ul className="text-lg list-disc pl-8">
+                      {report.duplicates.map(duplicate => (
+                        <li key={duplicate.row}>
+                          Row {duplicate.row}: {duplicate.question}{' '}
+                          <span className="text-white/60">
+                            ({duplicate.inBank ? 'already in the bank' : 'repeats an earlier row'})
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {imported === null && report.items.length > 0 && (
+                  <div>
+                    <h2 className="text-3xl font-bold mb-4">➕ New questions</h2>
+                    <ul className="text-lg list-disc pl-8 mb-6">
+                      {report.items.map(item => (
+                        <li key={`${item.country}|${item.period}|${item.question}`}>
+                          {item.question} <span className="text-white/60">({item.country} · {item.period})</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <button
+                      onClick={() => file && sendFile(file, true)}
+                      disabled={report.issues.length > 0}
+                      className={`${buttonClass} bg-green-600 hover:bg-green-500 disabled:opacity-40`}
+                    >
+                      ➕ Import {report.items.length} Question{report.items.length === 1 ? '' : 's'}
+                    </button>
+                  </div>
+                )}
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import AdminLogin from '@/components/AdminLogin';
+import { useAdminPassword } from '@/hooks/useAdminPassword';
+import { adminDownload, adminRequest, AdminRequestError } from '@/lib/adminClient';
+import { AdminTriviaItem, categoryLabel, difficultyLabel, UNCATEGORIZED } from '@/lib/triviaAdmin';
+import { CATEGORIES, DIFFICULTIES, itemDifficulty, PERIODS } from '@/lib/trivia';
+
+interface ListResponse {
+  items: AdminTriviaItem[];
+  total: number;
+}
+
+export default function AdminList() {
+  const { password, loaded, setPassword } = useAdminPassword();
+  const [items, setItems] = useState<AdminTriviaItem[]>([]);
+  const [countries, setCountries] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [search, setSearch] = useState('');
+  const [country, setCountry] = useState('');
+  const [period, setPeriod] = useState('');
+  const [category, setCategory] = useState('');
+  const [difficulty, setDifficulty] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const handleError = (err: unknown) => {
+    if (err instanceof AdminRequestError && err.status === 401) setPassword(null);
+    setError(err instanceof AdminRequestError ? err.message : 'Could not reach the server');
+  };
+
+  const loadItems = async () => {
+    if (!password) return;
+    const query = new URLSearchParams({ search, country, period, category, difficulty }).toString();
+    try {
+      const data = await adminRequest<ListResponse>(`/trivia?${query}`, password);
+      setItems(data.items);
+      setTotal(data.total);
+      setError('');
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Typing in the search box waits for a pause before asking the server
+  useEffect(() => {
+    const timer = setTimeout(loadItems, 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [password, search, country, period, category, difficulty]);
+
+  useEffect(() => {
+    fetch('/api/catalog')
+      .then(response => response.json())
+      .then(data => {
+        if (data.countries) setCountries(data.countries.map((c: { name: string }) => c.name));
+      })
+      .catch(() => {});
+  }, []);
+
+  const handleDelete = async (item: AdminTriviaItem) => {
+    if (!password || !window.confirm(`Delete "${item.question}"? This cannot be undone.`)) return;
+    try {
+      await adminRequest(`/trivia/${item.id}`, password, { method: 'DELETE' });
+      await loadItems();
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  // Exports what the filters currently show
+  const handleExport = async () => {
+    if (!password) return;
+    const query = new URLSearchParams({ search, country, period, category, difficulty }).toString();
+    try {
+      const file = await adminDownload(`/trivia/export?${query}`, password);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(file);
+      link.download = 'trivia.csv';
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const fieldClass = 'px-4 py-3 rounded-lg text-black text-xl focus:outline-none focus:ring-4 focus:ring-yellow-400';
+  const buttonClass = 'px-6 py-3 rounded-xl font-bold text-xl transition-colors focus:outline-none focus:ring-4 focus:ring-yellow-400';
+
+  return (
+    <>
+      <Head>
+        <title>World Trivia TV - Admin</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <div className="min-h-screen p-8 bg-blue-900 text-white">
+        {!loaded ? null : !password ? (
+          <AdminLogin onSignIn={setPassword} />
+        ) : (
+          <div className="max-w-7xl mx-auto">
+            <header className="flex flex-wrap justify-between items-center gap-4 mb-8">
+              <h1 className="text-5xl font-bold">🛠️ Trivia Admin</h1>
+              <div className="flex flex-wrap gap-4">
+                <Link href="/admin/edit" className={`${buttonClass} bg-green-600 hover:bg-green-500`}>
+                  ➕ New Question
+                </Link>
+                <Link href="/admin/import" className={`${buttonClass} bg-blue-500 hover:bg-blue-400`}>
+                  ⬆️ Import CSV
+                </Link>
+                <Link href="/admin/playlists" className={`${buttonClass} bg-blue-500 hover:bg-blue-400`}>
+                  🎵 Playlists
+                </Link>
+                <button onClick={handleExport} className={`${buttonClass} bg-blue-500 hover:bg-blue-400`}>
+                  ⬇️ Export CSV
+                </button>
+                <button onClick={() => setPassword(null)} className={`${buttonClass} bg-blue-500 hover:bg-blue-400`}>
+                  Sign Out
+                </button>
+              </div>
+            </header>
+
+            <div className="flex flex-wrap gap-4 mb-6" role="search">
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search questions and answers"
+                aria-label="Search questions and answers"
+                className={`${fieldClass} flex-1 min-w-[16rem]`}
+              />
+              <select value={country} onChange={(e) => setCountry(e.target.value)} className={fieldClass} aria-label="Country">
+                <option value="">All countries</option>
+                {countries.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              <select value={period} onChange={(e) => setPeriod(e.target.value)} className={fieldClass} aria-label="Period">
+                <option value="">All periods</option>
+                {PERIODS.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              <select value={category} onChange={(e) => setCategory(e.target.value)} className={fieldClass} aria-label="Category">
+                <option value="">All categories</option>
+                {CATEGORIES.map(name => <option key={name} value={name}>{categoryLabel(name)}</option>)}
+                <option value={UNCATEGORIZED}>No category</option>
+              </select>
+              <select value={difficulty} onChange={(e) => setDifficulty(e.target.value)} className={fieldClass} aria-label="Difficulty">
+                <option value="">All difficulties</option>
+                {DIFFICULTIES.map(name => <option key={name} value={name}>{difficultyLabel(name)}</option>)}
+              </select>
+            </div>
+
+            {error && <p className="mb-6 p-4 rounded-xl bg-red-600 text-xl" role="alert">{error}</p>}
+
+            <p className="text-xl text-white/70 mb-4" role="status">
+              {loading ? 'Loading questions...' : `Showing ${items.length} of ${total} questions`}
+            </p>
+
+            <table className="w-full text-left text-lg">
+              <thead>
+                <tr className="border-b-2 border-blue-700">
+                  <th className="py-3 pr-4">Question</th>
+                  <th className="py-3 pr-4">Answer</th>
+                  <th className="py-3 pr-4">Country</th>
+                  <th className="py-3 pr-4">Period</th>
+                  <th className="py-3 pr-4">Category</th>
+                  <th className="py-3 pr-4">Difficulty</th>
+                  <th className="py-3"><span className="sr-only">Actions</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => (
+                  <tr key={item.id} className="border-b border-blue-800 align-top">
+                    <td className="py-3 pr-4">
+                      {item.question}
+                      {item.translations && (
+                        <span className="ml-2 text-base text-white/60">🌐 {Object.keys(item.translations).join(', ')}</span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4">{item.answer}</td>
+                    <td className="py-3 pr-4 whitespace-nowrap">{item.country}</td>
+                    <td className="py-3 pr-4 whitespace-nowrap">{item.period}</td>
+                    <td className="py-3 pr-4 whitespace-nowrap">{item.category ? categoryLabel(item.category) : ''}</td>
+                    <td className="py-3 pr-4 whitespace-nowrap">{difficultyLabel(itemDifficulty(item))}</td>
+                    <td className="py-3 whitespace-nowrap">
+                      <Link
+                        href={`/admin/edit?id=${item.id}`}
+                        className="underline mr-4 focus:outline-none focus:ring-4 focus:ring-yellow-400"
+                      >
+                        Edit
+                      </Link>
+                      <button
+                        onClick={() => handleDelete(item)}
+                        className="underline text-red-300 focus:outline-none focus:ring-4 focus:ring-yellow-400"
+                        aria-label={`Delete "${item.question}"`}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,305 @@
+import { FormEvent, useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import AdminLogin from '@/components/AdminLogin';
+import { useAdminPassword } from '@/hooks/useAdminPassword';
+import { adminRequest, AdminRequestError } from '@/lib/adminClient';
+import type { Playlist } from '@/lib/playlists';
+import { AdminTriviaItem, filterTriviaItems } from '@/lib/triviaAdmin';
+
+// Search results shown at once; narrow the search to find others
+const MAX_RESULTS = 20;
+
+interface PlaylistDraft {
+  // Absent for a new playlist
+  id?: string;
+  name: string;
+  description: string;
+  questionIds: string[];
+}
+
+export default function AdminPlaylists() {
+  const { password, loaded, setPassword } = useAdminPassword();
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [bank, setBank] = useState<AdminTriviaItem[]>([]);
+  const [draft, setDraft] = useState<PlaylistDraft | null>(null);
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleError = (err: unknown) => {
+    if (err instanceof AdminRequestError && err.status === 401) setPassword(null);
+    setError(err instanceof AdminRequestError ? err.message : 'Could not reach the server');
+  };
+
+  const loadPlaylists = async () => {
+    if (!password) return;
+    try {
+      const data = await adminRequest<{ playlists: Playlist[] }>('/playlists', password);
+      setPlaylists(data.playlists);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  useEffect(() => {
+    if (!password) return;
+    loadPlaylists();
+    adminRequest<{ items: AdminTriviaItem[] }>('/trivia', password)
+      .then(data => setBank(data.items))
+      .catch(handleError);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [password]);
+
+  const byId = new Map(bank.map(item => [item.id, item]));
+  const results = draft && search.trim()
+    ? filterTriviaItems(bank, { search }).filter(item => !draft.questionIds.includes(item.id)).slice(0, MAX_RESULTS)
+    : [];
+
+  const handleEdit = (playlist?: Playlist) => {
+    setDraft(playlist
+      ? { id: playlist.id, name: playlist.name, description: playlist.description || '', questionIds: playlist.questionIds }
+      : { name: '', description: '', questionIds: [] });
+    setSearch('');
+    setError('');
+  };
+
+  const handleDelete = async (playlist: Playlist) => {
+    if (!password || !window.confirm(`Delete the playlist "${playlist.name}"? Links to it will stop working.`)) return;
+    try {
+      await adminRequest(`/playlists/${playlist.id}`, password, { method: 'DELETE' });
+      await loadPlaylists();
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const setQuestionIds = (questionIds: string[]) => {
+    if (draft) setDraft({ ...draft, questionIds });
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    if (!draft) return;
+    const questionIds = [...draft.questionIds];
+    const [id] = questionIds.splice(index, 1);
+    questionIds.splice(index + offset, 0, id);
+    setQuestionIds(questionIds);
+  };
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!password || !draft) return;
+    setSaving(true);
+    try {
+      await adminRequest(draft.id ? `/playlists/${draft.id}` : '/playlists', password, {
+        method: draft.id ? 'PUT' : 'POST',
+        body: JSON.stringify({ name: draft.name, description: draft.description, questionIds: draft.questionIds }),
+      });
+      setDraft(null);
+      setError('');
+      await loadPlaylists();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldClass = 'w-full px-4 py-3 rounded-lg text-black text-xl focus:outline-none focus:ring-4 focus:ring-yellow-400';
+  const buttonClass = 'px-6 py-3 rounded-xl font-bold text-xl transition-colors focus:outline-none focus:ring-4 focus:ring-yellow-400';
+  const smallButtonClass = 'px-3 py-1 rounded-lg bg-blue-700 hover:bg-blue-600 focus:outline-none focus:ring-4 focus:ring-yellow-400 disabled:opacity-30';
+
+  return (
+    <>
+      <Head>
+        <title>World Trivia TV - Playlists</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <div className="min-h-screen p-8 bg-blue-900 text-white">
+        {!loaded ? null : !password ? (
+          <AdminLogin onSignIn={setPassword} />
+        ) : (
+          <div className="max-w-7xl mx-auto">
+            <header className="flex flex-wrap justify-between items-center gap-4 mb-8">
+              <h1 className="text-5xl font-bold">🎵 Playlists</h1>
+              <div className="flex flex-wrap gap-4">
+                <button onClick={() => handleEdit()} className={`${buttonClass} bg-green-600 hover:bg-green-500`}>
+                  ➕ New Playlist
+                </button>
+                <Link href="/admin" className={`${buttonClass} bg-blue-500 hover:bg-blue-400`}>
+                  ⬅️ All Questions
+                </Link>
+              </div>
+            </header>
+
+            <p className="text-xl text-white/80 mb-6">
+              A playlist is a fixed list of questions played in order. It is listed on the home page and can be
+              opened directly at /play?playlist=&lt;id&gt;.
+            </p>
+
+            {error && <p className="mb-6 p-4 rounded-xl bg-red-600 text-xl" role="alert">{error}</p>}
+
+            {draft && (
+              <form onSubmit={handleSave} className="mb-10 p-6 rounded-xl bg-blue-800 flex flex-col gap-6">
+                <h2 className="text-3xl font-bold">{draft.id ? `✏️ Edit ${draft.name}` : '➕ New Playlist'}</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <label className="flex flex-col gap-2 text-xl">
+                    <span>Name</span>
+                    <input
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      maxLength={80}
+                      className={fieldClass}
+                    />
+                  </label>
+                  <label className="flex flex-col gap-2 text-xl">
+                    <span>Description <span className="text-base text-white/60">(optional, shown on the home page)</span></span>
+                    <input
+                      value={draft.description}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      className={fieldClass}
+                    />
+                  </label>
+                </div>
+
+                <div>
+                  <h3 className="text-2xl font-bold mb-3">Questions ({draft.questionIds.length})</h3>
+                  {draft.questionIds.length === 0 && <p className="text-xl text-white/70">Search below to add questions.</p>}
+                  <ol className="flex flex-col gap-2">
+                    {draft.questionIds.map((id, i) => {
+                      const item = byId.get(id);
+                      return (
+                        <li key={id} className="flex items-center gap-3 text-lg">
+                          <span className="w-8 text-right text-white/60">{i + 1}.</span>
+                          <span className="flex-1">
+                            {item ? (
+                              <>
+                                {item.question} <span className="text-white/60">· {item.answer} · {item.country} · {item.period}</span>
+                              </>
+                            ) : (
+                              <span className="text-red-300">No longer in the bank; remove it to save</span>
+                            )}
+                          </span>
+                          <button type="button" onClick={() => moveQuestion(i, -1)} disabled={i === 0} className={smallButtonClass} aria-label={`Move question ${i + 1} up`}>
+                            ↑
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveQuestion(i, 1)}
+                            disabled={i === draft.questionIds.length - 1}
+                            className={smallButtonClass}
+                            aria-label={`Move question ${i + 1} down`}
+                          >
+                            ↓
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setQuestionIds(draft.questionIds.filter(other => other !== id))}
+                            className={smallButtonClass}
+                            aria-label={`Remove question ${i + 1}`}
+                          >
+                            ✕
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+
+                <div>
+                  <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search questions and answers to add"
+                    aria-label="Search questions and answers to add"
+                    className={fieldClass}
+                  />
+                  <ul className="flex flex-col gap-2 mt-3">
+                    {results.map(item => (
+                      <li key={item.id} className="flex items-center gap-3 text-lg">
+                        <button
+                          type="button"
+                          onClick={() => setQuestionIds([...draft.questionIds, item.id])}
+                          className={smallButtonClass}
+                          aria-label={`Add "${item.question}"`}
+                        >
+                          ➕
+                        </button>
+                        <span>
+                          {item.question} <span className="text-white/60">· {item.answer} · {item.country} · {item.period}</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                <div className="flex flex-wrap gap-4">
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className={`${buttonClass} bg-green-600 hover:bg-green-500 disabled:opacity-40`}
+                  >
+                    {saving ? 'Saving...' : '💾 Save Playlist'}
+                  </button>
+                  <button type="button" onClick={() => setDraft(null)} className={`${buttonClass} bg-blue-500 hover:bg-blue-400`}>
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {playlists.length === 0 ? (
+              <p className="text-xl text-white/70">No playlists yet.</p>
+            ) : (
+              <table className="w-full text-left text-lg">
+                <thead>
+                  <tr className="border-b-2 border-blue-700">
+                    <th className="py-3 pr-4">Name</th>
+                    <th className="py-3 pr-4">Id</th>
+                    <th className="py-3 pr-4">Questions</th>
+                    <th className="py-3"><span className="sr-only">Actions</span></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {playlists.map(playlist => (
+                    <tr key={playlist.id} className="border-b border-blue-800 align-top">
+                      <td className="py-3 pr-4">
+                        {playlist.name}
+                        {playlist.description && <span className="block text-base text-white/60">{playlist.description}</span>}
+                      </td>
+                      <td className="py-3 pr-4 whitespace-nowrap">{playlist.id}</td>
+                      <td className="py-3 pr-4">{playlist.questionIds.length}</td>
+                      <td className="py-3 whitespace-nowrap">
+                        <Link
+                          href={`/play?playlist=${playlist.id}`}
+                          className="underline mr-4 focus:outline-none focus:ring-4 focus:ring-yellow-400"
+                        >
+                          Play
+                        </Link>
+                        <button
+                          onClick={() => handleEdit(playlist)}
+                          className="underline mr-4 focus:outline-none focus:ring-4 focus:ring-yellow-400"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(playlist)}
+                          className="underline text-red-300 focus:outline-none focus:ring-4 focus:ring-yellow-400"
+                          aria-label={`Delete the playlist "${playlist.name}"`}
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { deletePlaylist, getPlaylist, Playlist, PlaylistValidationError, updatePlaylist } from '@/lib/playlists';
+import { questionId } from '@/lib/trivia';
+import { getTriviaItems } from '@/lib/triviaBank';
+
+type ResponseData = {
+  playlist: Playlist;
+} | {
+  deleted: string;
+} | {
+  error: string;
+};
+
+const NOT_FOUND = 'No playlist has that id';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    if (!requireAdmin(req, res)) return;
+    const id = req.query.id as string;
+
+    switch (req.method) {
+      case 'GET': {
+        const playlist = await getPlaylist(id);
+        if (!playlist) return res.status(404).json({ error: NOT_FOUND });
+        return res.status(200).json({ playlist });
+      }
+      case 'PUT': {
+        const bankIds = new Set((await getTriviaItems()).map(questionId));
+        const playlist = await updatePlaylist(id, req.body, bankIds);
+        if (!playlist) return res.status(404).json({ error: NOT_FOUND });
+        return res.status(200).json({ playlist });
+      }
+      case 'DELETE': {
+        if (!(await deletePlaylist(id))) return res.status(404).json({ error: NOT_FOUND });
+        return res.status(200).json({ deleted: id });
+      }
+      default:
+        res.setHeader('Allow', 'GET, PUT, DELETE');
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error) {
+    if (error instanceof PlaylistValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while editing playlists' });
+  }
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { createPlaylist, listPlaylists, Playlist, PlaylistValidationError } from '@/lib/playlists';
+import { questionId } from '@/lib/trivia';
+import { getTriviaItems } from '@/lib/triviaBank';
+
+type ResponseData = {
+  playlists: Playlist[];
+} | {
+  playlist: Playlist;
+} | {
+  error: string;
+};
+
+// GET lists playlists with their question ids. POST adds one from { name, description?, questionIds }.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    if (!requireAdmin(req, res)) return;
+
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({ playlists: await listPlaylists() });
+      case 'POST': {
+        const bankIds = new Set((await getTriviaItems()).map(questionId));
+        const playlist = await createPlaylist(req.body, bankIds);
+        return res.status(201).json({ playlist });
+      }
+      default:
+        res.setHeader('Allow', 'GET, POST');
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error) {
+    if (error instanceof PlaylistValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while editing playlists' });
+  }
+}
@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { AdminTriviaItem } from '@/lib/triviaAdmin';
+import { SchemaIssue, TriviaValidationError } from '@/lib/trivia';
+import { deleteTriviaItem, findTriviaItem, updateTriviaItem } from '@/lib/triviaBank';
+
+type ResponseData = {
+  item: AdminTriviaItem;
+} | {
+  deleted: string;
+} | {
+  error: string;
+  issues?: SchemaIssue[];
+};
+
+const NOT_FOUND = 'No question has that id. It may have been deleted.';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    if (!requireAdmin(req, res)) return;
+    const id = req.query.id as string;
+
+    switch (req.method) {
+      case 'GET': {
+        const item = await findTriviaItem(id);
+        if (!item) return res.status(404).json({ error: NOT_FOUND });
+        return res.status(200).json({ item: { ...item, id } });
+      }
+      case 'PUT': {
+        const item = await updateTriviaItem(id, req.body);
+        if (!item) return res.status(404).json({ error: NOT_FOUND });
+        return res.status(200).json({ item: { ...item, id } });
+      }
+      case 'DELETE': {
+        if (!(await deleteTriviaItem(id))) return res.status(404).json({ error: NOT_FOUND });
+        return res.status(200).json({ deleted: id });
+      }
+      default:
+        res.setHeader('Allow', 'GET, PUT, DELETE');
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error) {
+    if (error instanceof TriviaValidationError) {
+      return res.status(400).json({ error: error.message, issues: error.issues });
+    }
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while editing trivia' });
+  }
+}
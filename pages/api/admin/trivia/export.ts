@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { filterTriviaItems } from '@/lib/triviaAdmin';
+import { itemsToDelimited } from '@/lib/triviaCsv';
+import { getTriviaItems } from '@/lib/triviaBank';
+
+type ErrorData = {
+  error: string;
+};
+
+function queryText(value: string | string[] | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// GET downloads the bank as CSV, or TSV with ?format=tsv, narrowed by ?country=, ?period=, ?category=, ?difficulty= and ?search=
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<string | ErrorData>
+) {
+  try {
+    if (!requireAdmin(req, res)) return;
+
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+
+    const format = req.query.format === 'tsv' ? 'tsv' : 'csv';
+    const items = filterTriviaItems(await getTriviaItems(), {
+      search: queryText(req.query.search),
+      country: queryText(req.query.country),
+      period: queryText(req.query.period),
+      category: queryText(req.query.category),
+      difficulty: queryText(req.query.difficulty),
+    });
+
+    res.setHeader('Content-Type', `${format === 'tsv' ? 'text/tab-separated-values' : 'text/csv'}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="trivia.${format}"`);
+    return res.status(200).send(itemsToDelimited(items, format));
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while exporting trivia' });
+  }
+}
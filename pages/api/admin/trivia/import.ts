@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { CsvFormat, detectFormat, ImportReport, importReport } from '@/lib/triviaCsv';
+import { SchemaIssue, TriviaValidationError } from '@/lib/trivia';
+import { getTriviaItems, importTriviaItems } from '@/lib/triviaBank';
+
+type ResponseData = {
+  report: ImportReport;
+  imported: number;
+} | {
+  error: string;
+  issues?: SchemaIssue[];
+};
+
+// Spreadsheets of a few thousand rows are larger than Next's default 1mb body limit
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '5mb' },
+  },
+};
+
+function requestFormat(req: NextApiRequest, text: string): CsvFormat {
+  if (req.query.format === 'csv' || req.query.format === 'tsv') return req.query.format;
+  if ((req.headers['content-type'] || '').startsWith('text/tab-separated-values')) return 'tsv';
+  return detectFormat(text);
+}
+
+// POST a CSV or TSV file as the request body. Without ?commit=1 nothing is saved and the
+// response is a dry-run report; with it, rows are added only when the report has no issues.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    if (!requireAdmin(req, res)) return;
+
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+    if (typeof req.body !== 'string') {
+      return res.status(415).json({ error: 'Send the file as text/csv or text/tab-separated-values' });
+    }
+
+    const report = importReport(req.body, await getTriviaItems(), requestFormat(req, req.body));
+    if (req.query.commit !== '1') {
+      return res.status(200).json({ report, imported: 0 });
+    }
+    if (report.issues.length > 0) {
+      return res.status(400).json({ error: 'Fix the issues in the dry-run report before importing' });
+    }
+    const imported = await importTriviaItems(report.items);
+    return res.status(201).json({ report, imported: imported.length });
+  } catch (error) {
+    if (error instanceof TriviaValidationError) {
+      return res.status(400).json({ error: error.message, issues: error.issues });
+    }
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while importing trivia' });
+  }
+}
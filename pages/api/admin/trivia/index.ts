@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { AdminTriviaItem, filterTriviaItems } from '@/lib/triviaAdmin';
+import { questionId, SchemaIssue, TriviaValidationError } from '@/lib/trivia';
+import { createTriviaItem, getTriviaItems } from '@/lib/triviaBank';
+
+type ResponseData = {
+  items: AdminTriviaItem[];
+  total: number;
+} | {
+  item: AdminTriviaItem;
+} | {
+  error: string;
+  issues?: SchemaIssue[];
+};
+
+function queryText(value: string | string[] | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// GET lists questions, filtered by ?search=, ?country=, ?period=, ?category= and ?difficulty=. POST adds a question.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    if (!requireAdmin(req, res)) return;
+
+    switch (req.method) {
+      case 'GET': {
+        const items = await getTriviaItems();
+        const filtered = filterTriviaItems(items, {
+          search: queryText(req.query.search),
+          country: queryText(req.query.country),
+          period: queryText(req.query.period),
+          category: queryText(req.query.category),
+          difficulty: queryText(req.query.difficulty),
+        });
+        return res.status(200).json({ items: filtered, total: items.length });
+      }
+      case 'POST': {
+        const item = await createTriviaItem(req.body);
+        return res.status(201).json({ item: { ...item, id: questionId(item) } });
+      }
+      default:
+        res.setHeader('Allow', 'GET, POST');
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error) {
+    if (error instanceof TriviaValidationError) {
+      return res.status(400).json({ error: error.message, issues: error.issues });
+    }
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while editing trivia' });
+  }
+}
@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { buildCatalog, Catalog } from '@/lib/catalog';
+import { countTriviaItems } from '@/lib/triviaBank';
+
+type ResponseData = Catalog | {
+  error: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    return res.status(200).json(buildCatalog(await countTriviaItems()));
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while building catalog' });
+  }
+}
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getHistory, normalizeProfile, recordShown, resetHistory } from '@/lib/history';
+
+type ResponseData = {
+  played: number;
+} | {
+  error: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    const profile = normalizeProfile(req.method === 'POST' ? req.body?.profile : req.query.profile);
+    if (!profile) {
+      return res.status(400).json({ error: 'Profile parameter is required' });
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        const history = await getHistory(profile);
+        return res.status(200).json({ played: Object.keys(history).length });
+      }
+      case 'POST': {
+        const { ids } = req.body;
+        if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+          return res.status(400).json({ error: 'Ids must be a list of question ids' });
+        }
+        const history = await recordShown(profile, ids);
+        return res.status(200).json({ played: Object.keys(history).length });
+      }
+      case 'DELETE':
+        await resetHistory(profile);
+        return res.status(200).json({ played: 0 });
+      default:
+        res.setHeader('Allow', 'GET, POST, DELETE');
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while updating play history' });
+  }
+}
@@ -0,0 +1,22 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listPlaylists, PlaylistSummary, summarizePlaylist } from '@/lib/playlists';
+
+type ResponseData = {
+  playlists: PlaylistSummary[];
+} | {
+  error: string;
+};
+
+// The playlists the home page offers; they are edited in /admin
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    const playlists = await listPlaylists();
+    return res.status(200).json({ playlists: playlists.map(summarizePlaylist) });
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while listing playlists' });
+  }
+}
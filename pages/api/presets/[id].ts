@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { deletePreset, normalizeOwner, PresetOwnerError } from '@/lib/presets';
+
+type ResponseData = {
+  deleted: string;
+} | {
+  error: string;
+};
+
+// DELETE ?owner= deletes a preset that owner saved. With the admin password instead, any preset.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', 'DELETE');
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+  const admin = !!req.headers.authorization;
+  if (admin && !requireAdmin(req, res)) return;
+  const owner = admin ? undefined : normalizeOwner(req.query.owner);
+  if (owner === null) {
+    return res.status(400).json({ error: 'Give the owner that saved the preset' });
+  }
+  try {
+    const id = req.query.id as string;
+    if (!(await deletePreset(id, owner))) return res.status(404).json({ error: 'No preset has that id' });
+    return res.status(200).json({ deleted: id });
+  } catch (error) {
+    if (error instanceof PresetOwnerError) {
+      return res.status(403).json({ error: error.message });
+    }
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while deleting preset' });
+  }
+}
@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createPreset, listPresets, normalizeOwner, PresetSummary, PresetValidationError, summarizePreset } from '@/lib/presets';
+
+type ResponseData = {
+  presets: PresetSummary[];
+} | {
+  preset: PresetSummary;
+} | {
+  error: string;
+};
+
+// GET ?owner= lists the saved presets, marking the ones that owner saved.
+// POST saves one from { name, query, owner }, where query is a /play query string and owner the device id.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const owner = normalizeOwner(req.query.owner);
+        const presets = await listPresets();
+        return res.status(200).json({ presets: presets.map(preset => summarizePreset(preset, owner)) });
+      }
+      case 'POST': {
+        const preset = await createPreset(req.body?.name, req.body?.query, req.body?.owner);
+        return res.status(201).json({ preset: summarizePreset(preset, preset.owner || null) });
+      }
+      default:
+        res.setHeader('Allow', 'GET, POST');
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error) {
+    if (error instanceof PresetValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while saving presets' });
+  }
+}
@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRoom, isRemoteCommand, normalizeRoomCode, pollCommands, QueuedCommand, queueCommand } from '@/lib/remote';
+
+type ResponseData = {
+  commands: QueuedCommand[];
+  remoteConnected: boolean;
+  hostPaired: boolean;
+} | {
+  queued: QueuedCommand;
+} | {
+  error: string;
+};
+
+// GET: the TV polls for commands after ?since=<seq>. POST: a remote sends { command }.
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    const room = getRoom(normalizeRoomCode(req.query.code));
+    if (!room) {
+      return res.status(404).json({ error: 'No TV is using that code. Check the code on the TV screen.' });
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        const since = parseInt((req.query.since as string) || '0', 10) || 0;
+        return res.status(200).json(pollCommands(room, since));
+      }
+      case 'POST': {
+        const { command } = req.body || {};
+        if (!isRemoteCommand(command)) {
+          return res.status(400).json({ error: 'Unknown command' });
+        }
+        return res.status(201).json({ queued: queueCommand(room, command) });
+      }
+      default:
+        res.setHeader('Allow', 'GET, POST');
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while relaying remote commands' });
+  }
+}
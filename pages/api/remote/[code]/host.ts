@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { claimHost, getRoom, isTvKey, normalizeRoomCode, releaseHost } from '@/lib/remote';
+
+type ResponseData = {
+  hostKey: string;
+} | {
+  ok: true;
+} | {
+  error: string;
+};
+
+// POST: a phone takes the host role and gets the key that shows it the answer early.
+// DELETE ?key=<tvKey>: the TV frees the role for another phone.
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    const room = getRoom(normalizeRoomCode(req.query.code));
+    if (!room) {
+      return res.status(404).json({ error: 'No TV is using that code. Check the code on the TV screen.' });
+    }
+
+    switch (req.method) {
+      case 'POST': {
+        const hostKey = claimHost(room);
+        if (!hostKey) {
+          return res.status(409).json({ error: 'Another phone is already the host' });
+        }
+        return res.status(201).json({ hostKey });
+      }
+      case 'DELETE':
+        if (!isTvKey(room, req.query.key)) {
+          return res.status(403).json({ error: 'Only the TV can free the host role' });
+        }
+        releaseHost(room);
+        return res.status(200).json({ ok: true });
+      default:
+        res.setHeader('Allow', 'POST, DELETE');
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while pairing the host remote' });
+  }
+}
@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRoom, normalizeRoomCode, readStatus, RemoteStatus, updateStatus } from '@/lib/remote';
+
+type ResponseData = {
+  status: RemoteStatus | null;
+  tvConnected: boolean;
+  hostPaired: boolean;
+  isHost: boolean;
+} | {
+  ok: true;
+} | {
+  error: string;
+};
+
+// PUT: the TV publishes its round status. GET: a remote reads it; the host's phone adds ?host=<key> to see the answer early.
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    const room = getRoom(normalizeRoomCode(req.query.code));
+    if (!room) {
+      return res.status(404).json({ error: 'No TV is using that code. Check the code on the TV screen.' });
+    }
+
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json(readStatus(room, req.query.host));
+      case 'PUT': {
+        const status = req.body as RemoteStatus;
+        if (!status || typeof status !== 'object' || typeof status.state !== 'string') {
+          return res.status(400).json({ error: 'Status body is required' });
+        }
+        updateStatus(room, status);
+        return res.status(200).json({ ok: true });
+      }
+      default:
+        res.setHeader('Allow', 'GET, PUT');
+        return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while syncing remote status' });
+  }
+}
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { DEFAULT_LOCALE, isLocale } from '@/lib/i18n';
+import { localizeItem, RoundItem } from '@/lib/trivia';
+import { findTriviaItem } from '@/lib/triviaBank';
+
+type ResponseData = {
+  item: RoundItem;
+} | {
+  error: string;
+};
+
+// One question by id, in the language given by ?lang=
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+
+    const id = req.query.id as string;
+    const item = await findTriviaItem(id);
+    if (!item) {
+      return res.status(404).json({ error: `No question "${id}"` });
+    }
+    const { lang } = req.query;
+    return res.status(200).json({ item: { ...localizeItem(item, isLocale(lang) ? lang : DEFAULT_LOCALE), id } });
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while fetching trivia' });
+  }
+}
@@ -0,0 +1,187 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { RESERVE_ROUNDS } from '@/lib/adaptive';
+import { buildChoices } from '@/lib/choices';
+import { getHistory, normalizeProfile } from '@/lib/history';
+import { getPlaylist, MAX_PLAYLIST_LENGTH } from '@/lib/playlists';
+import { DEFAULT_LOCALE, isLocale, Locale } from '@/lib/i18n';
+import { MAX_SEED_LENGTH, parseList, parsePeriod, parseSeed, parseYear } from '@/lib/queryParams';
+import { createRng, hashSeed, randomSeed, seedToNumber } from '@/lib/random';
+import { selectBalanced } from '@/lib/selection';
+import { CATEGORIES, hasTranslatedAnswer, isCategory, isDifficulty, localizeItem, PERIODS, questionId, RoundItem, TriviaItem } from '@/lib/trivia';
+import { getTriviaItems } from '@/lib/triviaBank';
+
+type ResponseData = {
+  items: RoundItem[];
+  seed: string;
+  // Adaptive rounds only: spare questions of every difficulty to swap in
+  reserve?: RoundItem[];
+} | {
+  error: string;
+};
+
+interface RoundItemOptions {
+  locale: Locale;
+  choices: boolean;
+  seed: string;
+}
+
+// Ids stay the same in every language so history is shared across languages.
+// In multiple-choice rounds, wrong options are drawn from the pool's answers in the same language as the right one.
+// Each question's options are shuffled from the round seed and its id alone, so a link to the round's ids
+// with the same seed shows the same options however the questions were picked.
+function toRoundItems(selected: TriviaItem[], pool: TriviaItem[], { locale, choices, seed }: RoundItemOptions): RoundItem[] {
+  const candidates = choices
+    ? pool.map(item => ({ id: questionId(item), shown: localizeItem(item, locale), translated: hasTranslatedAnswer(item, locale) }))
+    : [];
+  return selected.map(item => {
+    const id = questionId(item);
+    const shown = localizeItem(item, locale);
+    const roundItem: RoundItem = { ...shown, id };
+    if (choices) {
+      const translated = hasTranslatedAnswer(item, locale);
+      const options = candidates.filter(other => other.id !== id && other.translated === translated).map(other => other.shown);
+      const built = buildChoices(shown, options, createRng(seedToNumber(seed) ^ hashSeed(id)));
+      if (built) roundItem.choices = built;
+    }
+    return roundItem;
+  });
+}
+
+// Plays these questions in order, skipping any deleted since; the selection parameters don't apply
+async function sendQuestions(req: NextApiRequest, res: NextApiResponse<ResponseData>, ids: string[], roundSeed: string) {
+  const { mode, lang } = req.query;
+  const locale = isLocale(lang) ? lang : DEFAULT_LOCALE;
+
+  // The whole bank, so wrong options can come from questions outside the list
+  const bank = await getTriviaItems();
+  const byId = new Map(bank.map(item => [questionId(item), item] as [string, TriviaItem]));
+  const selected = ids.map(id => byId.get(id)).filter((item): item is TriviaItem => !!item);
+  const items = toRoundItems(selected, bank, { locale, choices: mode === 'choice', seed: roundSeed });
+  return res.status(200).json({ items, seed: roundSeed });
+}
+
+async function sendPlaylist(req: NextApiRequest, res: NextApiResponse<ResponseData>, id: string, roundSeed: string) {
+  const playlist = await getPlaylist(id);
+  if (!playlist) {
+    return res.status(404).json({ error: `No playlist "${id}"` });
+  }
+  return sendQuestions(req, res, playlist.questionIds, roundSeed);
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    const {
+      countries, period, mode, count, seed, profile, lang, fromYear, toYear, categories, excludeCategories, difficulty, adaptive, playlist, ids,
+    } = req.query;
+
+    // The same seed and query always produce the same round
+    const givenSeed = parseSeed(seed);
+    if (givenSeed === null) {
+      return res.status(400).json({ error: `seed must be a single value of at most ${MAX_SEED_LENGTH} characters` });
+    }
+    const roundSeed = givenSeed || randomSeed();
+
+    if (typeof playlist === 'string' && playlist) {
+      return await sendPlaylist(req, res, playlist, roundSeed);
+    }
+
+    // A round linked by its questions, as the play page's address keeps it
+    const idList = parseList(ids);
+    if (idList) {
+      if (idList.length > MAX_PLAYLIST_LENGTH) {
+        return res.status(400).json({ error: `At most ${MAX_PLAYLIST_LENGTH} ids can be asked for at once` });
+      }
+      return await sendQuestions(req, res, idList, roundSeed);
+    }
+
+    const countryList = parseList(countries);
+    if (!countryList) {
+      return res.status(400).json({ error: 'Countries parameter is required' });
+    }
+
+    const chosenPeriod = parsePeriod(period);
+    if (chosenPeriod === null) {
+      return res.status(400).json({ error: `period must be a single value: any or one of ${PERIODS.join(', ')}` });
+    }
+
+    let limit: number | undefined;
+    if (count !== undefined) {
+      limit = typeof count === 'string' ? parseInt(count, 10) : NaN;
+      if (!(limit > 0)) {
+        return res.status(400).json({ error: 'Count must be a positive number' });
+      }
+    }
+
+    // Questions about any year in the range; either end may be left open
+    const years = { fromYear: parseYear(fromYear), toYear: parseYear(toYear) };
+    if (years.fromYear === null || years.toYear === null) {
+      return res.status(400).json({ error: 'fromYear and toYear must be four-digit years' });
+    }
+    if (years.fromYear !== undefined && years.toYear !== undefined && years.fromYear > years.toYear) {
+      return res.status(400).json({ error: 'fromYear must not be after toYear' });
+    }
+
+    // Topics to keep (questions without a category are left out) or to leave out
+    const topics = parseList(categories);
+    const excludedTopics = parseList(excludeCategories);
+    const unknown = [...(topics || []), ...(excludedTopics || [])].filter(category => !isCategory(category));
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Unknown categories: ${unknown.join(', ')} (expected ${CATEGORIES.join(', ')})` });
+    }
+
+    // Questions without a difficulty count as medium
+    const difficulties = parseList(difficulty);
+    if (difficulties && !difficulties.every(isDifficulty)) {
+      return res.status(400).json({ error: 'difficulty must be easy, medium or hard' });
+    }
+
+    // Unknown languages fall back to English rather than failing the round
+    const locale = isLocale(lang) ? lang : DEFAULT_LOCALE;
+
+    // Only the chosen countries (and period, years and topics, if specified) are loaded
+    const anyPeriod = chosenPeriod === undefined;
+    const filtered = await getTriviaItems({
+      countries: countryList,
+      period: chosenPeriod,
+      fromYear: years.fromYear,
+      toYear: years.toYear,
+      categories: topics,
+      excludeCategories: excludedTopics,
+      difficulties,
+    });
+
+    const rng = createRng(seedToNumber(roundSeed));
+
+    // Prefer questions this device or group hasn't played yet
+    const profileName = normalizeProfile(profile);
+    const history = profileName ? await getHistory(profileName) : null;
+
+    // Adaptive rounds get spare questions after the round itself; the same seed picks the same round either way
+    const isAdaptive = adaptive === '1';
+    const selected = selectBalanced(filtered, {
+      countries: countryList,
+      count: limit && isAdaptive ? limit * (1 + RESERVE_ROUNDS) : limit,
+      balancePeriods: anyPeriod,
+      rng,
+      lastShown: history ? item => history[questionId(item)] : undefined,
+    });
+
+    // Wrong options come from the same country and period, whatever narrowed the round, as they do for an ids link
+    const choices = mode === 'choice';
+    const pool = choices ? await getTriviaItems({ countries: countryList }) : [];
+    const items = toRoundItems(selected, pool, { locale, choices, seed: roundSeed });
+
+    if (isAdaptive) {
+      const length = limit || items.length;
+      return res.status(200).json({ items: items.slice(0, length), seed: roundSeed, reserve: items.slice(length) });
+    }
+    return res.status(200).json({ items, seed: roundSeed });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return res.status(500).json({ error: 'Internal server error while fetching trivia' });
+  }
+}
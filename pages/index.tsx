@@ -1,15 +1,52 @@
-import { useState, useEffect } from "react";
+import { FormEvent, useState, useEffect } from "react";
 import { useRouter } from "next/router";
 import Head from "next/head";
 import { motion, AnimatePresence } from "framer-motion";
+import NarrationSettingsPanel from "@/components/NarrationSettingsPanel";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useSpatialNavigation } from "@/hooks/useSpatialNavigation";
+import { isSpeechRecognitionSupported, useSpeechRecognition } from "@/hooks/useSpeechRecognition";
+import { useTranslation } from "@/hooks/useTranslation";
+import { ANY_PERIOD, Catalog, catalogDecades, choiceYears, countsForSelection, SelectionFilter, totalForSelection, YOUTH_AGES, yearsChoice, youthYears } from "@/lib/catalog";
+import { Locale, LOCALES, translate } from "@/lib/i18n";
+import type { MessageKey } from "@/lib/messages/en";
+import type { PlaylistSummary } from "@/lib/playlists";
+import type { PresetSummary } from "@/lib/presets";
+import { followLocaleLanguage, speak } from "@/lib/narration";
+import { clampSeconds, DEFAULT_PACING, matchPreset, Pacing, PACING_PRESETS, PacingPreset, pacingFromPreset } from "@/lib/pacing";
+import { currentProfile, getDeviceId, getGroupName, setGroupName } from "@/lib/profile";
+import { nextTextScale, TextScale } from "@/lib/preferences";
+import { randomSeed } from "@/lib/random";
+import { MAX_TEAM_NAME_LENGTH, MAX_TEAMS, normalizeTeamNames } from "@/lib/scoring";
+import { DEFAULT_QUESTION_COUNT, parseRoundQuery, QuestionMode, RoundConfig, roundConfigToQuery } from "@/lib/roundConfig";
+import { loadSavedRound, SavedRound } from "@/lib/savedRound";
+import { Category, Difficulty, DIFFICULTIES, isDifficulty } from "@/lib/trivia";
+import { parseVoiceCommand, VOICE_COMMAND_HELP, VoiceCommand } from "@/lib/voiceCommands";
 
-const countries = [
-  "USA", "Nigeria", "Mexico", "Brazil", "Japan", "India",
-  "United Kingdom", "France", "Germany", "Italy",
-  "China", "South Korea", "Kenya", "Egypt", "Australia",
+const questionModes: { mode: QuestionMode; label: MessageKey; description: MessageKey; spoken: MessageKey }[] = [
+  { mode: "open", label: "mode.open", description: "mode.openDescription", spoken: "mode.openSpoken" },
+  { mode: "choice", label: "mode.choice", description: "mode.choiceDescription", spoken: "mode.choiceSpoken" },
 ];
 
-const periods = ["1940-1959", "1960-1979", "1980-1999", "2000-2019", "Any Time"];
+const topicIcons: Record<Category, string> = {
+  music: "🎵",
+  "film-tv": "🎬",
+  sports: "⚽",
+  "toys-games": "🧸",
+  "science-tech": "🔬",
+  food: "🍲",
+  culture: "🎭",
+  "daily-life": "🏠",
+  places: "📍",
+  history: "📜",
+  politics: "🏛️",
+};
+
+const locales = Object.keys(LOCALES) as Locale[];
+
+const textSizes: Record<TextScale, string> = { normal: "text-2xl", large: "text-3xl", "extra-large": "text-4xl" };
+const headingSizes: Record<TextScale, string> = { normal: "text-6xl", large: "text-7xl", "extra-large": "text-8xl" };
+const subHeadingSizes: Record<TextScale, string> = { normal: "text-4xl", large: "text-5xl", "extra-large": "text-6xl" };
 
 // Animation variants
 const pageVariants = {
@@ -36,143 +73,515 @@ export default function Home() {
   const router = useRouter();
   const [selectedCountries, setSelectedCountries] = useState<string[]>([]);
   const [selectedPeriod, setSelectedPeriod] = useState("");
+  const [birthYear, setBirthYear] = useState("");
+  const [excludedTopics, setExcludedTopics] = useState<string[]>([]);
+  // A level, "adaptive", or empty for any difficulty
+  const [difficulty, setDifficulty] = useState<Difficulty | "adaptive" | "">("");
   const [questionCount, setQuestionCount] = useState(10);
-  const [highContrast, setHighContrast] = useState(false);
-  const [largeText, setLargeText] = useState(false);
+  const [questionMode, setQuestionMode] = useState<QuestionMode>("open");
+  const [pacing, setPacing] = useState<Pacing>(DEFAULT_PACING);
+  const [customPacing, setCustomPacing] = useState(false);
+  const [hostMode, setHostMode] = useState(false);
+  const [spokenAnswers, setSpokenAnswers] = useState(false);
+  const [teams, setTeams] = useState<string[]>([]);
+  const [teamInput, setTeamInput] = useState("");
+  const { preferences, loaded, updatePreferences } = usePreferences();
+  const { highContrast, textScale, reducedMotion, dyslexiaFont, colorBlindPalette, locale } = preferences;
+  const { t, speechLang } = useTranslation();
   const [isVoiceActive, setIsVoiceActive] = useState(false);
+  const [showNarrationSettings, setShowNarrationSettings] = useState(false);
   const [voiceCommand, setVoiceCommand] = useState("");
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+  const [catalogFailed, setCatalogFailed] = useState(false);
+  const [groupName, setGroupNameState] = useState("");
+  const [playedCount, setPlayedCount] = useState<number | null>(null);
+  const [presets, setPresets] = useState<PresetSummary[]>([]);
+  const [playlists, setPlaylists] = useState<PlaylistSummary[]>([]);
+  const [presetName, setPresetName] = useState("");
+  // A round left unfinished on this device
+  const [unfinished, setUnfinished] = useState<SavedRound | null>(null);
 
-  const speak = (text: string) => {
-    if (typeof window !== "undefined" && window.speechSynthesis) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.rate = 0.85;
-      utterance.pitch = 0.9;
-      utterance.volume = 1.0;
-      window.speechSynthesis.speak(utterance);
-    }
-  };
+  // Arrow keys / D-pad move focus across the pickers; Enter selects
+  useSpatialNavigation();
 
   const handleCountrySelect = (country: string) => {
     if (selectedCountries.includes(country)) {
       setSelectedCountries(selectedCountries.filter((c) => c !== country));
     } else if (selectedCountries.length < 2) {
       setSelectedCountries([...selectedCountries, country]);
-      speak(country);
+      speak(country, { priority: "high" });
     } else {
-      speak("You can only select 2 countries. Please deselect one first.");
+      speak(t("countries.limit"), { priority: "high" });
     }
   };
 
   const handlePeriodSelect = (period: string) => {
     setSelectedPeriod(period);
-    speak(period);
+    const available = availableFor(period);
+    if (available !== null && available < questionCount) {
+      speak(t("period.onlyAvailable", { period: periodLabel(period), count: available }), { priority: "high" });
+    } else {
+      speak(periodLabel(period), { priority: "high" });
+    }
+  };
+
+  // Reminiscence sessions: the years the players were growing up
+  const youthChoice = () => {
+    const year = parseInt(birthYear, 10);
+    return year >= 1900 && year <= new Date().getFullYear() ? yearsChoice(youthYears(year)) : null;
+  };
+
+  const handleYouthSelect = (e: React.FormEvent) => {
+    e.preventDefault();
+    const choice = youthChoice();
+    if (choice) {
+      handlePeriodSelect(choice);
+    } else {
+      speak(t("period.needBirthYear"), { priority: "high" });
+    }
+  };
+
+  const topicLabel = (topic: string) => t(`topic.${topic}` as MessageKey);
+
+  const handleTopicToggle = (topic: string) => {
+    const excluded = excludedTopics.includes(topic);
+    setExcludedTopics(excluded ? excludedTopics.filter((other) => other !== topic) : [...excludedTopics, topic]);
+    speak(t(excluded ? "topic.included" : "topic.excluded", { topic: topicLabel(topic) }), { priority: "high" });
+  };
+
+  const handleAllTopics = (all: boolean) => {
+    setExcludedTopics(all || !catalog ? [] : catalog.categories);
+    speak(t(all ? "topic.allSpoken" : "topic.noneSpoken"), { priority: "high" });
+  };
+
+  const handleDifficultySelect = (choice: Difficulty | "adaptive" | "") => {
+    setDifficulty(choice);
+    speak(t(choice === "" ? "difficulty.any" : choice === "adaptive" ? "difficulty.adaptiveDescription" : `difficulty.${choice}`), { priority: "high" });
+  };
+
+  const handleQuestionModeSelect = (mode: QuestionMode) => {
+    setQuestionMode(mode);
+    speak(t(mode === "choice" ? "mode.choiceSpoken" : "mode.openSpoken"), { priority: "high" });
+  };
+
+  const handleSpokenAnswersToggle = () => {
+    setSpokenAnswers(!spokenAnswers);
+    speak(t(spokenAnswers ? "mode.answerAloudOff" : "mode.answerAloudOn"), { priority: "high" });
+  };
+
+  const handlePacingPreset = (preset: PacingPreset) => {
+    const { questionSeconds, answerSeconds } = PACING_PRESETS[preset];
+    setCustomPacing(false);
+    setPacing(pacingFromPreset(preset, pacing.waitForSpeech));
+    speak(t("pace.presetSpoken", { label: t(`pace.${preset}`), question: questionSeconds, answer: answerSeconds }), { priority: "high" });
+  };
+
+  const handleCustomPacing = () => {
+    setCustomPacing(true);
+    speak(t("pace.customSpoken"), { priority: "high" });
+  };
+
+  const handlePacingSeconds = (field: "questionSeconds" | "answerSeconds", seconds: number) => {
+    const value = clampSeconds(seconds);
+    setPacing({ ...pacing, [field]: value });
+    speak(t("common.seconds", { count: value }), { priority: "high" });
+  };
+
+  const handleWaitForSpeechToggle = () => {
+    const waitForSpeech = !pacing.waitForSpeech;
+    setPacing({ ...pacing, waitForSpeech });
+    speak(t(waitForSpeech ? "pace.waitOn" : "pace.waitOff"), { priority: "high" });
+  };
+
+  const handleHostModeToggle = () => {
+    setHostMode(!hostMode);
+    speak(t(hostMode ? "pace.hostOff" : "pace.hostOn"), { priority: "high" });
+  };
+
+  const handleAddTeam = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = normalizeTeamNames([...teams, teamInput]);
+    if (next.length === teams.length) {
+      speak(teams.length >= MAX_TEAMS ? t("teams.limit", { count: MAX_TEAMS }) : t("teams.needName"), { priority: "high" });
+      return;
+    }
+    setTeams(next);
+    setTeamInput("");
+    speak(t("teams.added", { team: next[next.length - 1] }), { priority: "high" });
+  };
+
+  const handleRemoveTeam = (team: string) => {
+    setTeams(teams.filter((name) => name !== team));
+    speak(t("teams.removed", { team }), { priority: "high" });
   };
 
   const handleQuestionCountChange = (count: number) => {
     setQuestionCount(count);
-    speak(`${count} questions`);
+    speak(t("common.questions", { count }), { priority: "high" });
+  };
+
+  const handleLocaleSelect = (next: Locale) => {
+    updatePreferences({ locale: next });
+    followLocaleLanguage(LOCALES[next].speechLang);
+    speak(translate(next, "language.selected"), { priority: "high" });
   };
 
+  const onOff = (on: boolean) => t(on ? "common.on" : "common.off");
+  const stateLabel = (on: boolean) => t(on ? "display.stateOn" : "display.stateOff");
+
+  const periodLabel = (period: string) => {
+    if (period === ANY_PERIOD) return t("period.any");
+    const years = catalog ? choiceYears(catalog, period) : null;
+    if (!years) return period;
+    return years.fromYear % 10 === 0 && years.toYear === years.fromYear + 9
+      ? t("period.decade", { decade: years.fromYear })
+      : t("period.range", { from: years.fromYear, to: years.toYear });
+  };
+
+  const periods = catalog ? [...catalog.periods, ANY_PERIOD] : [];
+  const decades = catalog ? catalogDecades(catalog).map(yearsChoice) : [];
+  const youth = youthChoice();
+  const minQuestions = catalog ? catalog.minQuestions : 5;
+
+  // Every question counts until a topic is left out
+  const topics = catalog && excludedTopics.length > 0
+    ? catalog.categories.filter((topic) => !excludedTopics.includes(topic))
+    : undefined;
+
+  const selectionFilter: SelectionFilter = { topics, difficulty: isDifficulty(difficulty) ? difficulty : undefined };
+
+  const availableFor = (period: string, filter = selectionFilter) =>
+    catalog && selectedCountries.length > 0 ? totalForSelection(catalog, selectedCountries, period, filter) : null;
+
+  // Countries in the selection that have no questions at all for the period
+  const missingCountriesFor = (period: string) => {
+    if (!catalog) return [];
+    const counts = countsForSelection(catalog, selectedCountries, period, selectionFilter);
+    return selectedCountries.filter((c) => counts[c] === 0);
+  };
+
+  // A period, decade or the youth preset's range. The youth preset uses it as its form's submit
+  // button, before a birth year is entered as well, so an empty period has no count.
+  const periodButton = (period: string, submit?: { label: string; ariaLabel: string }) => {
+    const available = period ? availableFor(period) : null;
+    const missing = period ? missingCountriesFor(period) : [];
+    const isEmpty = available === 0;
+    const isShort = available !== null && available > 0 && (available < questionCount || missing.length > 0);
+    const isSelected = !!period && selectedPeriod === period;
+    const note = available === null
+      ? null
+      : isEmpty
+        ? t("period.none")
+        : missing.length > 0
+          ? t("period.missing", { count: available, countries: missing.join(", ") })
+          : isShort
+            ? t("period.short", { count: available })
+            : t("common.questions", { count: available });
+    const noteAria = note ? `, ${note.replace("⚠️ ", "")}` : "";
+    return (
+      <motion.button
+        key={period}
+        type={submit ? "submit" : "button"}
+        onClick={submit ? undefined : () => handlePeriodSelect(period)}
+        disabled={isEmpty}
+        className={`${isSelected ? selectedButtonClass : buttonClass} ${isEmpty ? "opacity-30 cursor-not-allowed" : ""} ${isShort && !isSelected ? "ring-4 ring-amber-400" : ""}`}
+        aria-pressed={isSelected}
+        aria-label={submit
+          ? `${submit.ariaLabel}${period ? `, ${periodLabel(period)}` : ""}${noteAria}`
+          : `${t("period.selectAria", { period: periodLabel(period) })}${noteAria}`}
+        variants={itemVariants}
+        whileHover={!isEmpty ? { scale: 1.05 } : {}}
+        whileTap={!isEmpty ? { scale: 0.93 } : {}}
+      >
+        <span className={textSize}>{submit ? submit.label : periodLabel(period)}</span>
+        {submit && period && <span className="block text-lg">{periodLabel(period)}</span>}
+        {note && <span className="block text-lg opacity-80">{note}</span>}
+      </motion.button>
+    );
+  };
+
+  const selectedAvailable = selectedPeriod ? availableFor(selectedPeriod) : null;
+  // Adaptive difficulty follows the team tallies or the spoken answers
+  const answersTracked = teams.length > 0 || spokenAnswers;
+  // Decades and the youth preset are spans of years rather than catalog periods
+  const selectedYears = catalog && selectedPeriod ? choiceYears(catalog, selectedPeriod) : null;
+
+  // How the round is played, whichever questions it has
+  const playSettings = () => ({
+    mode: questionMode,
+    seed: randomSeed(),
+    pacing,
+    host: hostMode,
+    teams,
+    voice: isVoiceActive,
+    spokenAnswers,
+  });
+
+  const selectionConfig = (): RoundConfig => ({
+    ...playSettings(),
+    countries: selectedCountries,
+    period: selectedPeriod === ANY_PERIOD || selectedYears ? "any" : selectedPeriod,
+    years: selectedYears || undefined,
+    categories: topics,
+    difficulty: isDifficulty(difficulty) ? difficulty : undefined,
+    adaptive: difficulty === "adaptive" && answersTracked,
+    count: questionCount,
+  });
+
   const handleStart = () => {
-    if (selectedCountries.length === 2 && selectedPeriod) {
-      speak(`Starting trivia with ${questionCount} questions from ${selectedCountries[0]} and ${selectedCountries[1]}`);
-      const periodParam = selectedPeriod === "Any Time" ? "any" : selectedPeriod;
-      router.push(`/play?countries=${selectedCountries.join(",")}&period=${periodParam}&count=${questionCount}`);
+    if (selectedCountries.length === 2 && selectedPeriod && selectedAvailable) {
+      speak(t("start.spoken", { count: Math.min(questionCount, selectedAvailable), first: selectedCountries[0], second: selectedCountries[1] }), { priority: "high" });
+      router.push(`/play?${roundConfigToQuery(selectionConfig())}`);
     }
   };
 
-  const handleRepeatInstructions = () => {
-    speak("Welcome to World Trivia TV. Choose 2 countries from the list. Then choose a time period. Select how many questions you want, from 5 to 15. Finally, press the Start Trivia button.");
+  const loadSavedRounds = async () => {
+    try {
+      const [presetResponse, playlistResponse] = await Promise.all([
+        fetch(`/api/presets?owner=${encodeURIComponent(getDeviceId())}`),
+        fetch("/api/playlists"),
+      ]);
+      if (presetResponse.ok) setPresets((await presetResponse.json()).presets);
+      if (playlistResponse.ok) setPlaylists((await playlistResponse.json()).playlists);
+    } catch (err) {
+      // Saved rounds are a shortcut; everything can still be chosen by hand
+    }
   };
 
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      speak("Welcome to World Trivia TV. Choose 2 countries, a time period, and how many questions you want to answer, then press Start.");
-    }, 800);
-    return () => clearTimeout(timer);
-  }, []);
+  // A fresh seed each time, so a preset doesn't repeat its last round
+  const handlePresetStart = (preset: PresetSummary) => {
+    speak(t("saved.startSpoken", { name: preset.name }), { priority: "high" });
+    router.push(`/play?${preset.query}&seed=${randomSeed()}`);
+  };
 
-  useEffect(() => {
-    if (!isVoiceActive) return;
+  // Playlists fix the questions; the question style, pacing and teams come from this page
+  const handlePlaylistStart = (playlist: PlaylistSummary) => {
+    speak(t("saved.startSpoken", { name: playlist.name }), { priority: "high" });
+    const query = roundConfigToQuery({
+      ...playSettings(),
+      playlist: playlist.id,
+      countries: [],
+      period: "any",
+      adaptive: false,
+      count: DEFAULT_QUESTION_COUNT,
+    });
+    router.push(`/play?${query}`);
+  };
 
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+  // Falls back to showing the link where the clipboard isn't available, such as over plain http
+  const handleCopyLink = async (query: string) => {
+    const url = `${window.location.origin}/play?${query}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      speak(t("saved.linkCopied"), { priority: "high" });
+    } catch (err) {
+      window.prompt(t("saved.copyPrompt"), url);
+    }
+  };
 
-    if (!SpeechRecognition) {
-      speak("Voice commands are not supported on this device");
-      alert("Voice commands are not supported on this browser. Try Chrome or Edge.");
-      setIsVoiceActive(false);
-      return;
+  const handleDeletePreset = async (preset: PresetSummary) => {
+    if (!window.confirm(t("saved.confirmDelete", { name: preset.name }))) return;
+    try {
+      const response = await fetch(`/api/presets/${encodeURIComponent(preset.id)}?owner=${encodeURIComponent(getDeviceId())}`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to delete preset");
+      setPresets(presets.filter((other) => other.id !== preset.id));
+    } catch (err) {
+      speak(t("saved.deleteFailed"), { priority: "high" });
     }
+  };
 
-    const recognition = new SpeechRecognition();
-    recognition.continuous = true;
-    recognition.interimResults = true;
-    recognition.lang = "en-US";
+  const handleSavePreset = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!canStart) return;
+    const name = presetName.trim() || suggestedPresetName;
+    try {
+      const response = await fetch("/api/presets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, query: roundConfigToQuery({ ...selectionConfig(), seed: undefined }), owner: getDeviceId() }),
+      });
+      if (!response.ok) throw new Error("Failed to save preset");
+      setPresetName("");
+      speak(t("saved.saved", { name }), { priority: "high" });
+      await loadSavedRounds();
+    } catch (err) {
+      speak(t("saved.saveFailed"), { priority: "high" });
+    }
+  };
 
-    recognition.onstart = () => {
-      speak("Voice commands active. Say start to begin.");
-    };
+  const loadPlayedCount = async () => {
+    try {
+      const response = await fetch(`/api/history?profile=${encodeURIComponent(currentProfile())}`);
+      const data = await response.json();
+      if (response.ok) setPlayedCount(data.played);
+    } catch (err) {
+      setPlayedCount(null);
+    }
+  };
 
-    recognition.onresult = (event: any) => {
-      const current = event.resultIndex;
-      const transcript = event.results[current][0].transcript.toLowerCase();
-      const isFinal = event.results[current].isFinal;
-      setVoiceCommand(transcript);
+  const handleGroupNameChange = (name: string) => {
+    setGroupNameState(name);
+    setGroupName(name);
+  };
 
-      if (isFinal) {
-        if (transcript.includes("start") || transcript.includes("begin") || transcript.includes("go")) {
-          if (selectedCountries.length === 2 && selectedPeriod) {
-            speak("Starting trivia now");
-            setTimeout(() => handleStart(), 500);
-          } else {
-            speak("Please select 2 countries and a time period first");
-          }
-        } else if (transcript.includes("stop") || transcript.includes("cancel")) {
-          speak("Voice commands off");
-          setIsVoiceActive(false);
-        }
-      }
-    };
+  const handleResetHistory = async () => {
+    const confirmation = groupName.trim()
+      ? t("history.confirmGroup", { group: groupName.trim() })
+      : t("history.confirmDevice");
+    if (!window.confirm(confirmation)) return;
+    try {
+      const response = await fetch(`/api/history?profile=${encodeURIComponent(currentProfile())}`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to reset history");
+      setPlayedCount(0);
+      speak(t("history.resetDone"), { priority: "high" });
+    } catch (err) {
+      speak(t("history.resetFailed"), { priority: "high" });
+    }
+  };
 
-    recognition.onerror = (event: any) => {
-      if (event.error === "not-allowed") {
-        alert("Microphone access denied. Please allow microphone access in your browser settings.");
-        setIsVoiceActive(false);
+  const handleRepeatInstructions = () => {
+    speak(t("home.instructions"), { priority: "high" });
+  };
+
+  useEffect(() => {
+    const fetchCatalog = async () => {
+      try {
+        const response = await fetch("/api/catalog");
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to fetch catalog");
+        setCatalog(data);
+      } catch (err) {
+        setCatalogFailed(true);
       }
     };
+    fetchCatalog();
+    loadSavedRounds();
+    setUnfinished(loadSavedRound());
+    setGroupNameState(getGroupName());
+  }, []);
 
-    recognition.onend = () => {
-      if (isVoiceActive) {
-        try { recognition.start(); } catch (e) {}
+  // Refresh the played count whenever the active profile changes
+  useEffect(() => {
+    const timer = setTimeout(loadPlayedCount, 300);
+    return () => clearTimeout(timer);
+  }, [groupName]);
+
+  // Waits for saved preferences so the welcome is spoken in the chosen language
+  useEffect(() => {
+    if (!loaded) return;
+    const timer = setTimeout(() => {
+      speak(t("home.welcome"));
+    }, 800);
+    return () => clearTimeout(timer);
+    // Welcome once; a later language change announces itself
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loaded]);
+
+  const handleVoiceCommand = (command: VoiceCommand | null) => {
+    if (!command) {
+      speak(t("voice.notUnderstood"), { priority: "high" });
+      return;
+    }
+    switch (command.type) {
+      case "selectCountries": {
+        // A single country is added to the current pick; the oldest pick makes way
+        const chosen = command.countries.length >= 2
+          ? command.countries.slice(0, 2)
+          : [...selectedCountries.filter((c) => c !== command.countries[0]), command.countries[0]].slice(-2);
+        setSelectedCountries(chosen);
+        speak(chosen.length === 2
+          ? t("voice.selectedTwo", { first: chosen[0], second: chosen[1] })
+          : t("voice.selectedOne", { country: chosen[0] }), { priority: "high" });
+        break;
       }
-    };
+      case "selectPeriod":
+        handlePeriodSelect(command.period);
+        break;
+      case "setCount":
+        handleQuestionCountChange(Math.min(15, Math.max(5, command.count)));
+        break;
+      case "start":
+        if (selectedCountries.length === 2 && selectedPeriod && selectedAvailable) {
+          handleStart();
+        } else {
+          speak(t("start.needSelectionSpoken"), { priority: "high" });
+        }
+        break;
+      case "help":
+        speak(t("voice.help", { commands: VOICE_COMMAND_HELP.menu.map((key) => t(key)).join(", ") }), { priority: "high" });
+        break;
+      case "stopListening":
+        speak(t("voice.offSpoken"), { priority: "high" });
+        setIsVoiceActive(false);
+        break;
+    }
+  };
 
-    try {
-      recognition.start();
-    } catch (error) {
-      speak("Could not start voice commands");
+  useSpeechRecognition({
+    enabled: isVoiceActive,
+    lang: speechLang,
+    onResult: (transcript, isFinal) => {
+      setVoiceCommand(transcript);
+      if (!isFinal) return;
+      const vocabulary = {
+        countries: catalog ? catalog.countries.map((c) => c.name) : [],
+        periods: catalog ? catalog.periods : [],
+      };
+      handleVoiceCommand(parseVoiceCommand(transcript, "menu", locale, vocabulary));
+    },
+    onFailure: (reason) => {
       setIsVoiceActive(false);
-    }
+      if (reason === "unsupported") {
+        speak(t("voice.unsupported"), { priority: "high" });
+        alert(t("voice.unsupportedAlert"));
+      } else if (reason === "not-allowed") {
+        alert(t("voice.micDenied"));
+      } else {
+        speak(t("voice.startFailed"), { priority: "high" });
+      }
+    },
+  });
 
-    return () => { recognition.stop(); };
-  }, [isVoiceActive, selectedCountries, selectedPeriod]);
+  useEffect(() => {
+    if (isVoiceActive && isSpeechRecognitionSupported()) speak(t("voice.active"));
+  }, [isVoiceActive, t]);
 
   const containerClass = `min-h-screen p-8 ${highContrast ? "bg-black" : "bg-blue-900"} text-white`;
-  const textSize = largeText ? "text-3xl" : "text-2xl";
-  const headingSize = largeText ? "text-7xl" : "text-6xl";
-  const subHeadingSize = largeText ? "text-5xl" : "text-4xl";
+  const textSize = textSizes[textScale];
+  const headingSize = headingSizes[textScale];
+  const subHeadingSize = subHeadingSizes[textScale];
   const buttonClass = `px-8 py-6 rounded-xl font-bold transition-colors focus:outline-none focus:ring-4 focus:ring-yellow-400 ${
     highContrast ? "bg-white text-black hover:bg-gray-200" : "bg-blue-500 hover:bg-blue-400 text-white"
   }`;
   const selectedButtonClass = `px-8 py-6 rounded-xl font-bold ring-4 ring-yellow-300 bg-yellow-500 text-black focus:outline-none focus:ring-4 focus:ring-yellow-400`;
 
-  const canStart = selectedCountries.length === 2 && !!selectedPeriod;
+  const canStart = selectedCountries.length === 2 && !!selectedPeriod && !!selectedAvailable;
+
+  const suggestedPresetName = canStart
+    ? `${selectedCountries.join(" & ")} · ${periodLabel(selectedPeriod)} · ${t("common.questions", { count: questionCount })}`
+    : "";
+
+  // "Nigeria and USA · 1960s · 12 questions" from a preset's saved settings
+  const presetSummary = (preset: PresetSummary) => {
+    const config = parseRoundQuery(preset.query);
+    if (!config) return "";
+    const years = config.years;
+    const period = years
+      ? years.fromYear % 10 === 0 && years.toYear === years.fromYear + 9
+        ? t("period.decade", { decade: years.fromYear })
+        : t("period.range", { from: years.fromYear, to: years.toYear })
+      : config.period === "any" ? t("period.any") : config.period;
+    return t("saved.presetSummary", {
+      countries: config.countries.join(` ${t("common.and")} `),
+      period,
+      count: config.count,
+    });
+  };
 
   return (
     <>
       <Head>
-        <title>World Trivia TV - Home</title>
+        <title>{t("home.pageTitle")}</title>
         <meta name="description" content="World Trivia TV - Choose your countries and time period" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
       </Head>
@@ -200,23 +609,27 @@ export default function Home() {
               animate={{ opacity: 1 }}
               transition={{ delay: 0.3 }}
             >
-              Choose your preferences to begin
+              {t("home.subtitle")}
             </motion.p>
           </motion.header>
 
           {/* Accessibility Controls */}
           <motion.section
             className="flex flex-wrap gap-4 mb-12 justify-center"
-            aria-label="Display settings"
+            aria-label={t("display.label")}
             initial={{ opacity: 0, y: 15 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.35 }}
           >
             {[
-              { label: highContrast ? "☀️ Normal" : "🌙 High Contrast", action: () => setHighContrast(!highContrast), ariaLabel: `Toggle high contrast mode. Currently ${highContrast ? "on" : "off"}` },
-              { label: `🔍 ${largeText ? "Normal Text" : "Larger Text"}`, action: () => setLargeText(!largeText), ariaLabel: `Toggle large text. Currently ${largeText ? "large" : "normal"}` },
-              { label: "🔊 Repeat Instructions", action: handleRepeatInstructions, ariaLabel: "Repeat instructions" },
-              { label: `🎤 ${isVoiceActive ? "Voice ON" : "Voice OFF"}`, action: () => setIsVoiceActive(!isVoiceActive), ariaLabel: "Toggle voice commands", active: isVoiceActive },
+              { label: t(highContrast ? "display.normal" : "display.highContrast"), action: () => updatePreferences({ highContrast: !highContrast }), ariaLabel: t("display.highContrastAria", { state: stateLabel(highContrast) }) },
+              { label: `🔍 ${t(`textScale.${textScale}`)}`, action: () => updatePreferences({ textScale: nextTextScale(textScale) }), ariaLabel: t("display.textAria", { size: t(`textScale.${textScale}`) }) },
+              { label: t(reducedMotion ? "display.motionOff" : "display.motionOn"), action: () => updatePreferences({ reducedMotion: !reducedMotion }), ariaLabel: t("display.motionAria", { state: stateLabel(!reducedMotion) }) },
+              { label: t(dyslexiaFont ? "display.standardFont" : "display.dyslexiaFont"), action: () => updatePreferences({ dyslexiaFont: !dyslexiaFont }), ariaLabel: t("display.dyslexiaAria", { state: stateLabel(dyslexiaFont) }) },
+              { label: t(colorBlindPalette ? "display.standardColors" : "display.colorBlind"), action: () => updatePreferences({ colorBlindPalette: !colorBlindPalette }), ariaLabel: t("display.colorBlindAria", { state: stateLabel(colorBlindPalette) }) },
+              { label: t("home.repeatInstructions"), action: handleRepeatInstructions },
+              { label: t("home.narration"), action: () => setShowNarrationSettings(!showNarrationSettings), ariaLabel: t("home.narrationAria") },
+              { label: t(isVoiceActive ? "voice.on" : "voice.off"), action: () => setIsVoiceActive(!isVoiceActive), ariaLabel: t("voice.toggleAria", { state: stateLabel(isVoiceActive) }), active: isVoiceActive },
             ].map((btn) => (
               <motion.button
                 key={btn.label}
@@ -231,6 +644,45 @@ export default function Home() {
             ))}
           </motion.section>
 
+          {/* Language */}
+          <motion.section
+            className="flex flex-wrap gap-4 mb-12 justify-center items-center"
+            aria-labelledby="language-heading"
+            initial={{ opacity: 0, y: 15 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.38 }}
+          >
+            <h2 id="language-heading" className={`${textSize} font-bold`}>
+              🌐 {t("language.heading")}
+            </h2>
+            {locales.map((code) => (
+              <motion.button
+                key={code}
+                lang={code}
+                onClick={() => handleLocaleSelect(code)}
+                className={locale === code ? selectedButtonClass : buttonClass}
+                aria-pressed={locale === code}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                {LOCALES[code].name}
+              </motion.button>
+            ))}
+          </motion.section>
+
+          <AnimatePresence>
+            {showNarrationSettings && (
+              <motion.div
+                className="mb-12"
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                exit={{ opacity: 0, height: 0 }}
+              >
+                <NarrationSettingsPanel highContrast={highContrast} />
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           {/* Voice Status Bar */}
           <AnimatePresence>
             {isVoiceActive && (
@@ -248,10 +700,10 @@ export default function Home() {
                   >
                     🎤
                   </motion.span>
-                  {" "}Listening...{" "}
-                  {voiceCommand ? `Heard: "${voiceCommand}"` : 'Say "Start" to begin'}
+                  {" "}{t("voice.listening")}{" "}
+                  {voiceCommand ? t("voice.heard", { text: voiceCommand }) : t("voice.sayHelp")}
                 </p>
-                <p className="text-xl">{'Commands: "Start", "Begin", "Go"'}</p>
+                <p className="text-xl">{t("voice.try", { commands: VOICE_COMMAND_HELP.menu.map((key) => t(key)).join(", ") })}</p>
               </motion.div>
             )}
           </AnimatePresence>
@@ -264,11 +716,109 @@ export default function Home() {
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
               >
-                <p className={textSize}>Last command: &quot;{voiceCommand}&quot;</p>
+                <p className={textSize}>{t("voice.lastCommand", { text: voiceCommand })}</p>
               </motion.div>
             )}
           </AnimatePresence>
 
+          {/* Unfinished round */}
+          {unfinished && (
+            <div className="mb-12 flex justify-center">
+              <motion.button
+                onClick={() => router.push(`/play?${unfinished.link}`)}
+                className={`${buttonClass} bg-green-600 hover:bg-green-500`}
+                aria-label={t("saved.resumeAria", { current: unfinished.currentIndex + 1, total: unfinished.items.length })}
+                whileHover={{ scale: 1.03 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <span className={textSize}>{t("saved.resume")}</span>
+                <span className="block text-lg opacity-80">
+                  {t("play.progress", { current: unfinished.currentIndex + 1, total: unfinished.items.length })}
+                </span>
+              </motion.button>
+            </div>
+          )}
+
+          {/* Saved Rounds */}
+          {(presets.length > 0 || playlists.length > 0) && (
+            <section className="mb-12" aria-labelledby="saved-heading">
+              <motion.h2
+                id="saved-heading"
+                className={`font-bold mb-6 text-center ${subHeadingSize}`}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.35 }}
+              >
+                {t("saved.heading")}
+              </motion.h2>
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {presets.map((preset) => {
+                  const summary = presetSummary(preset);
+                  return (
+                    <li key={`preset-${preset.id}`} className="flex gap-3">
+                      <motion.button
+                        onClick={() => handlePresetStart(preset)}
+                        className={`${buttonClass} flex-1 text-left`}
+                        aria-label={t("saved.startAria", { name: preset.name, summary })}
+                        whileHover={{ scale: 1.03 }}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        <span className={textSize}>▶️ {preset.name}</span>
+                        <span className="block text-lg opacity-80">{summary}</span>
+                      </motion.button>
+                      <div className="flex flex-col gap-3">
+                        <button
+                          onClick={() => handleCopyLink(preset.query)}
+                          className={`${buttonClass} px-4 py-3 text-lg`}
+                          aria-label={t("saved.copyLinkAria", { name: preset.name })}
+                        >
+                          {t("saved.copyLink")}
+                        </button>
+                        {preset.mine && (
+                          <button
+                            onClick={() => handleDeletePreset(preset)}
+                            className={`${buttonClass} px-4 py-3 text-lg`}
+                            aria-label={t("saved.deleteAria", { name: preset.name })}
+                          >
+                            {t("saved.delete")}
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+                {playlists.map((playlist) => {
+                  const summary = t("saved.playlistSummary", { count: playlist.count });
+                  return (
+                    <li key={`playlist-${playlist.id}`} className="flex gap-3">
+                      <motion.button
+                        onClick={() => handlePlaylistStart(playlist)}
+                        className={`${buttonClass} flex-1 text-left`}
+                        aria-label={t("saved.startAria", { name: playlist.name, summary: summary.replace("🎵 ", "") })}
+                        whileHover={{ scale: 1.03 }}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        <span className={textSize}>▶️ {playlist.name}</span>
+                        <span className="block text-lg opacity-80">{summary}</span>
+                        {playlist.description && <span className="block text-lg opacity-80">{playlist.description}</span>}
+                      </motion.button>
+                      <button
+                        onClick={() => handleCopyLink(`playlist=${encodeURIComponent(playlist.id)}`)}
+                        className={`${buttonClass} px-4 py-3 text-lg self-start`}
+                        aria-label={t("saved.copyLinkAria", { name: playlist.name })}
+                      >
+                        {t("saved.copyLink")}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              <p className="text-xl text-center mt-4 text-white/70">
+                {t("saved.hint")}
+              </p>
+            </section>
+          )}
+
           {/* Country Selection */}
           <section className="mb-12" aria-labelledby="country-heading">
             <motion.h2
@@ -278,15 +828,20 @@ export default function Home() {
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: 0.4 }}
             >
-              Choose 2 Countries ({selectedCountries.length}/2)
+              {t("countries.heading", { count: selectedCountries.length })}
             </motion.h2>
+            {!catalog && (
+              <p className={`${textSize} text-center ${catalogFailed ? "text-red-300" : "text-white/70"}`} role="status">
+                {t(catalogFailed ? "home.loadCatalogError" : "countries.loading")}
+              </p>
+            )}
             <motion.div
               className="grid grid-cols-2 md:grid-cols-3 gap-6"
               variants={containerVariants}
               initial="hidden"
               animate="visible"
             >
-              {countries.map((country) => {
+              {catalog && catalog.countries.map(({ name: country, total }) => {
                 const isSelected = selectedCountries.includes(country);
                 const isDisabled = !isSelected && selectedCountries.length >= 2;
                 return (
@@ -296,13 +851,14 @@ export default function Home() {
                     disabled={isDisabled}
                     className={`${isSelected ? selectedButtonClass : buttonClass} ${isDisabled ? "opacity-30 cursor-not-allowed" : ""}`}
                     aria-pressed={isSelected}
-                    aria-label={`Select ${country}`}
+                    aria-label={t("countries.selectAria", { country, count: total })}
                     variants={itemVariants}
                     whileHover={!isDisabled ? { scale: 1.05 } : {}}
                     whileTap={!isDisabled ? { scale: 0.93 } : {}}
                     animate={isSelected ? { scale: [1, 1.12, 1], transition: { duration: 0.3 } } : {}}
                   >
                     <span className={textSize}>{country}</span>
+                    <span className="block text-lg opacity-80">{t("common.questions", { count: total })}</span>
                   </motion.button>
                 );
               })}
@@ -316,7 +872,7 @@ export default function Home() {
                   exit={{ opacity: 0, y: 8 }}
                 >
                   <p className={`${textSize} text-yellow-300`}>
-                    Selected: {selectedCountries.join(" and ")}
+                    {t("countries.selected", { countries: selectedCountries.join(` ${t("common.and")} `) })}
                   </p>
                 </motion.div>
               )}
@@ -332,7 +888,7 @@ export default function Home() {
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: 0.5 }}
             >
-              Choose Time Period
+              {t("period.heading")}
             </motion.h2>
             <motion.div
               className="grid grid-cols-2 md:grid-cols-3 gap-6"
@@ -340,21 +896,154 @@ export default function Home() {
               initial="hidden"
               animate="visible"
             >
-              {periods.map((period) => (
+              {periods.map((period) => periodButton(period))}
+            </motion.div>
+
+            {decades.length > 0 && (
+              <>
+                <h3 className={`font-bold mt-10 mb-4 text-center ${textSize}`}>{t("period.decades")}</h3>
+                <motion.div
+                  className="grid grid-cols-2 md:grid-cols-4 gap-6"
+                  variants={containerVariants}
+                  initial="hidden"
+                  animate="visible"
+                >
+                  {decades.map((decade) => periodButton(decade))}
+                </motion.div>
+              </>
+            )}
+
+            <h3 className={`font-bold mt-10 mb-4 text-center ${textSize}`}>{t("period.youthHeading")}</h3>
+            <form onSubmit={handleYouthSelect} className="flex flex-col md:flex-row gap-4 justify-center items-stretch">
+              <input
+                type="number"
+                inputMode="numeric"
+                min={1900}
+                max={new Date().getFullYear()}
+                value={birthYear}
+                onChange={(e) => setBirthYear(e.target.value)}
+                placeholder={t("period.birthYear")}
+                aria-label={t("period.birthYearAria")}
+                className={`px-6 py-4 rounded-xl text-black ${textSize} md:w-64 focus:outline-none focus:ring-4 focus:ring-yellow-400`}
+              />
+              {periodButton(youth || "", {
+                label: t("period.youth"),
+                ariaLabel: t("period.youthAria", { from: YOUTH_AGES.from, to: YOUTH_AGES.to }),
+              })}
+            </form>
+          </section>
+
+          {/* Topic Selection */}
+          {catalog && catalog.categories.length > 0 && (
+            <section className="mb-12" aria-labelledby="topic-heading">
+              <motion.h2
+                id="topic-heading"
+                className={`font-bold mb-2 text-center ${subHeadingSize}`}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.52 }}
+              >
+                {t("topic.heading")}
+              </motion.h2>
+              <p className="text-xl text-center text-white/80 mb-6">{t("topic.hint")}</p>
+              <div className="flex gap-4 justify-center flex-wrap mb-6">
                 <motion.button
-                  key={period}
-                  onClick={() => handlePeriodSelect(period)}
-                  className={selectedPeriod === period ? selectedButtonClass : buttonClass}
-                  aria-pressed={selectedPeriod === period}
-                  aria-label={`Select ${period}`}
-                  variants={itemVariants}
+                  onClick={() => handleAllTopics(true)}
+                  className={excludedTopics.length === 0 ? selectedButtonClass : buttonClass}
+                  aria-pressed={excludedTopics.length === 0}
                   whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.93 }}
+                  whileTap={{ scale: 0.95 }}
                 >
-                  <span className={textSize}>{period}</span>
+                  <span className={textSize}>{t("topic.all")}</span>
                 </motion.button>
-              ))}
-            </motion.div>
+                <motion.button
+                  onClick={() => handleAllTopics(false)}
+                  className={buttonClass}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  <span className={textSize}>{t("topic.none")}</span>
+                </motion.button>
+              </div>
+              <motion.div
+                className="grid grid-cols-2 md:grid-cols-4 gap-6"
+                variants={containerVariants}
+                initial="hidden"
+                animate="visible"
+              >
+                {catalog.categories.map((topic) => {
+                  const isIncluded = !excludedTopics.includes(topic);
+                  const available = availableFor(selectedPeriod || ANY_PERIOD, { ...selectionFilter, topics: [topic] });
+                  const note = available === null ? "" : t("common.questions", { count: available });
+                  return (
+                    <motion.button
+                      key={topic}
+                      onClick={() => handleTopicToggle(topic)}
+                      className={`${isIncluded ? selectedButtonClass : buttonClass} ${available === 0 ? "opacity-50" : ""}`}
+                      aria-pressed={isIncluded}
+                      aria-label={`${t("topic.selectAria", { topic: topicLabel(topic) })}${note ? `, ${note}` : ""}`}
+                      variants={itemVariants}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.93 }}
+                    >
+                      <span className={textSize}>
+                        <span aria-hidden="true">{topicIcons[topic as Category]} </span>
+                        {topicLabel(topic)}
+                      </span>
+                      {note && <span className="block text-lg opacity-80">{note}</span>}
+                    </motion.button>
+                  );
+                })}
+              </motion.div>
+            </section>
+          )}
+
+          {/* Difficulty */}
+          <section className="mb-12" aria-labelledby="difficulty-heading">
+            <motion.h2
+              id="difficulty-heading"
+              className={`font-bold mb-6 text-center ${subHeadingSize}`}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.54 }}
+            >
+              {t("difficulty.heading")}
+            </motion.h2>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+              {(["", ...DIFFICULTIES] as const).map((level) => {
+                const label = level ? t(`difficulty.${level}`) : t("difficulty.any");
+                const available = level ? availableFor(selectedPeriod || ANY_PERIOD, { topics, difficulty: level }) : null;
+                const note = !level ? t("difficulty.anyDescription") : available === null ? "" : t("common.questions", { count: available });
+                return (
+                  <motion.button
+                    key={level || "any"}
+                    onClick={() => handleDifficultySelect(level)}
+                    className={`${difficulty === level ? selectedButtonClass : buttonClass} ${available === 0 ? "opacity-50" : ""}`}
+                    aria-pressed={difficulty === level}
+                    aria-label={`${t("difficulty.selectAria", { difficulty: label })}${note ? `, ${note}` : ""}`}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.93 }}
+                  >
+                    <span className={textSize}>{label}</span>
+                    {note && <span className="block text-lg opacity-80">{note}</span>}
+                  </motion.button>
+                );
+              })}
+              <motion.button
+                onClick={() => handleDifficultySelect("adaptive")}
+                className={`${difficulty === "adaptive" ? selectedButtonClass : buttonClass} ${!answersTracked ? "ring-4 ring-amber-400" : ""} col-span-2 md:col-span-1`}
+                aria-pressed={difficulty === "adaptive"}
+                aria-label={`${t("difficulty.selectAria", { difficulty: t("difficulty.adaptive") })}. ${t("difficulty.adaptiveDescription")}`}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.93 }}
+              >
+                <span className={textSize}>{t("difficulty.adaptive")}</span>
+                <span className="block text-lg opacity-80">{t("difficulty.adaptiveDescription")}</span>
+              </motion.button>
+            </div>
+            {difficulty === "adaptive" && !answersTracked && (
+              <p className={`mt-6 text-center ${textSize} text-amber-300`} role="status">{t("difficulty.needsTracking")}</p>
+            )}
           </section>
 
           {/* Question Count */}
@@ -366,14 +1055,14 @@ export default function Home() {
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: 0.55 }}
             >
-              How Many Questions? (5–15)
+              {t("count.heading")}
             </motion.h2>
             <div className="max-w-4xl mx-auto">
               <div className="flex items-center justify-center gap-8 mb-6">
                 <motion.button
                   onClick={() => handleQuestionCountChange(Math.max(5, questionCount - 1))}
                   className={buttonClass}
-                  aria-label="Decrease question count"
+                  aria-label={t("count.decrease")}
                   whileHover={{ scale: 1.1 }}
                   whileTap={{ scale: 0.9 }}
                 >
@@ -391,7 +1080,7 @@ export default function Home() {
                 <motion.button
                   onClick={() => handleQuestionCountChange(Math.min(15, questionCount + 1))}
                   className={buttonClass}
-                  aria-label="Increase question count"
+                  aria-label={t("count.increase")}
                   whileHover={{ scale: 1.1 }}
                   whileTap={{ scale: 0.9 }}
                 >
@@ -403,9 +1092,9 @@ export default function Home() {
                   <motion.button
                     key={count}
                     onClick={() => handleQuestionCountChange(count)}
-                    className={questionCount === count ? selectedButtonClass : buttonClass}
+                    className={`${questionCount === count ? selectedButtonClass : buttonClass} ${selectedAvailable !== null && count > selectedAvailable ? "opacity-50" : ""}`}
                     aria-pressed={questionCount === count}
-                    aria-label={`Select ${count} questions`}
+                    aria-label={t("count.selectAria", { count })}
                     whileHover={{ scale: 1.08 }}
                     whileTap={{ scale: 0.93 }}
                   >
@@ -413,23 +1102,290 @@ export default function Home() {
                   </motion.button>
                 ))}
               </div>
+              <AnimatePresence>
+                {selectedAvailable !== null && selectedAvailable > 0 && selectedAvailable < questionCount && (
+                  <motion.p
+                    className={`mt-6 text-center ${textSize} text-amber-300`}
+                    role="status"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                  >
+                    {t("count.shortRound", { count: selectedAvailable })}
+                    {selectedAvailable < minQuestions && t("count.tryAnother")}
+                  </motion.p>
+                )}
+              </AnimatePresence>
+            </div>
+          </section>
+
+          {/* Question Style */}
+          <section className="mb-12" aria-labelledby="mode-heading">
+            <motion.h2
+              id="mode-heading"
+              className={`font-bold mb-6 text-center ${subHeadingSize}`}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.6 }}
+            >
+              {t("mode.heading")}
+            </motion.h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-4xl mx-auto">
+              {questionModes.map(({ mode, label, description, spoken }) => (
+                <motion.button
+                  key={mode}
+                  onClick={() => handleQuestionModeSelect(mode)}
+                  className={questionMode === mode ? selectedButtonClass : buttonClass}
+                  aria-pressed={questionMode === mode}
+                  aria-label={`${t(spoken)}. ${t(description)}`}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.93 }}
+                >
+                  <span className={textSize}>{t(label)}</span>
+                  <span className="block text-lg opacity-80">{t(description)}</span>
+                </motion.button>
+              ))}
+            </div>
+            <div className="text-center mt-6">
+              <motion.button
+                onClick={handleSpokenAnswersToggle}
+                className={spokenAnswers ? selectedButtonClass : buttonClass}
+                aria-pressed={spokenAnswers}
+                aria-label={t("mode.answerAloudAria")}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <span className={textSize}>{t("mode.answerAloud", { state: onOff(spokenAnswers) })}</span>
+              </motion.button>
+            </div>
+          </section>
+
+          {/* Pacing */}
+          <section className="mb-12" aria-labelledby="pacing-heading">
+            <motion.h2
+              id="pacing-heading"
+              className={`font-bold mb-6 text-center ${subHeadingSize}`}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.62 }}
+            >
+              {t("pace.heading")}
+            </motion.h2>
+            <div className="max-w-5xl mx-auto">
+              <div className="text-center mb-6">
+                <motion.button
+                  onClick={handleHostModeToggle}
+                  className={hostMode ? selectedButtonClass : buttonClass}
+                  aria-pressed={hostMode}
+                  aria-label={t("pace.hostAria")}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  <span className={textSize}>{t("pace.host", { state: onOff(hostMode) })}</span>
+                  <span className="block text-lg opacity-80">{t("pace.hostDescription")}</span>
+                </motion.button>
+              </div>
+              {!hostMode && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-6">
+                    {(Object.keys(PACING_PRESETS) as PacingPreset[]).map((preset) => {
+                      const { questionSeconds, answerSeconds } = PACING_PRESETS[preset];
+                      const label = t(`pace.${preset}`);
+                      const isSelected = !customPacing && matchPreset(pacing) === preset;
+                      return (
+                        <motion.button
+                          key={preset}
+                          onClick={() => handlePacingPreset(preset)}
+                          className={isSelected ? selectedButtonClass : buttonClass}
+                          aria-pressed={isSelected}
+                          aria-label={t("pace.presetAria", { label, question: questionSeconds, answer: answerSeconds })}
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.93 }}
+                        >
+                          <span className={textSize}>{label}</span>
+                          <span className="block text-lg opacity-80">{questionSeconds}s / {answerSeconds}s</span>
+                        </motion.button>
+                      );
+                    })}
+                    <motion.button
+                      onClick={handleCustomPacing}
+                      className={customPacing ? selectedButtonClass : buttonClass}
+                      aria-pressed={customPacing}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.93 }}
+                    >
+                      <span className={textSize}>{t("pace.custom")}</span>
+                      <span className="block text-lg opacity-80">{pacing.questionSeconds}s / {pacing.answerSeconds}s</span>
+                    </motion.button>
+                  </div>
+                  <AnimatePresence>
+                    {customPacing && (
+                      <motion.div
+                        className="flex flex-col md:flex-row gap-6 justify-center mb-6"
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: "auto" }}
+                        exit={{ opacity: 0, height: 0 }}
+                      >
+                        {([
+                          { field: "questionSeconds", label: t("pace.thinkingTime") },
+                          { field: "answerSeconds", label: t("pace.answerTime") },
+                        ] as const).map(({ field, label }) => (
+                          <div key={field} className="flex items-center justify-center gap-4">
+                            <span className={textSize}>{label}</span>
+                            <motion.button
+                              onClick={() => handlePacingSeconds(field, pacing[field] - 1)}
+                              className={buttonClass}
+                              aria-label={t("pace.decrease", { label: label.toLowerCase() })}
+                              whileHover={{ scale: 1.1 }}
+                              whileTap={{ scale: 0.9 }}
+                            >
+                              <span className="text-3xl">−</span>
+                            </motion.button>
+                            <span className={`${subHeadingSize} font-bold text-yellow-300 min-w-[3ch] text-center`} aria-live="polite">
+                              {pacing[field]}s
+                            </span>
+                            <motion.button
+                              onClick={() => handlePacingSeconds(field, pacing[field] + 1)}
+                              className={buttonClass}
+                              aria-label={t("pace.increase", { label: label.toLowerCase() })}
+                              whileHover={{ scale: 1.1 }}
+                              whileTap={{ scale: 0.9 }}
+                            >
+                              <span className="text-3xl">+</span>
+                            </motion.button>
+                          </div>
+                        ))}
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                  <div className="text-center">
+                    <motion.button
+                      onClick={handleWaitForSpeechToggle}
+                      className={pacing.waitForSpeech ? selectedButtonClass : buttonClass}
+                      aria-pressed={pacing.waitForSpeech}
+                      aria-label={t("pace.waitForSpeechAria")}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                    >
+                      <span className={textSize}>{t("pace.waitForSpeech", { state: onOff(pacing.waitForSpeech) })}</span>
+                    </motion.button>
+                  </div>
+                </>
+              )}
             </div>
           </section>
 
+          {/* Teams */}
+          <section className="mb-12" aria-labelledby="teams-heading">
+            <motion.h2
+              id="teams-heading"
+              className={`font-bold mb-6 text-center ${subHeadingSize}`}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.64 }}
+            >
+              {t("teams.heading")}
+            </motion.h2>
+            <div className="max-w-4xl mx-auto">
+              <form onSubmit={handleAddTeam} className="flex flex-col md:flex-row gap-4 justify-center items-stretch mb-6">
+                <input
+                  type="text"
+                  value={teamInput}
+                  onChange={(e) => setTeamInput(e.target.value)}
+                  placeholder={t("teams.placeholder")}
+                  maxLength={MAX_TEAM_NAME_LENGTH}
+                  disabled={teams.length >= MAX_TEAMS}
+                  aria-label={t("teams.inputAria")}
+                  className={`px-6 py-4 rounded-xl text-black ${textSize} focus:outline-none focus:ring-4 focus:ring-yellow-400`}
+                />
+                <motion.button
+                  type="submit"
+                  className={`${buttonClass} ${textSize} ${teams.length >= MAX_TEAMS ? "opacity-40 cursor-not-allowed" : ""}`}
+                  disabled={teams.length >= MAX_TEAMS}
+                  aria-label={t("teams.addAria")}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {t("teams.add")}
+                </motion.button>
+              </form>
+              {teams.length > 0 ? (
+                <ul className="flex flex-wrap gap-4 justify-center" aria-label={t("teams.list")}>
+                  {teams.map((team) => (
+                    <li key={team}>
+                      <motion.button
+                        onClick={() => handleRemoveTeam(team)}
+                        className={`${selectedButtonClass} ${textSize}`}
+                        aria-label={t("teams.removeAria", { team })}
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        {team} ✕
+                      </motion.button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xl text-center text-white/70">
+                  {t("teams.hint")}
+                </p>
+              )}
+            </div>
+          </section>
+
+          {/* Play History */}
+          <section className="mb-12" aria-labelledby="history-heading">
+            <motion.h2
+              id="history-heading"
+              className={`font-bold mb-6 text-center ${subHeadingSize}`}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.65 }}
+            >
+              {t("history.heading")}
+            </motion.h2>
+            <div className="max-w-4xl mx-auto flex flex-col md:flex-row gap-6 items-center justify-center">
+              <label className={`${textSize} flex flex-col gap-2 w-full md:w-auto`}>
+                <span>{t("history.groupName")}</span>
+                <input
+                  type="text"
+                  value={groupName}
+                  onChange={(e) => handleGroupNameChange(e.target.value)}
+                  placeholder={t("history.groupPlaceholder")}
+                  maxLength={40}
+                  className="px-6 py-4 rounded-xl text-black focus:outline-none focus:ring-4 focus:ring-yellow-400"
+                />
+              </label>
+              <motion.button
+                onClick={handleResetHistory}
+                className={`${buttonClass} ${textSize}`}
+                aria-label={`${t("history.resetAria")}${playedCount !== null ? `, ${t("history.played", { count: playedCount })}` : ""}`}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                {t("history.reset")}
+                {playedCount !== null && <span className="block text-lg opacity-80">{t("history.played", { count: playedCount })}</span>}
+              </motion.button>
+            </div>
+            <p className="text-xl text-center mt-4 text-white/70">
+              {t("history.hint")}
+            </p>
+          </section>
+
           {/* Start Button */}
           <div className="text-center mt-16">
             <motion.button
               onClick={handleStart}
               disabled={!canStart}
               className={`${buttonClass} ${textSize} px-20 py-10 text-4xl ${!canStart ? "opacity-40 cursor-not-allowed" : ""}`}
-              aria-label="Start trivia"
+              aria-label={t("start.aria")}
               aria-disabled={!canStart}
               whileHover={canStart ? { scale: 1.08 } : {}}
               whileTap={canStart ? { scale: 0.95 } : {}}
               animate={canStart ? { boxShadow: ["0 0 0 0 rgba(234,179,8,0)", "0 0 0 16px rgba(234,179,8,0.3)", "0 0 0 0 rgba(234,179,8,0)"] } : {}}
               transition={canStart ? { duration: 2, repeat: Infinity } : {}}
             >
-              ▶️ Start Trivia
+              {t("start.button")}
             </motion.button>
             <AnimatePresence>
               {!canStart && (
@@ -439,10 +1395,36 @@ export default function Home() {
                   animate={{ opacity: 1 }}
                   exit={{ opacity: 0 }}
                 >
-                  Please select 2 countries and a time period
+                  {selectedAvailable === 0
+                    ? t("start.noQuestions")
+                    : t("start.needSelection")}
                 </motion.p>
               )}
             </AnimatePresence>
+            {canStart && (
+              <form onSubmit={handleSavePreset} className="mt-10 flex flex-col md:flex-row gap-4 items-center md:items-end justify-center">
+                <label className={`${textSize} flex flex-col gap-2 w-full md:w-auto text-left`}>
+                  <span>{t("saved.nameLabel")}</span>
+                  <input
+                    type="text"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    placeholder={suggestedPresetName}
+                    maxLength={80}
+                    className="px-6 py-4 rounded-xl text-black md:min-w-[28rem] focus:outline-none focus:ring-4 focus:ring-yellow-400"
+                  />
+                </label>
+                <motion.button
+                  type="submit"
+                  className={`${buttonClass} ${textSize}`}
+                  aria-label={t("saved.saveAria")}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {t("saved.save")}
+                </motion.button>
+              </form>
+            )}
           </div>
         </motion.div>
       </div>
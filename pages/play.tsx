@@ -2,118 +2,303 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import { motion, AnimatePresence } from 'framer-motion';
+import NarrationSettingsPanel from '@/components/NarrationSettingsPanel';
+import QuestionMedia from '@/components/QuestionMedia';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { useMediaSession } from '@/hooks/useMediaSession';
+import { useNarration } from '@/hooks/useNarration';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useRemoteControl } from '@/hooks/useRemoteControl';
+import { useSpatialNavigation } from '@/hooks/useSpatialNavigation';
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { useTranslation } from '@/hooks/useTranslation';
+import { adaptUpcoming, ADAPTIVE_START, nextDifficulty } from '@/lib/adaptive';
+import { isSpokenAnswerCorrect } from '@/lib/answerMatching';
+import { CHOICE_LABELS } from '@/lib/choices';
+import type { Translate } from '@/lib/i18n';
+import { cancelNarration, speak, updateNarrationSettings } from '@/lib/narration';
+import { DEFAULT_PACING } from '@/lib/pacing';
+import { nextTextScale, TextScale } from '@/lib/preferences';
+import { currentProfile } from '@/lib/profile';
+import type { RemoteCommand, RemoteStatus } from '@/lib/remote';
+import { rankTeams, Tally, teamScore, toggleTally } from '@/lib/scoring';
+import { parseRoundConfig, roundConfigToQuery } from '@/lib/roundConfig';
+import { clearSavedRound, loadSavedRound, saveRound, SavedRound, SpokenResult } from '@/lib/savedRound';
+import { itemDifficulty, MediaPhase, phaseMedia, RoundItem } from '@/lib/trivia';
+import { parseVoiceCommand, VOICE_COMMAND_HELP, VoiceCommand } from '@/lib/voiceCommands';
 
-interface TriviaItem {
-  countries: string;
-  period: string;
-  question: string;
-  answer: string;
-  funFact?: string;
+const textSizes: Record<TextScale, string> = { normal: 'text-3xl', large: 'text-4xl', 'extra-large': 'text-5xl' };
+const questionSizes: Record<TextScale, string> = { normal: 'text-6xl', large: 'text-7xl', 'extra-large': 'text-8xl' };
+const answerSizes: Record<TextScale, string> = { normal: 'text-5xl', large: 'text-6xl', 'extra-large': 'text-7xl' };
+
+// Descriptions of the picture and clip for a phase, so listeners know what is on screen
+function mediaSpeech(item: RoundItem, phase: MediaPhase, t: Translate): string[] {
+  return phaseMedia(item, phase).map(({ kind, media }) =>
+    t(kind === 'image' ? 'play.picture' : 'play.soundClip', { description: media.alt })
+  );
+}
+
+// Spoken form of the question, reading out the options in multiple-choice mode
+function questionSpeech(item: RoundItem, t: Translate): string {
+  const media = mediaSpeech(item, 'question', t).map(part => `${part}.`);
+  const options = item.choices
+    ? item.choices.options.map((option, i) => `${CHOICE_LABELS[i]}: ${option}.`)
+    : [];
+  return [item.question, ...media, ...options].join(' ');
+}
+
+function answerSpeech(item: RoundItem, t: Translate): string {
+  const answer = item.choices
+    ? `${CHOICE_LABELS[item.choices.correctIndex]}: ${item.answer}`
+    : item.answer;
+  const spoken = t('play.answerIs', { answer });
+  return [spoken, ...mediaSpeech(item, 'answer', t), item.funFact].filter(Boolean).join('. ');
 }
 
 export default function Play() {
   const router = useRouter();
-  const { countries, period, count } = router.query;
+  const config = parseRoundConfig(router.query);
+  const configQuery = config ? roundConfigToQuery(config) : '';
+  const { questionSeconds, answerSeconds, waitForSpeech } = config ? config.pacing : DEFAULT_PACING;
+  const hostMode = !!config && config.host;
+  const teams = config ? config.teams : [];
+  const spokenAnswers = !!config && config.spokenAnswers;
 
-  const [triviaItems, setTriviaItems] = useState<TriviaItem[]>([]);
+  const [triviaItems, setTriviaItems] = useState<RoundItem[]>([]);
+  // Spare questions an adaptive round can swap in
+  const [reserve, setReserve] = useState<RoundItem[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [isPaused, setIsPaused] = useState(false);
   const [hasEnded, setHasEnded] = useState(false);
-  const [highContrast, setHighContrast] = useState(false);
-  const [largeText, setLargeText] = useState(false);
-  const [countdown, setCountdown] = useState(8);
+  const { preferences, loaded, updatePreferences } = usePreferences();
+  const { highContrast, textScale } = preferences;
+  const { t, locale, speechLang } = useTranslation();
+  const [countdown, setCountdown] = useState(questionSeconds);
+  const [remoteUrl, setRemoteUrl] = useState('/remote');
+  const [tally, setTally] = useState<Tally>({});
+  const [isVoiceActive, setIsVoiceActive] = useState(false);
+  const [voiceCommand, setVoiceCommand] = useState('');
+  const [showNarrationSettings, setShowNarrationSettings] = useState(false);
+  // Question index -> what the players said and whether it was right
+  const [spokenResults, setSpokenResults] = useState<Record<number, SpokenResult>>({});
+  // An unfinished round for this link, offered before starting a new one
+  const [resumable, setResumable] = useState<SavedRound | null>(null);
+  // A resumed round's link no longer says it adapts; the saved round does
+  const [resumedAdaptive, setResumedAdaptive] = useState(false);
+  // Adaptive difficulty needs to know how the room is doing
+  const adaptive = !!config && (config.adaptive || resumedAdaptive) && (teams.length > 0 || spokenAnswers);
+  const [confirmingExit, setConfirmingExit] = useState(false);
 
   const timerIntervalRef = useRef<NodeJS.Timeout>();
+  // The furthest question shown so far; questions up to it are never swapped out
+  const furthestIndexRef = useRef(0);
+  // The query that plays this round's questions again, saved with its progress
+  const roundLinkRef = useRef('');
+  // The seed the server picked the round with, so its link shows the same multiple-choice options
+  const roundSeedRef = useRef<string>();
+
+  const { speaking: isNarrating, settings: narration } = useNarration();
+  const timerHeld = waitForSpeech && isNarrating;
 
-  const speak = (text: string) => {
-    if (typeof window !== 'undefined' && window.speechSynthesis) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.rate = 0.85;
-      utterance.pitch = 0.9;
-      utterance.volume = 1.0;
-      window.speechSynthesis.speak(utterance);
+  // Puts the round's question ids and seed in the address, so reloading or sharing it plays the same questions
+  // with the same options. The router isn't told, so the round isn't fetched again.
+  const linkRound = (items: RoundItem[]) => {
+    if (!config) return;
+    const seed = roundSeedRef.current || config.seed;
+    roundLinkRef.current = roundConfigToQuery(config.playlist ? { ...config, seed } : { ...config, ids: items.map(item => item.id), seed });
+    const url = `/play?${roundLinkRef.current}`;
+    window.history.replaceState({ ...window.history.state, as: url, url }, '', url);
+  };
+
+  const fetchTrivia = async () => {
+    if (!config) return;
+    try {
+      setLoading(true);
+      const profile = encodeURIComponent(currentProfile());
+      const response = await fetch(`/api/trivia?${configQuery}&profile=${profile}&lang=${locale}`);
+      const data = await response.json();
+      if (response.status === 404 && config.playlist) {
+        setError(t('play.playlistMissing'));
+        speak(t('play.playlistMissing'));
+        return;
+      }
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch trivia');
+      if (data.items.length === 0) {
+        setError(t('play.noTrivia'));
+        speak(t('play.noTrivia'));
+      } else {
+        // Adaptive rounds open with a medium question
+        const round = adaptive ? adaptUpcoming({ items: data.items, reserve: data.reserve || [] }, 0, ADAPTIVE_START) : null;
+        roundSeedRef.current = data.seed;
+        setTriviaItems(round ? round.items : data.items);
+        setReserve(round ? round.reserve : []);
+        speak(t('play.starting', { count: data.items.length }));
+      }
+    } catch (err) {
+      setError(t('play.loadFailed'));
+      speak(t('play.loadFailedSpoken'));
+    } finally {
+      setLoading(false);
     }
   };
 
+  // Waits for saved preferences so questions arrive in the chosen language.
+  // Reopening the link of an unfinished round offers to pick it up instead.
   useEffect(() => {
-    if (!countries || !period) return;
-    const fetchTrivia = async () => {
-      try {
-        setLoading(true);
-        const response = await fetch(`/api/trivia?countries=${countries}&period=${period}`);
-        const data = await response.json();
-        if (!response.ok) throw new Error(data.error || 'Failed to fetch trivia');
-        if (data.items.length === 0) {
-          setError('No trivia found for this selection. Please go back and try another combination.');
-          speak('No trivia found for this selection. Please go back and try another combination.');
-        } else {
-          const requestedCount = count ? parseInt(count as string) : 10;
-          const limitedItems = data.items.slice(0, requestedCount);
-          setTriviaItems(limitedItems);
-          speak(`Starting trivia with ${limitedItems.length} questions. Get ready for your first question.`);
-        }
-      } catch (err) {
-        setError('Failed to load trivia. Please check your connection and try again.');
-        speak('Failed to load trivia. Please go back to the menu and try again.');
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (!config || !loaded) return;
+    const saved = loadSavedRound();
+    if (saved && saved.link === configQuery && triviaItems.length === 0) {
+      setResumable(saved);
+      setLoading(false);
+      speak(t('play.resumeOffer', { current: saved.currentIndex + 1, total: saved.items.length }));
+      return;
+    }
+    fetchTrivia();
+    // configQuery captures every field of config
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [configQuery, loaded, locale]);
+
+  // /play on its own goes back to the unfinished round, if there is one
+  useEffect(() => {
+    if (!router.isReady || config) return;
+    const saved = loadSavedRound();
+    if (saved) router.replace(`/play?${saved.link}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady, configQuery]);
+
+  // Adaptive rounds swap questions as they go, so the link follows the questions actually played
+  useEffect(() => {
+    if (triviaItems.length > 0) linkRound(triviaItems);
+    // linkRound reads config, which changes only with a new round
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [triviaItems]);
+
+  // Keeps the questions and where the round has got to, until it ends
+  useEffect(() => {
+    if (loading || error || resumable || triviaItems.length === 0) return;
+    if (hasEnded) {
+      clearSavedRound();
+      return;
+    }
+    saveRound({
+      link: roundLinkRef.current,
+      items: triviaItems,
+      adaptive,
+      reserve,
+      currentIndex,
+      showAnswer,
+      tally,
+      spokenResults,
+      savedAt: Date.now(),
+    });
+  }, [loading, error, resumable, triviaItems, adaptive, reserve, currentIndex, showAnswer, tally, spokenResults, hasEnded]);
+
+  const handleResume = () => {
+    if (!resumable) return;
+    furthestIndexRef.current = resumable.currentIndex;
+    setTriviaItems(resumable.items);
+    setReserve(resumable.reserve);
+    setResumedAdaptive(resumable.adaptive);
+    setCurrentIndex(resumable.currentIndex);
+    setShowAnswer(resumable.showAnswer);
+    setTally(resumable.tally);
+    setSpokenResults(resumable.spokenResults);
+    setCountdown(resumable.showAnswer ? answerSeconds : questionSeconds);
+    setResumable(null);
+    // The question is read out as it appears; an answer already revealed is read again here
+    const current = resumable.items[resumable.currentIndex];
+    speak([t('play.resumed', { current: resumable.currentIndex + 1, total: resumable.items.length }),
+      ...(resumable.showAnswer ? [answerSpeech(current, t)] : [])].join(' '), { priority: 'interrupt' });
+  };
+
+  const handleStartOver = () => {
+    cancelNarration();
+    clearSavedRound();
+    setResumable(null);
     fetchTrivia();
-  }, [countries, period, count]);
+  };
+
+  const timerRunning = !loading && !error && triviaItems.length > 0 && !isPaused && !hasEnded && !timerHeld && !hostMode && !confirmingExit;
 
   useEffect(() => {
-    if (loading || error || triviaItems.length === 0 || isPaused || hasEnded) {
+    if (!timerRunning) {
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
       return;
     }
-    const currentItem = triviaItems[currentIndex];
     timerIntervalRef.current = setInterval(() => {
-      setCountdown(prev => {
-        if (prev <= 1) {
-          if (!showAnswer) {
-            setShowAnswer(true);
-            const answerText = currentItem.funFact
-              ? `The answer is: ${currentItem.answer}. ${currentItem.funFact}`
-              : `The answer is: ${currentItem.answer}`;
-            speak(answerText);
-            return 6;
-          } else {
-            if (currentIndex < triviaItems.length - 1) {
-              setCurrentIndex(currentIndex + 1);
-              setShowAnswer(false);
-              return 8;
-            } else {
-              setHasEnded(true);
-              speak('Trivia has finished. You can replay from the beginning or go back to the menu.');
-              return 0;
-            }
-          }
-        }
-        return prev - 1;
-      });
+      setCountdown(prev => Math.max(prev - 1, 0));
     }, 1000);
     return () => { if (timerIntervalRef.current) clearInterval(timerIntervalRef.current); };
-  }, [currentIndex, showAnswer, isPaused, loading, error, hasEnded, triviaItems]);
+  }, [timerRunning]);
+
+  // Reveals the answer or moves on when the countdown runs out. Kept out of the setCountdown
+  // updater, which StrictMode calls twice, so nothing is said twice.
+  useEffect(() => {
+    if (!timerRunning || countdown > 0) return;
+    if (!showAnswer) {
+      setShowAnswer(true);
+      setCountdown(answerSeconds);
+      speak(answerSpeech(triviaItems[currentIndex], t), { priority: 'high' });
+    } else if (currentIndex < triviaItems.length - 1) {
+      setCurrentIndex(currentIndex + 1);
+      setShowAnswer(false);
+      setCountdown(questionSeconds);
+    } else {
+      setHasEnded(true);
+      speak(t('play.finished'));
+    }
+  }, [timerRunning, countdown, showAnswer, currentIndex, triviaItems, questionSeconds, answerSeconds, t]);
 
   useEffect(() => {
     if (!loading && !error && triviaItems.length > 0 && !isPaused && !hasEnded && !showAnswer) {
       const currentItem = triviaItems[currentIndex];
-      speak(currentItem.question);
-      setCountdown(8);
+      // Waits for an announcement that is still playing, such as the round starting or moving on
+      speak(questionSpeech(currentItem, t), { priority: 'high' });
+      setCountdown(questionSeconds);
+    }
+  }, [currentIndex, triviaItems, loading, error, isPaused, hasEnded, showAnswer, questionSeconds, t]);
+
+  // Record each question as it is shown so later rounds prefer unplayed ones
+  useEffect(() => {
+    if (triviaItems.length === 0 || hasEnded) return;
+    fetch('/api/history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ profile: currentProfile(), ids: [triviaItems[currentIndex].id] }),
+    }).catch(() => {});
+  }, [currentIndex, triviaItems, hasEnded]);
+
+  // Whether the room got a question right: the spoken answer, or at least half the teams
+  const answeredRight = (index: number) => (spokenAnswers
+    ? !!(spokenResults[index] && spokenResults[index].correct)
+    : (tally[index] || []).length * 2 >= teams.length);
+
+  useEffect(() => {
+    furthestIndexRef.current = Math.max(furthestIndexRef.current, currentIndex);
+  }, [currentIndex]);
+
+  // Once an answer is in, adaptive rounds line up the next question's difficulty from the results so far
+  useEffect(() => {
+    if (!adaptive || !showAnswer || currentIndex < furthestIndexRef.current) return;
+    const results = triviaItems.slice(0, currentIndex + 1).map((item, i) => answeredRight(i));
+    const wanted = nextDifficulty(itemDifficulty(triviaItems[currentIndex]), results);
+    const round = adaptUpcoming({ items: triviaItems, reserve }, currentIndex + 1, wanted);
+    if (round.items !== triviaItems) {
+      setTriviaItems(round.items);
+      setReserve(round.reserve);
     }
-  }, [currentIndex, triviaItems, loading, error, isPaused, hasEnded, showAnswer]);
+    // Reruns when a result changes; triviaItems and reserve are what it updates
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [adaptive, showAnswer, currentIndex, tally, spokenResults]);
 
   const handlePausePlay = () => {
     if (isPaused) {
-      speak('Resuming trivia');
+      speak(t('play.resuming'), { priority: 'interrupt' });
     } else {
-      speak('Paused');
-      if (typeof window !== 'undefined' && window.speechSynthesis) window.speechSynthesis.cancel();
+      speak(t('play.paused'), { priority: 'interrupt' });
     }
     setIsPaused(!isPaused);
   };
@@ -122,45 +307,262 @@ export default function Play() {
     if (triviaItems.length === 0) return;
     const currentItem = triviaItems[currentIndex];
     if (showAnswer) {
-      const answerText = currentItem.funFact
-        ? `${currentItem.question}. The answer is: ${currentItem.answer}. ${currentItem.funFact}`
-        : `${currentItem.question}. The answer is: ${currentItem.answer}`;
-      speak(answerText);
+      speak(`${currentItem.question}. ${answerSpeech(currentItem, t)}`, { priority: 'interrupt' });
     } else {
-      speak(currentItem.question);
+      speak(questionSpeech(currentItem, t), { priority: 'interrupt' });
     }
   };
 
+  const handleRevealAnswer = () => {
+    if (triviaItems.length === 0 || showAnswer) return;
+    setShowAnswer(true);
+    setCountdown(answerSeconds);
+    speak(answerSpeech(triviaItems[currentIndex], t), { priority: 'interrupt' });
+  };
+
+  const handlePreviousQuestion = () => {
+    if (currentIndex === 0) return;
+    setCurrentIndex(currentIndex - 1);
+    setShowAnswer(false);
+    setCountdown(questionSeconds);
+    speak(t('play.goingBack'), { priority: 'interrupt' });
+  };
+
   const handleNextQuestion = () => {
     if (currentIndex < triviaItems.length - 1) {
       setCurrentIndex(currentIndex + 1);
       setShowAnswer(false);
-      setCountdown(8);
-      speak('Moving to next question');
+      setCountdown(questionSeconds);
+      speak(t('play.movingOn'), { priority: 'interrupt' });
     } else {
       setHasEnded(true);
-      speak('That was the last question. Trivia has finished.');
+      speak(t('play.lastQuestion'), { priority: 'interrupt' });
     }
   };
 
+  const handleTallyToggle = (team: string) => {
+    const gotIt = !(tally[currentIndex] || []).includes(team);
+    setTally(toggleTally(tally, currentIndex, team));
+    // Give the room time to finish tallying before moving on
+    setCountdown(answerSeconds);
+    speak(t(gotIt ? 'play.pointFor' : 'play.pointRemoved', { team }), { priority: 'high' });
+  };
+
   const handleReplay = () => {
+    setTally({});
+    setSpokenResults({});
     setCurrentIndex(0);
     setShowAnswer(false);
     setHasEnded(false);
     setIsPaused(false);
-    setCountdown(8);
-    speak('Restarting trivia from the beginning');
+    setCountdown(questionSeconds);
+    speak(t('play.restarting'), { priority: 'interrupt' });
   };
 
   const handleBackToMenu = () => {
-    if (typeof window !== 'undefined' && window.speechSynthesis) window.speechSynthesis.cancel();
+    cancelNarration();
     router.push('/');
   };
 
+  const inRound = !loading && !error && triviaItems.length > 0 && !hasEnded;
+
+  // Leaving mid-round asks first, since it gives up the saved progress
+  const handleExit = () => {
+    if (!inRound) {
+      handleBackToMenu();
+    } else if (confirmingExit) {
+      clearSavedRound();
+      handleBackToMenu();
+    } else {
+      setConfirmingExit(true);
+      speak(t('play.exitConfirm'), { priority: 'high' });
+    }
+  };
+
+  const handleKeepPlaying = () => {
+    setConfirmingExit(false);
+    speak(t('play.keepPlayingSpoken'), { priority: 'high' });
+  };
+
+  const stateLabel = (on: boolean) => t(on ? 'display.stateOn' : 'display.stateOff');
+  const points = (score: number) => (score === 1 ? t('end.onePoint') : t('end.points', { count: score }));
+  const spokenCorrect = Object.values(spokenResults).filter(result => result.correct).length;
+
+  useEffect(() => {
+    if (!hasEnded) return;
+    if (teams.length === 0) {
+      if (spokenAnswers) speak(t('end.spokenScoreSpoken', { correct: spokenCorrect, total: triviaItems.length }));
+      return;
+    }
+    const [winner, runnerUp] = rankTeams(teams, tally);
+    speak(runnerUp && runnerUp.score === winner.score
+      ? t('end.tie', { points: points(winner.score) })
+      : t('end.winner', { team: winner.team, points: points(winner.score) }));
+    // Announce once when the round ends
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasEnded]);
+
+  const handleRemoteCommand = (command: RemoteCommand) => {
+    if (loading || error || triviaItems.length === 0) return;
+    switch (command) {
+      case 'pause':
+        if (!isPaused && !hasEnded) handlePausePlay();
+        break;
+      case 'resume':
+        if (isPaused) handlePausePlay();
+        break;
+      case 'next':
+        if (!hasEnded) handleNextQuestion();
+        break;
+      case 'previous':
+        if (!hasEnded) handlePreviousQuestion();
+        break;
+      case 'repeat':
+        if (!hasEnded) handleRepeat();
+        break;
+      case 'reveal':
+        if (!hasEnded) handleRevealAnswer();
+        break;
+    }
+  };
+
+  const remoteStatus: RemoteStatus | null = error ? null : {
+    state: loading ? 'loading' : hasEnded ? 'ended' : 'playing',
+    index: currentIndex,
+    total: triviaItems.length,
+    question: triviaItems[currentIndex]?.question,
+    // The server passes the answer on early only to the phone that took the host role
+    answer: hostMode || showAnswer ? triviaItems[currentIndex]?.answer : undefined,
+    showAnswer,
+    paused: isPaused,
+    host: hostMode,
+  };
+  const { code: remoteCode, remoteConnected, hostPaired, releaseHost } = useRemoteControl(remoteStatus, handleRemoteCommand);
+
+  useEffect(() => {
+    setRemoteUrl(`${window.location.origin}/remote`);
+  }, []);
+
+  // Voice control carries over when it was switched on in the menu
+  useEffect(() => {
+    if (config && config.voice) setIsVoiceActive(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [configQuery]);
+
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    switch (command.type) {
+      case 'exit':
+        handleExit();
+        break;
+      case 'help':
+        speak(t('voice.help', { commands: VOICE_COMMAND_HELP.play.map(key => t(key)).join(', ') }), { priority: 'high' });
+        break;
+      case 'stopListening':
+        setIsVoiceActive(false);
+        speak(t('voice.offSpoken'), { priority: 'high' });
+        break;
+      case 'pause':
+      case 'resume':
+      case 'next':
+      case 'previous':
+      case 'repeat':
+      case 'reveal':
+        // Same rules as the phone remote
+        handleRemoteCommand(command.type);
+        break;
+    }
+  };
+
+  const handleSpokenAnswer = (transcript: string) => {
+    const currentItem = triviaItems[currentIndex];
+    const correct = isSpokenAnswerCorrect(transcript, currentItem, locale);
+    setSpokenResults({ ...spokenResults, [currentIndex]: { heard: transcript, correct } });
+    setShowAnswer(true);
+    setCountdown(answerSeconds);
+    speak(`${t(correct ? 'play.correct' : 'play.notQuite')} ${answerSpeech(currentItem, t)}`, { priority: 'high' });
+  };
+
+  // Answers are only taken once the question has been read, so narration isn't mistaken for one
+  const awaitingAnswer = spokenAnswers && !loading && !error && triviaItems.length > 0 &&
+    !hasEnded && !showAnswer && !isPaused && !isNarrating;
+
+  const { listening } = useSpeechRecognition({
+    enabled: isVoiceActive || (spokenAnswers && !hasEnded),
+    lang: speechLang,
+    onResult: (transcript, isFinal) => {
+      // Long phrases heard during narration are most likely our own voice
+      if (isNarrating && transcript.split(/\s+/).length > 3) return;
+      setVoiceCommand(transcript);
+      if (!isFinal) return;
+      const command = isVoiceActive ? parseVoiceCommand(transcript, 'play', locale) : null;
+      // A right answer wins over a command that happens to sound like it
+      if (awaitingAnswer && (!command || isSpokenAnswerCorrect(transcript, triviaItems[currentIndex], locale))) {
+        handleSpokenAnswer(transcript);
+      } else if (command) {
+        handleVoiceCommand(command);
+      }
+    },
+    onFailure: (reason) => {
+      setIsVoiceActive(false);
+      speak(t(reason === 'unsupported' ? 'voice.unsupported' : 'voice.startFailed'));
+    },
+  });
+
+  // Host mode reveals the answer before moving on
+  const handleAdvance = () => {
+    if (hostMode && !showAnswer) {
+      handleRevealAnswer();
+    } else {
+      handleNextQuestion();
+    }
+  };
+
+  // With a control focused, arrows move between controls instead
+  const controlFocused = () => !!document.activeElement && document.activeElement !== document.body;
+
+  useSpatialNavigation();
+  useKeyboardShortcuts({
+    ' ': () => {
+      if (!inRound) return false;
+      handlePausePlay();
+    },
+    r: () => {
+      if (!inRound) return false;
+      handleRepeat();
+    },
+    ArrowRight: () => {
+      if (!inRound || controlFocused()) return false;
+      handleAdvance();
+    },
+    Escape: () => (confirmingExit ? handleKeepPlaying() : handleExit()),
+    MediaPlayPause: () => { if (inRound) handlePausePlay(); },
+    MediaPlay: () => { if (inRound && isPaused) handlePausePlay(); },
+    MediaPause: () => { if (inRound && !isPaused) handlePausePlay(); },
+    MediaTrackNext: () => { if (inRound) handleAdvance(); },
+    MediaTrackPrevious: () => { if (inRound) handlePreviousQuestion(); },
+  });
+  useMediaSession(
+    inRound ? {
+      title: triviaItems[currentIndex].question,
+      album: t('play.progress', { current: currentIndex + 1, total: triviaItems.length }),
+      paused: isPaused,
+    } : null,
+    {
+      play: () => { if (inRound && isPaused) handlePausePlay(); },
+      pause: () => { if (inRound && !isPaused) handlePausePlay(); },
+      nexttrack: () => { if (inRound) handleAdvance(); },
+      previoustrack: () => { if (inRound) handlePreviousQuestion(); },
+    }
+  );
+
+  useEffect(() => {
+    if (remoteConnected) speak(t('play.remoteConnectedSpoken'));
+  }, [remoteConnected, t]);
+
   const containerClass = `min-h-screen p-8 ${highContrast ? 'bg-black' : 'bg-blue-900'} text-white`;
-  const textSize = largeText ? 'text-4xl' : 'text-3xl';
-  const questionSize = largeText ? 'text-7xl' : 'text-6xl';
-  const answerSize = largeText ? 'text-6xl' : 'text-5xl';
+  const textSize = textSizes[textScale];
+  const questionSize = questionSizes[textScale];
+  const answerSize = answerSizes[textScale];
   const buttonClass = `px-8 py-6 rounded-xl font-bold transition-colors focus:outline-none focus:ring-4 focus:ring-yellow-400 ${
     highContrast ? 'bg-white text-black hover:bg-gray-200' : 'bg-blue-500 hover:bg-blue-400 text-white'
   }`;
@@ -187,7 +589,7 @@ export default function Play() {
               animate={{ opacity: [0.5, 1, 0.5] }}
               transition={{ duration: 1.5, repeat: Infinity }}
             >
-              Loading your trivia...
+              {t('play.loading')}
             </motion.p>
           </motion.div>
         </div>
@@ -199,7 +601,7 @@ export default function Play() {
   if (error) {
     return (
       <>
-        <Head><title>World Trivia TV - Error</title></Head>
+        <Head><title>{t('play.errorTitle')}</title></Head>
         <div className={containerClass}>
           <div className="flex items-center justify-center min-h-screen">
             <motion.div
@@ -215,7 +617,7 @@ export default function Play() {
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
               >
-                ⬅️ Back to Menu
+                {t('end.backToMenu')}
               </motion.button>
             </motion.div>
           </div>
@@ -224,11 +626,128 @@ export default function Play() {
     );
   }
 
+  // ── Resume Offer ──
+  if (resumable) {
+    return (
+      <>
+        <Head><title>{t('play.pageTitle')}</title></Head>
+        <div className={containerClass}>
+          <div className="flex items-center justify-center min-h-screen">
+            <motion.div
+              className="text-center max-w-4xl"
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+            >
+              <div className={`${questionSize} mb-8`}>⏯️</div>
+              <h1 className={`${answerSize} font-bold mb-6`}>{t('play.resumeTitle')}</h1>
+              <p className={`${textSize} mb-12`}>
+                {t('play.progress', { current: resumable.currentIndex + 1, total: resumable.items.length })}
+              </p>
+              <div className="flex gap-6 justify-center flex-wrap">
+                <motion.button
+                  onClick={handleResume}
+                  className={`${buttonClass} ${textSize}`}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {t('play.resumeRound')}
+                </motion.button>
+                <motion.button
+                  onClick={handleStartOver}
+                  className={`${buttonClass} ${textSize}`}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {t('play.startOver')}
+                </motion.button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const standings = rankTeams(teams, tally);
+  // Playlists don't choose countries, so theirs come from the questions
+  const countryNames = config && config.countries.length > 0
+    ? config.countries
+    : Array.from(new Set(triviaItems.map(item => item.country)));
+  const roundCountries = countryNames.join(` ${t('common.and')} `);
+  const medals = ['🥇', '🥈', '🥉'];
+
   // ── End State ──
+  if (hasEnded && teams.length > 0) {
+    return (
+      <>
+        <Head><title>{t('end.standingsTitle')}</title></Head>
+        <div className={containerClass}>
+          <div className="flex items-center justify-center min-h-screen">
+            <motion.div
+              className="text-center max-w-4xl w-full"
+              initial={{ opacity: 0, scale: 0.85 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ type: 'spring', stiffness: 200, damping: 18 }}
+            >
+              <motion.div
+                className={`${questionSize} mb-8`}
+                animate={{ rotate: [0, -10, 10, -10, 10, 0], scale: [1, 1.2, 1.2, 1.2, 1.2, 1] }}
+                transition={{ duration: 0.8, delay: 0.2 }}
+              >
+                🏆
+              </motion.div>
+              <h1 className={`${questionSize} mb-12 font-bold`}>{t('end.standings')}</h1>
+              <ol className="mb-12 space-y-4" aria-label={t('end.standings')}>
+                {standings.map((standing, i) => (
+                  <motion.li
+                    key={standing.team}
+                    className={`flex items-center justify-between gap-6 px-8 py-6 rounded-2xl ${
+                      standing.rank === 1 ? 'bg-yellow-500 text-black' : highContrast ? 'bg-white text-black' : 'bg-blue-700'
+                    }`}
+                    initial={{ opacity: 0, x: -30 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: 0.3 + 0.15 * i }}
+                  >
+                    <span className={`${answerSize} font-bold`}>
+                      {medals[standing.rank - 1] || `${standing.rank}.`} {standing.team}
+                    </span>
+                    <span className={`${answerSize} font-bold`}>{standing.score}</span>
+                  </motion.li>
+                ))}
+              </ol>
+              <p className={`${textSize} mb-12`}>
+                {t('end.outOf', { count: triviaItems.length, countries: roundCountries })}
+                {spokenAnswers && t('end.spokenTally', { count: spokenCorrect })}
+              </p>
+              <div className="flex gap-6 justify-center flex-wrap">
+                <motion.button
+                  onClick={handleReplay}
+                  className={`${buttonClass} ${textSize}`}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {t('end.replay')}
+                </motion.button>
+                <motion.button
+                  onClick={handleBackToMenu}
+                  className={`${buttonClass} ${textSize}`}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {t('end.backToMenu')}
+                </motion.button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      </>
+    );
+  }
+
   if (hasEnded) {
     return (
       <>
-        <Head><title>World Trivia TV - Finished</title></Head>
+        <Head><title>{t('end.finishedTitle')}</title></Head>
         <div className={containerClass}>
           <div className="flex items-center justify-center min-h-screen">
             <motion.div
@@ -244,10 +763,15 @@ export default function Play() {
               >
                 🎉
               </motion.div>
-              <h1 className={`${questionSize} mb-8 font-bold`}>Trivia Complete!</h1>
+              <h1 className={`${questionSize} mb-8 font-bold`}>{t('end.complete')}</h1>
               <p className={`${textSize} mb-12`}>
-                You&apos;ve finished all {triviaItems.length} questions for {countries}.
+                {t('end.summary', { count: triviaItems.length, countries: roundCountries })}
               </p>
+              {spokenAnswers && (
+                <p className={`${answerSize} font-bold mb-12 text-yellow-300`}>
+                  {t('end.spokenScore', { correct: spokenCorrect, total: triviaItems.length })}
+                </p>
+              )}
               <div className="flex gap-6 justify-center flex-wrap">
                 <motion.button
                   onClick={handleReplay}
@@ -255,7 +779,7 @@ export default function Play() {
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                 >
-                  🔄 Replay
+                  {t('end.replay')}
                 </motion.button>
                 <motion.button
                   onClick={handleBackToMenu}
@@ -263,7 +787,7 @@ export default function Play() {
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                 >
-                  ⬅️ Back to Menu
+                  {t('end.backToMenu')}
                 </motion.button>
               </div>
             </motion.div>
@@ -274,13 +798,12 @@ export default function Play() {
   }
 
   const currentItem = triviaItems[currentIndex];
-  // Countdown ring: 8s for question, 6s for answer
-  const maxCount = showAnswer ? 6 : 8;
+  const maxCount = showAnswer ? answerSeconds : questionSeconds;
   const countdownPct = countdown / maxCount;
 
   return (
     <>
-      <Head><title>World Trivia TV - Playing</title></Head>
+      <Head><title>{t('play.pageTitle')}</title></Head>
 
       <div className={containerClass}>
         <div className="max-w-7xl mx-auto">
@@ -293,28 +816,56 @@ export default function Play() {
             transition={{ duration: 0.4 }}
           >
             <motion.button
-              onClick={handleBackToMenu}
+              onClick={handleExit}
               className={`${buttonClass} text-2xl`}
-              aria-label="Exit round"
+              aria-label={t('play.exitAria')}
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
             >
-              ⬅️ Exit Round
+              {t('play.exit')}
             </motion.button>
             <div className="flex gap-4 flex-wrap">
               {[
-                { label: highContrast ? '☀️' : '🌙', action: () => setHighContrast(!highContrast) },
-                { label: '🔍', action: () => setLargeText(!largeText) },
-                { label: isPaused ? '▶️ Resume' : '⏸️ Pause', action: handlePausePlay },
-                { label: '🔊 Repeat', action: handleRepeat },
-                { label: '⏭️ Next', action: handleNextQuestion, extra: 'bg-green-600 hover:bg-green-500' },
-              ].map((btn) => (
+                {
+                  label: highContrast ? '☀️' : '🌙',
+                  action: () => updatePreferences({ highContrast: !highContrast }),
+                  ariaLabel: t('display.highContrastAria', { state: stateLabel(highContrast) }),
+                },
+                {
+                  label: '🔍',
+                  action: () => updatePreferences({ textScale: nextTextScale(textScale) }),
+                  ariaLabel: t('display.textAria', { size: t(`textScale.${textScale}`) }),
+                },
+                {
+                  label: narration.muted ? '🔇' : '🔈',
+                  action: () => updateNarrationSettings({ muted: !narration.muted }),
+                  ariaLabel: t(narration.muted ? 'play.unmute' : 'play.mute'),
+                },
+                { label: '⚙️', action: () => setShowNarrationSettings(!showNarrationSettings), ariaLabel: t('play.narrationSettings') },
+                ...(hostMode
+                  ? [
+                      { label: t('play.previous'), action: handlePreviousQuestion, disabled: currentIndex === 0 },
+                    ]
+                  : [{ label: t(isPaused ? 'play.resume' : 'play.pause'), action: handlePausePlay }]),
+                { label: t('play.repeat'), action: handleRepeat },
+                {
+                  label: t(isVoiceActive ? 'voice.on' : 'voice.off'),
+                  action: () => setIsVoiceActive(!isVoiceActive),
+                  ariaLabel: t('voice.toggleAria', { state: stateLabel(isVoiceActive) }),
+                  extra: isVoiceActive ? 'bg-red-600 hover:bg-red-500' : '',
+                },
+                hostMode && !showAnswer
+                  ? { label: t('play.reveal'), action: handleRevealAnswer, extra: 'bg-yellow-500 hover:bg-yellow-400 text-black' }
+                  : { label: t('play.next'), action: handleNextQuestion, extra: 'bg-green-600 hover:bg-green-500' },
+              ].map((btn: { label: string; action: () => void; extra?: string; ariaLabel?: string; disabled?: boolean }) => (
                 <motion.button
                   key={btn.label}
                   onClick={btn.action}
-                  className={`${buttonClass} text-2xl ${btn.extra || ''}`}
-                  whileHover={{ scale: 1.08 }}
-                  whileTap={{ scale: 0.92 }}
+                  disabled={btn.disabled}
+                  className={`${buttonClass} text-2xl ${btn.extra || ''} ${btn.disabled ? 'opacity-40 cursor-not-allowed' : ''}`}
+                  aria-label={btn.ariaLabel}
+                  whileHover={!btn.disabled ? { scale: 1.08 } : {}}
+                  whileTap={!btn.disabled ? { scale: 0.92 } : {}}
                 >
                   {btn.label}
                 </motion.button>
@@ -322,6 +873,105 @@ export default function Play() {
             </div>
           </motion.div>
 
+          <AnimatePresence>
+            {showNarrationSettings && (
+              <motion.div
+                className="mb-8"
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+              >
+                <NarrationSettingsPanel highContrast={highContrast} />
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Exit confirmation; the timer waits while it is up */}
+          <AnimatePresence>
+            {confirmingExit && (
+              <motion.div
+                className={`mb-8 p-8 rounded-2xl text-center ${highContrast ? 'bg-white text-black' : 'bg-blue-700'}`}
+                role="alertdialog"
+                aria-labelledby="exit-confirm"
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+              >
+                <p id="exit-confirm" className={`${textSize} font-bold mb-6`}>{t('play.exitConfirm')}</p>
+                <div className="flex gap-6 justify-center flex-wrap">
+                  <motion.button
+                    onClick={handleKeepPlaying}
+                    className={`${buttonClass} ${textSize} bg-green-600 hover:bg-green-500`}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    {t('play.keepPlaying')}
+                  </motion.button>
+                  <motion.button
+                    onClick={handleExit}
+                    className={`${buttonClass} ${textSize} bg-red-600 hover:bg-red-500`}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    {t('play.exitAnyway')}
+                  </motion.button>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Remote pairing */}
+          {remoteCode && (
+            <p className="text-right text-xl mb-4" role="status">
+              {remoteConnected ? (
+                <span className="text-green-300 font-bold">{t('play.remoteConnected', { code: remoteCode })}</span>
+              ) : (
+                <span className="text-white/70">
+                  {t('play.remotePair', { url: remoteUrl })}{' '}
+                  <span className="font-bold text-yellow-300 tracking-widest">{remoteCode}</span>
+                </span>
+              )}
+            </p>
+          )}
+          {remoteCode && hostMode && (
+            <div className="flex justify-end items-center gap-4 text-xl mb-4" role="status">
+              {hostPaired ? (
+                <>
+                  <span className="text-green-300">{t('play.hostPaired')}</span>
+                  <motion.button
+                    onClick={releaseHost}
+                    className={`${buttonClass} text-xl`}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    {t('play.releaseHost')}
+                  </motion.button>
+                </>
+              ) : (
+                <span className="text-white/70">{t('play.hostWaiting')}</span>
+              )}
+            </div>
+          )}
+
+          {/* Voice status */}
+          <AnimatePresence>
+            {isVoiceActive && (
+              <motion.div
+                className="mb-6 p-4 bg-green-700 rounded-xl text-center"
+                role="status"
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+              >
+                <p className="text-2xl font-bold">
+                  🎤 {t(listening ? 'voice.listening' : 'voice.startingMic')}
+                  {voiceCommand ? ` · ${t('voice.heard', { text: voiceCommand })}` : ''}
+                </p>
+                <p className="text-xl mt-1">{t('voice.try', { commands: VOICE_COMMAND_HELP.play.map(key => t(key)).join(' · ') })}</p>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           {/* Progress */}
           <motion.div
             className="text-center mb-8"
@@ -330,8 +980,13 @@ export default function Play() {
             transition={{ delay: 0.2 }}
           >
             <p className={`${textSize} text-yellow-300`}>
-              Question {currentIndex + 1} of {triviaItems.length}
+              {t('play.progress', { current: currentIndex + 1, total: triviaItems.length })}
             </p>
+            {adaptive && (
+              <p className="text-lg text-white/70">
+                🎯 {t('play.difficulty', { difficulty: t(`difficulty.${itemDifficulty(currentItem)}`) })}
+              </p>
+            )}
             {/* Progress bar */}
             <div className="mt-3 max-w-xl mx-auto h-2 bg-blue-700 rounded-full overflow-hidden">
               <motion.div
@@ -342,9 +997,23 @@ export default function Play() {
             </div>
           </motion.div>
 
+          {/* Scoreboard */}
+          {teams.length > 0 && (
+            <ul className="flex flex-wrap justify-center gap-4 mb-8" aria-label={t('play.scoreboard')}>
+              {teams.map((team) => (
+                <li
+                  key={team}
+                  className={`px-6 py-3 rounded-xl text-2xl font-bold ${highContrast ? 'bg-white text-black' : 'bg-blue-700'}`}
+                >
+                  {team}: <span className="text-yellow-300">{teamScore(tally, team)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
           {/* Animated Countdown */}
           <AnimatePresence>
-            {!showAnswer && !isPaused && (
+            {!showAnswer && !isPaused && !hostMode && (
               <motion.div
                 className="text-center mb-8"
                 initial={{ opacity: 0, scale: 0.8 }}
@@ -367,7 +1036,9 @@ export default function Play() {
                     />
                     <text x="40" y="47" textAnchor="middle" fill="white" fontSize="22" fontWeight="bold">{countdown}</text>
                   </svg>
-                  <p className="text-lg text-white/60 mt-1">seconds</p>
+                  <p className="text-lg text-white/60 mt-1">
+                    {t(timerHeld ? 'play.timerHeld' : 'play.secondsLabel')}
+                  </p>
                 </div>
               </motion.div>
             )}
@@ -387,9 +1058,54 @@ export default function Play() {
                 <h1 className={`${questionSize} font-bold leading-tight`}>
                   {currentItem.question}
                 </h1>
+                {/* Question pictures stay up for the answer; clips play once narration stops */}
+                {phaseMedia(currentItem, 'question').map(({ kind, media }) => (
+                  <QuestionMedia
+                    key={`${currentIndex}-${media.src}`}
+                    kind={kind}
+                    media={media}
+                    playing={!showAnswer && !isPaused && !isNarrating}
+                    className="mt-10"
+                  />
+                ))}
+                {currentItem.choices && (
+                  <ol className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-12 text-left" aria-label={t('play.options')}>
+                    {currentItem.choices.options.map((option, i) => {
+                      const isCorrect = i === currentItem.choices!.correctIndex;
+                      const revealClass = showAnswer
+                        ? isCorrect ? 'bg-green-600 ring-4 ring-yellow-300' : 'opacity-40'
+                        : '';
+                      return (
+                        <motion.li
+                          key={option}
+                          className={`flex items-center gap-6 p-6 rounded-2xl ${highContrast ? 'bg-white text-black' : 'bg-blue-700'} ${revealClass}`}
+                          initial={{ opacity: 0, y: 12 }}
+                          animate={{ opacity: 1, y: 0, scale: showAnswer && isCorrect ? 1.04 : 1 }}
+                          transition={{ delay: showAnswer ? 0 : 0.1 * i }}
+                        >
+                          <span className={`${answerSize} font-bold text-yellow-300 min-w-[1.5em] text-center`}>{CHOICE_LABELS[i]}</span>
+                          <span className={`${textSize} font-bold`}>{option}</span>
+                          {showAnswer && isCorrect && <span className={textSize} aria-label={t('play.correctOption')}>✅</span>}
+                        </motion.li>
+                      );
+                    })}
+                  </ol>
+                )}
               </motion.div>
             </AnimatePresence>
 
+            {/* Spoken answer prompt */}
+            {spokenAnswers && !showAnswer && !isPaused && (
+              <motion.p
+                className={`${textSize} mt-12 font-bold text-yellow-300`}
+                role="status"
+                animate={awaitingAnswer && listening ? { opacity: [1, 0.5, 1] } : { opacity: 0.6 }}
+                transition={{ duration: 1.2, repeat: awaitingAnswer && listening ? Infinity : 0 }}
+              >
+                {t(awaitingAnswer && listening ? 'play.sayAnswer' : 'play.waitToAnswer')}
+              </motion.p>
+            )}
+
             {/* Answer Reveal */}
             <AnimatePresence>
               {showAnswer && (
@@ -407,8 +1123,23 @@ export default function Play() {
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 0.1 }}
                   >
-                    ✅ {currentItem.answer}
+                    ✅ {currentItem.choices ? `${CHOICE_LABELS[currentItem.choices.correctIndex]}: ` : ''}{currentItem.answer}
                   </motion.p>
+                  {phaseMedia(currentItem, 'answer').map(({ kind, media }) => (
+                    <QuestionMedia
+                      key={`${currentIndex}-${media.src}`}
+                      kind={kind}
+                      media={media}
+                      playing={!isPaused && !isNarrating}
+                      className="my-8"
+                    />
+                  ))}
+                  {spokenResults[currentIndex] && (
+                    <p className={`${textSize} font-bold`}>
+                      {t(spokenResults[currentIndex].correct ? 'play.spokenCorrect' : 'play.spokenWrong')}
+                      {' '}{t('play.youSaid', { text: spokenResults[currentIndex].heard })}
+                    </p>
+                  )}
                   {currentItem.funFact && (
                     <motion.p
                       className={`${textSize} mt-8 text-green-100`}
@@ -419,13 +1150,38 @@ export default function Play() {
                       💡 {currentItem.funFact}
                     </motion.p>
                   )}
-                  {countdown > 0 && !isPaused && (
+                  {teams.length > 0 && (
+                    <div className="mt-8">
+                      <p className={`${textSize} font-bold mb-4`}>{t('play.whoGotIt')}</p>
+                      <div className="flex flex-wrap justify-center gap-4">
+                        {teams.map((team) => {
+                          const gotIt = (tally[currentIndex] || []).includes(team);
+                          return (
+                            <motion.button
+                              key={team}
+                              onClick={() => handleTallyToggle(team)}
+                              className={`px-8 py-4 rounded-xl font-bold text-2xl focus:outline-none focus:ring-4 focus:ring-yellow-400 ${
+                                gotIt ? 'bg-yellow-400 text-black' : 'bg-green-800 text-white'
+                              }`}
+                              aria-pressed={gotIt}
+                              aria-label={t('play.gotItAria', { team })}
+                              whileHover={{ scale: 1.05 }}
+                              whileTap={{ scale: 0.95 }}
+                            >
+                              {gotIt ? '✔️' : '➕'} {team}
+                            </motion.button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+                  {countdown > 0 && !isPaused && !timerHeld && (
                     <motion.p
                       className={`${textSize} mt-8 text-yellow-300 font-bold`}
                       animate={{ opacity: [1, 0.5, 1] }}
                       transition={{ duration: 1, repeat: Infinity }}
                     >
-                      ⏭️ Next question in {countdown} second{countdown !== 1 ? 's' : ''}...
+                      {t('play.nextIn', { count: countdown })}
                     </motion.p>
                   )}
                 </motion.div>
@@ -441,12 +1197,16 @@ export default function Play() {
                   animate={{ opacity: 1, scale: 1 }}
                   exit={{ opacity: 0, scale: 0.9 }}
                 >
-                  <p className={`${textSize} font-bold`}>⏸️ Paused</p>
-                  <p className={`${textSize} mt-4`}>Press Resume to continue</p>
+                  <p className={`${textSize} font-bold`}>{t('play.pausedTitle')}</p>
+                  <p className={`${textSize} mt-4`}>{t('play.pausedHint')}</p>
                 </motion.div>
               )}
             </AnimatePresence>
           </main>
+
+          <p className="mt-16 text-center text-lg text-white/50" aria-hidden="true">
+            {t('play.shortcuts', { advance: t(hostMode ? 'play.shortcutReveal' : 'play.shortcutNext') })}
+          </p>
         </div>
       </div>
     </>
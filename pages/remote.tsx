@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { motion, AnimatePresence } from 'framer-motion';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTranslation } from '@/hooks/useTranslation';
+import { readStoredObject, writeStoredObject } from '@/lib/browserStorage';
+import type { RemoteCommand, RemoteStatus } from '@/lib/remote';
+
+const STATUS_POLL_MS = 1500;
+// Kept so the host's phone is still the host after a reload
+const HOST_KEY = 'wttv-remote-host';
+
+export default function Remote() {
+  const router = useRouter();
+  const [codeInput, setCodeInput] = useState('');
+  const [code, setCode] = useState('');
+  const [status, setStatus] = useState<RemoteStatus | null>(null);
+  const [tvConnected, setTvConnected] = useState(false);
+  const [error, setError] = useState('');
+  const [showHint, setShowHint] = useState(false);
+  const [hostKey, setHostKey] = useState('');
+  const [hostPaired, setHostPaired] = useState(false);
+  const { preferences } = usePreferences();
+  const { t } = useTranslation();
+
+  // Allow links such as /remote?code=ABCD
+  useEffect(() => {
+    if (typeof router.query.code !== 'string') return;
+    const linked = router.query.code.toUpperCase();
+    setCodeInput(linked);
+    setCode(linked);
+  }, [router.query.code]);
+
+  useEffect(() => {
+    const saved = readStoredObject(HOST_KEY, { code: '', hostKey: '' });
+    setHostKey(code && saved.code === code ? saved.hostKey : '');
+  }, [code]);
+
+  const saveHostKey = (key: string) => {
+    setHostKey(key);
+    writeStoredObject(HOST_KEY, { code, hostKey: key });
+  };
+
+  useEffect(() => {
+    if (!code) return;
+    let active = true;
+    let timer: NodeJS.Timeout;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/remote/${code}/status${hostKey ? `?host=${hostKey}` : ''}`);
+        const data = await response.json();
+        if (!active) return;
+        if (!response.ok) {
+          setError(data.error || t('remote.connectFailed'));
+          setCode('');
+          return;
+        }
+        setError('');
+        setStatus(data.status);
+        setTvConnected(data.tvConnected);
+        setHostPaired(data.hostPaired);
+        // The TV freed the host role
+        if (hostKey && !data.isHost) setHostKey('');
+      } catch (err) {
+        if (active) setTvConnected(false);
+      }
+      if (active) timer = setTimeout(poll, STATUS_POLL_MS);
+    };
+    poll();
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [code, hostKey, t]);
+
+  // A new question hides the hint again
+  useEffect(() => {
+    setShowHint(false);
+  }, [status?.index]);
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = codeInput.trim().toUpperCase();
+    if (trimmed) setCode(trimmed);
+  };
+
+  const handleLeave = () => {
+    setCode('');
+    setStatus(null);
+    setTvConnected(false);
+  };
+
+  const claimHost = async () => {
+    try {
+      const response = await fetch(`/api/remote/${code}/host`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        saveHostKey(data.hostKey);
+        setHostPaired(true);
+      } else {
+        setError(response.status === 409 ? t('remote.hostTaken') : data.error || t('remote.commandRejected'));
+      }
+    } catch (err) {
+      setError(t('remote.unreachable'));
+    }
+  };
+
+  const sendCommand = async (command: RemoteCommand) => {
+    try {
+      const response = await fetch(`/api/remote/${code}/commands`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ command }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || t('remote.commandRejected'));
+      }
+    } catch (err) {
+      setError(t('remote.unreachable'));
+    }
+  };
+
+  const buttonClass = 'w-full px-6 py-8 rounded-2xl font-bold text-3xl transition-colors focus:outline-none focus:ring-4 focus:ring-yellow-400 bg-blue-500 hover:bg-blue-400 text-white disabled:opacity-40';
+
+  const playing = status?.state === 'playing';
+
+  return (
+    <>
+      <Head>
+        <title>{t('remote.pageTitle')}</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+      </Head>
+
+      <div className={`min-h-screen p-6 ${preferences.highContrast ? 'bg-black' : 'bg-blue-900'} text-white`}>
+        <div className="max-w-md mx-auto">
+          <h1 className="text-4xl font-bold text-center mb-8">{t('remote.title')}</h1>
+
+          <AnimatePresence>
+            {error && (
+              <motion.p
+                className="mb-6 p-4 rounded-xl bg-red-600 text-2xl text-center"
+                role="alert"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+              >
+                {error}
+              </motion.p>
+            )}
+          </AnimatePresence>
+
+          {!code ? (
+            <form onSubmit={handleJoin} className="flex flex-col gap-6">
+              <label className="text-2xl flex flex-col gap-3">
+                <span>{t('remote.enterCode')}</span>
+                <input
+                  value={codeInput}
+                  onChange={(e) => setCodeInput(e.target.value.toUpperCase())}
+                  maxLength={4}
+                  autoCapitalize="characters"
+                  autoComplete="off"
+                  className="px-6 py-5 rounded-xl text-black text-5xl tracking-[0.5em] text-center font-bold focus:outline-none focus:ring-4 focus:ring-yellow-400"
+                  aria-label={t('remote.codeAria')}
+                />
+              </label>
+              <button type="submit" className={buttonClass} disabled={codeInput.trim().length === 0}>
+                {t('remote.connect')}
+              </button>
+            </form>
+          ) : (
+            <>
+              <p className="text-xl text-center mb-6" role="status">
+                {tvConnected ? (
+                  <span className="text-green-300">{t('remote.connected', { code })}</span>
+                ) : (
+                  <span className="text-yellow-300">{t('remote.waiting', { code })}</span>
+                )}
+              </p>
+
+              {status && status.state !== 'loading' && (
+                <div className="mb-6 p-4 rounded-xl bg-blue-800 text-center">
+                  {playing ? (
+                    <>
+                      <p className="text-xl text-yellow-300 mb-2">{t('play.progress', { current: status.index + 1, total: status.total })}</p>
+                      <p className="text-2xl font-bold">{status.question}</p>
+                      {status.showAnswer ? (
+                        <p className="text-2xl mt-3 text-green-300">✅ {status.answer}</p>
+                      ) : status.host && hostKey ? (
+                        <button
+                          onClick={() => setShowHint(!showHint)}
+                          className="mt-3 text-xl underline text-white/80"
+                          aria-label={t(showHint ? 'remote.hideHintAria' : 'remote.showHintAria')}
+                        >
+                          {showHint ? `🤫 ${status.answer}` : t('remote.showHint')}
+                        </button>
+                      ) : status.host && !hostPaired && (
+                        <button onClick={claimHost} className="mt-3 text-xl underline text-white/80">
+                          {t('remote.claimHost')}
+                        </button>
+                      )}
+                      {status.paused && <p className="text-xl mt-3 text-yellow-300">{t('play.pausedTitle')}</p>}
+                    </>
+                  ) : (
+                    <p className="text-2xl">{t('remote.roundFinished')}</p>
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <button
+                  onClick={() => sendCommand(status?.paused ? 'resume' : 'pause')}
+                  className={`${buttonClass} col-span-2`}
+                  disabled={!playing}
+                >
+                  {t(status?.paused ? 'play.resume' : 'play.pause')}
+                </button>
+                <button onClick={() => sendCommand('repeat')} className={buttonClass} disabled={!playing}>
+                  {t('play.repeat')}
+                </button>
+                <button
+                  onClick={() => sendCommand('reveal')}
+                  className={`${buttonClass} bg-yellow-500 hover:bg-yellow-400 text-black`}
+                  disabled={!playing || status?.showAnswer}
+                >
+                  {t('remote.reveal')}
+                </button>
+                <button
+                  onClick={() => sendCommand('previous')}
+                  className={buttonClass}
+                  disabled={!playing || !status || status.index === 0}
+                >
+                  {t('play.previous')}
+                </button>
+                <button
+                  onClick={() => sendCommand('next')}
+                  className={`${buttonClass} bg-green-600 hover:bg-green-500`}
+                  disabled={!playing}
+                >
+                  {t('play.next')}
+                </button>
+              </div>
+
+              <button onClick={handleLeave} className="mt-8 w-full text-xl underline text-white/70">
+                {t('remote.disconnect')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
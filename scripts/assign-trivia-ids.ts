@@ -0,0 +1,36 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseTriviaItems, TriviaItem, TriviaValidationError, withIds } from '@/lib/trivia';
+
+const USAGE = `Usage: npm run trivia:ids -- [file.json]
+
+Gives every question in a JSON bank that has no id one, and leaves the rest alone.
+The file defaults to data/trivia.json; use .data/trivia.json for the bank edited in /admin.
+A question's id is its key, so history recorded before ids existed still applies to it.`;
+
+const args = process.argv.slice(2);
+if (args.length > 1 || args.some(arg => arg.startsWith('--'))) {
+  console.error(USAGE);
+  process.exit(1);
+}
+const file = args[0] || path.join(process.cwd(), 'data', 'trivia.json');
+
+let items: TriviaItem[];
+try {
+  items = parseTriviaItems(JSON.parse(readFileSync(file, 'utf8')));
+} catch (error) {
+  if (error instanceof TriviaValidationError) {
+    console.error(`${file} failed validation; run npm run lint:trivia -- ${file} for details`);
+  } else {
+    console.error(`Could not read ${file}: ${(error as Error).message}`);
+  }
+  process.exit(1);
+}
+
+const missing = items.filter(item => !item.id).length;
+if (missing === 0) {
+  console.log(`Every question in ${path.relative(process.cwd(), file)} already has an id`);
+} else {
+  writeFileSync(file, JSON.stringify(withIds(items), null, 4));
+  console.log(`Gave ${missing} of ${items.length} question(s) in ${path.relative(process.cwd(), file)} an id`);
+}
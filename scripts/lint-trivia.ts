@@ -0,0 +1,32 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { lintTrivia } from '@/lib/triviaLint';
+
+const file = process.argv[2] || path.join(process.cwd(), 'data', 'trivia.json');
+
+let raw: unknown;
+try {
+  raw = JSON.parse(readFileSync(file, 'utf8'));
+} catch (error) {
+  console.error(`Could not read ${file}: ${(error as Error).message}`);
+  process.exit(1);
+}
+
+// Media paths are URL paths, served from public/
+const issues = lintTrivia(raw, {
+  mediaExists: src => existsSync(path.join(process.cwd(), 'public', decodeURIComponent(src))),
+});
+const entries = Array.isArray(raw) ? raw : [];
+
+for (const issue of issues) {
+  const entry = entries[issue.index] as { question?: unknown } | undefined;
+  const label = issue.index >= 0 ? `#${issue.index}` : 'file';
+  const question = entry && typeof entry.question === 'string' ? ` "${entry.question}"` : '';
+  console.log(`${issue.severity.padEnd(7)} ${label}${question}\n        ${issue.rule}: ${issue.message}`);
+}
+
+const errors = issues.filter(issue => issue.severity === 'error').length;
+const warnings = issues.length - errors;
+console.log(`\n${path.relative(process.cwd(), file)}: ${entries.length} entries, ${errors} error(s), ${warnings} warning(s)`);
+
+process.exit(errors > 0 ? 1 : 0);
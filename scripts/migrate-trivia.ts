@@ -0,0 +1,85 @@
+import { existsSync, readFileSync, rmSync } from 'fs';
+import path from 'path';
+import { DATA_DIR } from '@/lib/store';
+import { parseTriviaItems, TriviaItem, TriviaValidationError, withIds } from '@/lib/trivia';
+import { SQLITE_FILE } from '@/lib/triviaBank';
+import { BUNDLED_TRIVIA_FILE } from '@/lib/triviaJsonRepository';
+import { DuplicateIdError, DuplicateKeyError } from '@/lib/triviaRepository';
+import { createSqliteTriviaRepository } from '@/lib/triviaSqliteRepository';
+
+const USAGE = `Usage: npm run trivia:migrate -- [source.json] [--to <file.sqlite>] [--replace]
+
+Copies a JSON question bank into a SQLite database for TRIVIA_STORE=sqlite.
+The source defaults to the bank the JSON store serves: .data/trivia.json if /admin has
+saved edits, otherwise data/trivia.json. The database defaults to TRIVIA_SQLITE_FILE or
+.data/trivia.sqlite; --replace overwrites one that already exists.`;
+
+const args = process.argv.slice(2);
+let source: string | undefined;
+let target = SQLITE_FILE;
+let replace = false;
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--to' && args[i + 1]) {
+    target = args[++i];
+  } else if (args[i] === '--replace') {
+    replace = true;
+  } else if (!args[i].startsWith('--') && !source) {
+    source = args[i];
+  } else {
+    console.error(USAGE);
+    process.exit(1);
+  }
+}
+
+const edited = path.join(DATA_DIR, 'trivia.json');
+const file = source || (existsSync(edited) ? edited : BUNDLED_TRIVIA_FILE);
+
+function removeDatabase() {
+  for (const suffix of ['', '-wal', '-shm']) rmSync(`${target}${suffix}`, { force: true });
+}
+
+async function main() {
+  let items: TriviaItem[];
+  try {
+    items = withIds(parseTriviaItems(JSON.parse(readFileSync(file, 'utf8'))));
+  } catch (error) {
+    if (error instanceof TriviaValidationError) {
+      console.error(`${file} failed validation; run npm run lint:trivia -- ${file} for details`);
+    } else {
+      console.error(`Could not read ${file}: ${(error as Error).message}`);
+    }
+    process.exit(1);
+  }
+
+  if (existsSync(target)) {
+    if (!replace) {
+      console.error(`${target} already exists; pass --replace to overwrite it`);
+      process.exit(1);
+    }
+    removeDatabase();
+  }
+
+  const repository = createSqliteTriviaRepository(target, { create: true });
+  try {
+    await repository.add(items);
+  } catch (error) {
+    if (error instanceof DuplicateKeyError) {
+      removeDatabase();
+      console.error(`Entry #${error.position} repeats an earlier question; run npm run lint:trivia -- ${file}`);
+      process.exit(1);
+    }
+    if (error instanceof DuplicateIdError) {
+      removeDatabase();
+      console.error(`Entry #${error.position} repeats an earlier question's id; run npm run lint:trivia -- ${file}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const counts = await repository.counts();
+  const countries = new Set(counts.map(entry => entry.country)).size;
+  console.log(`Copied ${items.length} questions (${countries} countries) from ${file} to ${target}`);
+  console.log('Serve them with TRIVIA_STORE=sqlite');
+}
+
+main();
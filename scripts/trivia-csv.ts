@@ -0,0 +1,96 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { filterTriviaItems } from '@/lib/triviaAdmin';
+import { CsvFormat, detectFormat, importReport, itemsToDelimited } from '@/lib/triviaCsv';
+import { parseTriviaItems, questionId, TriviaItem, withIds } from '@/lib/trivia';
+
+const USAGE = `Usage:
+  npm run trivia:csv -- import <file.csv|file.tsv> [--bank <file.json>] [--commit]
+  npm run trivia:csv -- export [--bank <file.json>] [--country <name>] [--period <period>] [--category <category>] [--difficulty <level>] [--out <file>]
+
+--bank defaults to data/trivia.json; use .data/trivia.json for the bank edited in /admin.
+Import only reports unless --commit is given. Export writes TSV when --out ends in .tsv.`;
+
+const [command, ...rest] = process.argv.slice(2);
+const options: Record<string, string | true> = {};
+const positional: string[] = [];
+for (let i = 0; i < rest.length; i++) {
+  if (!rest[i].startsWith('--')) {
+    positional.push(rest[i]);
+  } else if (rest[i] === '--commit') {
+    options.commit = true;
+  } else {
+    options[rest[i].slice(2)] = rest[++i];
+  }
+}
+
+function option(name: string): string | undefined {
+  const value = options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function formatOf(file: string, text?: string): CsvFormat {
+  if (path.extname(file).toLowerCase() === '.tsv') return 'tsv';
+  return text === undefined ? 'csv' : detectFormat(text);
+}
+
+const bankFile = option('bank') || path.join(process.cwd(), 'data', 'trivia.json');
+
+let bank: TriviaItem[];
+try {
+  bank = parseTriviaItems(JSON.parse(readFileSync(bankFile, 'utf8')));
+} catch (error) {
+  fail(`Could not read ${bankFile}: ${(error as Error).message}`);
+}
+
+if (command === 'import') {
+  const file = positional[0];
+  if (!file) fail(USAGE);
+
+  let text = '';
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (error) {
+    fail(`Could not read ${file}: ${(error as Error).message}`);
+  }
+
+  const report = importReport(text, bank, formatOf(file, text));
+  for (const issue of report.issues) {
+    console.log(`error   row ${issue.row}${issue.field ? ` ${issue.field}` : ''}\n        ${issue.message}`);
+  }
+  for (const duplicate of report.duplicates) {
+    const where = duplicate.inBank ? 'already in the bank' : 'repeats an earlier row';
+    console.log(`skip    row ${duplicate.row} "${duplicate.question}"\n        ${where}`);
+  }
+  console.log(`\n${file}: ${report.rows} row(s), ${report.items.length} new, ${report.duplicates.length} duplicate(s), ${report.issues.length} error(s)`);
+
+  if (report.issues.length > 0) process.exit(1);
+  if (options.commit) {
+    writeFileSync(bankFile, JSON.stringify([...bank, ...withIds(report.items, bank.map(questionId))], null, 4));
+    console.log(`Added ${report.items.length} question(s) to ${path.relative(process.cwd(), bankFile)}`);
+  } else if (report.items.length > 0) {
+    console.log('Dry run: nothing was saved. Run again with --commit to add the new questions.');
+  }
+} else if (command === 'export') {
+  const out = option('out');
+  const items = filterTriviaItems(bank, {
+    country: option('country'),
+    period: option('period'),
+    category: option('category'),
+    difficulty: option('difficulty'),
+  });
+  const text = itemsToDelimited(items, out ? formatOf(out) : 'csv');
+  if (out) {
+    writeFileSync(out, text);
+    console.log(`Exported ${items.length} question(s) to ${out}`);
+  } else {
+    process.stdout.write(text);
+  }
+} else {
+  fail(USAGE);
+}